@@ -4,7 +4,9 @@ import { NavigationContainer } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { AccessibilityProvider } from './contexts/AccessibilityContext';
-import { NotificationProvider } from './contexts/NotificationContext';
+import { NotificationProvider, useNotification } from './contexts/NotificationContext';
+import { SyncProvider } from './contexts/SyncContext';
+import { CurrencyProvider } from './contexts/CurrencyContext';
 import NotificationBanner from './components/NotificationBanner';
 import LoginScreen from './screens/LoginScreen';
 import RegisterScreen from './screens/RegisterScreen';
@@ -15,9 +17,19 @@ import AccountSettingsScreen from './screens/AccountSettingsScreen';
 import NotificationSettingsScreen from './screens/NotificationSettingsScreen';
 import DataManagementScreen from './screens/DataManagementScreen';
 import AccessibilitySettingsScreen from './screens/AccessibilitySettingsScreen';
+import CurrencySettingsScreen from './screens/CurrencySettingsScreen';
+import BalancesScreen from './screens/BalancesScreen';
+import ContactsScreen from './screens/ContactsScreen';
+import PersonDetailScreen from './screens/PersonDetailScreen';
+import CategoriesScreen from './screens/CategoriesScreen';
+import TaskListsScreen from './screens/TaskListsScreen';
 import { createStackNavigator } from '@react-navigation/stack';
 import { View, ActivityIndicator } from 'react-native';
 import { CleanupService } from './services/CleanupService';
+import { RecurringExpenseService } from './services/RecurringExpenseService';
+import { MigrationService } from './services/MigrationService';
+import { ContactService } from './services/ContactService';
+import { CategoryService } from './services/CategoryService';
 import { useEffect } from 'react';
 
 const Stack = createStackNavigator();
@@ -70,21 +82,61 @@ function TabNavigator() {
 
 function AppNavigator() {
   const { currentUser, loading } = useAuth();
+  const { showNotification } = useNotification();
 
-  // Run automatic cleanup when user logs in
+  // Run migrations and automatic cleanup when user logs in
   useEffect(() => {
     if (currentUser) {
-      // Run cleanup in the background
-      CleanupService.runAutoCleanup(currentUser.uid).then((results) => {
-        if (results.tasks > 0 || results.expenses > 0) {
-          console.log(`Auto-cleanup: Deleted ${results.tasks} tasks and ${results.expenses} expenses`);
-        }
-      }).catch((error) => {
-        console.error('Auto-cleanup error:', error);
-      });
+      runBackgroundTasks(currentUser.uid);
     }
   }, [currentUser]);
 
+  const runBackgroundTasks = async (userId: string) => {
+    // Upgrade old documents first so cleanup and recurring bills see the current schema
+    try {
+      const migrated = await MigrationService.runMigrations(userId, (progress) => {
+        console.log(`Migration: ${progress.collection} ${progress.migrated}/${progress.total}`);
+      });
+      if (migrated > 0) {
+        showNotification('Data Updated', `Upgraded ${migrated} item${migrated === 1 ? '' : 's'} to the latest format`, 'info', 2000);
+      }
+    } catch (error) {
+      console.error('Migration error:', error);
+    }
+
+    // Link expense participants saved before the people directory existed
+    ContactService.importFromExpenses(userId).then((count) => {
+      if (count > 0) {
+        console.log(`Contacts: Linked people on ${count} expenses`);
+      }
+    }).catch((error) => {
+      console.error('Contact import error:', error);
+    });
+
+    // Give new users a starting set of expense categories
+    CategoryService.addDefaults(userId).catch((error) => {
+      console.error('Default categories error:', error);
+    });
+
+    // Run cleanup in the background
+    CleanupService.runAutoCleanup(userId).then((results) => {
+      if (results.tasks > 0 || results.expenses > 0) {
+        console.log(`Auto-cleanup: Deleted ${results.tasks} tasks and ${results.expenses} expenses`);
+      }
+    }).catch((error) => {
+      console.error('Auto-cleanup error:', error);
+    });
+
+    // Create this cycle's bills for recurring expenses
+    RecurringExpenseService.generateDueExpenses(userId).then((count) => {
+      if (count > 0) {
+        console.log(`Recurring expenses: Created ${count} new bills`);
+      }
+    }).catch((error) => {
+      console.error('Recurring expense error:', error);
+    });
+  };
+
   if (loading) {
     return (
       <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#6C55BE' }}>
@@ -102,6 +154,12 @@ function AppNavigator() {
           <Stack.Screen name="NotificationSettings" component={NotificationSettingsScreen} />
           <Stack.Screen name="DataManagement" component={DataManagementScreen} />
           <Stack.Screen name="AccessibilitySettings" component={AccessibilitySettingsScreen} />
+          <Stack.Screen name="CurrencySettings" component={CurrencySettingsScreen} />
+          <Stack.Screen name="Balances" component={BalancesScreen} />
+          <Stack.Screen name="Contacts" component={ContactsScreen} />
+          <Stack.Screen name="PersonDetail" component={PersonDetailScreen} />
+          <Stack.Screen name="Categories" component={CategoriesScreen} />
+          <Stack.Screen name="TaskLists" component={TaskListsScreen} />
         </>
       ) : (
         <>
@@ -117,12 +175,16 @@ export default function App() {
   return (
     <AuthProvider>
       <AccessibilityProvider>
-        <NotificationProvider>
-          <NavigationContainer>
-            <AppNavigator />
-            <NotificationBanner />
-          </NavigationContainer>
-        </NotificationProvider>
+        <CurrencyProvider>
+          <NotificationProvider>
+            <SyncProvider>
+              <NavigationContainer>
+                <AppNavigator />
+                <NotificationBanner />
+              </NavigationContainer>
+            </SyncProvider>
+          </NotificationProvider>
+        </CurrencyProvider>
       </AccessibilityProvider>
     </AuthProvider>
   );
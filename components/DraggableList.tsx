@@ -0,0 +1,120 @@
+import React, { useRef, useState } from 'react';
+import { View, Animated, PanResponder, LayoutChangeEvent, StyleProp, ViewStyle } from 'react-native';
+
+interface DraggableListProps<T> {
+  items: T[];
+  keyExtractor: (item: T) => string;
+  // `startDrag` is meant for an item's onLongPress; keep the finger down and move to drag
+  renderItem: (item: T, startDrag: () => void, isDragging: boolean) => React.ReactNode;
+  onReorder: (from: number, to: number) => void;
+  onDragStateChange?: (dragging: boolean) => void; // e.g. to stop a parent ScrollView scrolling
+  style?: StyleProp<ViewStyle>;
+}
+
+interface ItemLayout {
+  y: number;
+  height: number;
+}
+
+// A plain list whose items can be long-pressed and dragged into a new position
+export default function DraggableList<T>({ items, keyExtractor, renderItem, onReorder, onDragStateChange, style }: DraggableListProps<T>) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [targetIndex, setTargetIndex] = useState<number | null>(null);
+  const dragY = useRef(new Animated.Value(0)).current;
+  const layouts = useRef<{ [key: string]: ItemLayout }>({});
+  const dragIndexRef = useRef<number | null>(null);
+  const targetIndexRef = useRef<number | null>(null);
+
+  // The responder below is created once, so it reads the latest props through a ref
+  const latest = useRef({ keys: [] as string[], onReorder, onDragStateChange });
+  latest.current = { keys: items.map(keyExtractor), onReorder, onDragStateChange };
+
+  const layoutAt = (index: number): ItemLayout | undefined => layouts.current[latest.current.keys[index]];
+
+  // Where the dragged item would land: the number of other items whose middle it has passed
+  const targetFor = (from: number, dy: number): number => {
+    const dragged = layoutAt(from);
+    if (!dragged) return from;
+    const middle = dragged.y + dragged.height / 2 + dy;
+    return latest.current.keys.filter((_, index) => {
+      const layout = layoutAt(index);
+      return index !== from && !!layout && layout.y + layout.height / 2 < middle;
+    }).length;
+  };
+
+  const endDrag = (commit: boolean) => {
+    const from = dragIndexRef.current;
+    const to = targetIndexRef.current;
+    dragIndexRef.current = null;
+    targetIndexRef.current = null;
+    dragY.setValue(0);
+    setDragIndex(null);
+    setTargetIndex(null);
+    latest.current.onDragStateChange?.(false);
+    if (commit && from !== null && to !== null && from !== to) {
+      latest.current.onReorder(from, to);
+    }
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Only take over the touch once an item has been long-pressed
+      onStartShouldSetPanResponderCapture: () => dragIndexRef.current !== null,
+      onMoveShouldSetPanResponderCapture: () => dragIndexRef.current !== null,
+      onPanResponderMove: (_, gesture) => {
+        if (dragIndexRef.current === null) return;
+        dragY.setValue(gesture.dy);
+        const target = targetFor(dragIndexRef.current, gesture.dy);
+        if (target !== targetIndexRef.current) {
+          targetIndexRef.current = target;
+          setTargetIndex(target);
+        }
+      },
+      onPanResponderRelease: () => endDrag(true),
+      onPanResponderTerminate: () => endDrag(false),
+      onPanResponderTerminationRequest: () => false,
+    })
+  ).current;
+
+  const startDrag = (index: number) => {
+    dragIndexRef.current = index;
+    targetIndexRef.current = index;
+    dragY.setValue(0);
+    setDragIndex(index);
+    setTargetIndex(index);
+    latest.current.onDragStateChange?.(true);
+  };
+
+  // Items between the dragged item's old and new position slide over to make room
+  const shiftFor = (index: number): number => {
+    if (dragIndex === null || targetIndex === null || index === dragIndex) return 0;
+    const height = layoutAt(dragIndex)?.height ?? 0;
+    if (dragIndex < targetIndex && index > dragIndex && index <= targetIndex) return -height;
+    if (dragIndex > targetIndex && index >= targetIndex && index < dragIndex) return height;
+    return 0;
+  };
+
+  return (
+    <View style={style} {...panResponder.panHandlers}>
+      {items.map((item, index) => {
+        const key = keyExtractor(item);
+        const isDragging = index === dragIndex;
+        return (
+          <Animated.View
+            key={key}
+            onLayout={(event: LayoutChangeEvent) => {
+              const { y, height } = event.nativeEvent.layout;
+              layouts.current[key] = { y, height };
+            }}
+            style={[
+              { transform: [{ translateY: isDragging ? dragY : shiftFor(index) }] },
+              isDragging && { zIndex: 10, elevation: 10, opacity: 0.9 },
+            ]}
+          >
+            {renderItem(item, () => startDrag(index), isDragging)}
+          </Animated.View>
+        );
+      })}
+    </View>
+  );
+}
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useAccessibility } from '../contexts/AccessibilityContext';
+import { InvalidDocument } from '../repositories';
+
+interface NeedsRepairBannerProps {
+  items: InvalidDocument[];
+  itemLabel: string; // e.g. "task"
+  onDelete: (id: string) => void;
+}
+
+// Lists stored documents that failed validation, with what was wrong and a way to remove them
+export default function NeedsRepairBanner({ items, itemLabel, onDelete }: NeedsRepairBannerProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { fontScale } = useAccessibility();
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.header} onPress={() => setExpanded(!expanded)}>
+        <Text style={[styles.headerText, { fontSize: 14 * fontScale }]}>
+          ⚠️ {items.length} {itemLabel}{items.length === 1 ? '' : 's'} need{items.length === 1 ? 's' : ''} repair
+        </Text>
+        <Text style={[styles.chevron, { fontSize: 14 * fontScale }]}>{expanded ? '▼' : '▶'}</Text>
+      </TouchableOpacity>
+      {expanded && (
+        <View style={styles.list}>
+          <Text style={[styles.hint, { fontSize: 12 * fontScale }]}>
+            These couldn't be read and are hidden until they're fixed or removed.
+          </Text>
+          {items.map((item) => (
+            <View key={item.id} style={styles.row}>
+              <View style={styles.rowInfo}>
+                <Text style={[styles.rowTitle, { fontSize: 14 * fontScale }]}>{item.title || `Untitled (${item.id})`}</Text>
+                <Text style={[styles.rowReason, { fontSize: 12 * fontScale }]}>{item.field}: {item.reason}</Text>
+              </View>
+              <TouchableOpacity onPress={() => onDelete(item.id)} style={styles.deleteButton}>
+                <Text style={{ fontSize: 20 * fontScale }}>🗑️</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFF3E0',
+    borderWidth: 1,
+    borderColor: '#FF9800',
+    borderRadius: 12,
+    marginBottom: 12,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  headerText: {
+    color: '#E65100',
+    fontWeight: '600',
+  },
+  chevron: {
+    color: '#E65100',
+  },
+  list: {
+    paddingHorizontal: 14,
+    paddingBottom: 10,
+  },
+  hint: {
+    color: '#8D6E63',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#FFE0B2',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  rowReason: {
+    color: '#E65100',
+    marginTop: 2,
+  },
+  deleteButton: {
+    paddingHorizontal: 4,
+    paddingVertical: 4,
+  },
+});
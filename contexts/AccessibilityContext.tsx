@@ -1,6 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { doc, getDoc, setDoc } from 'firebase/firestore';
-import { db } from '../firebaseConfig';
+import { getRepositories } from '../repositories';
 import { useAuth } from './AuthContext';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
@@ -93,11 +92,10 @@ export function AccessibilityProvider({ children }: { children: ReactNode }) {
 
         // Then try to load from Firestore (will fail silently if offline)
         try {
-          const userDoc = await getDoc(doc(db, 'users', currentUser.uid));
-          if (userDoc.exists()) {
-            const data = userDoc.data();
+          const data = await getRepositories().userProfiles.get(currentUser.uid);
+          if (data) {
             if (data.fontSize) {
-              setFontSizeState(data.fontSize);
+              setFontSizeState(data.fontSize as FontSize);
               // Update AsyncStorage cache
               await AsyncStorage.setItem('@font_size', data.fontSize);
             }
@@ -117,11 +115,7 @@ export function AccessibilityProvider({ children }: { children: ReactNode }) {
   // Helper function to sync to Firestore
   const syncToFirestore = async (size: FontSize, userId: string) => {
     try {
-      await setDoc(
-        doc(db, 'users', userId),
-        { fontSize: size },
-        { merge: true }
-      );
+      await getRepositories().userProfiles.save(userId, { fontSize: size });
       console.log('✓ Font size synced to Firestore');
       setPendingSync(null);
     } catch (error) {
@@ -140,8 +134,8 @@ export function AccessibilityProvider({ children }: { children: ReactNode }) {
         if (cachedSettings) {
           const settings = JSON.parse(cachedSettings);
           console.log('📤 [Global] Syncing to Firestore:', settings);
-          await setDoc(
-            doc(db, 'users', userId),
+          await getRepositories().userProfiles.save(
+            userId,
             {
               notificationFrequency: settings.frequency,
               notificationsEnabled: settings.notificationsEnabled,
@@ -149,8 +143,8 @@ export function AccessibilityProvider({ children }: { children: ReactNode }) {
               reminderMinute: settings.reminderMinute,
               selectedDays: settings.selectedDays,
               oneTimeDate: settings.oneTimeDate,
-            },
-            { merge: true }
+              ...(settings.defaultReminderOffsets && { defaultReminderOffsets: settings.defaultReminderOffsets }),
+            }
           );
           await AsyncStorage.removeItem('@notification_settings_pending');
           console.log('✅ [Global] Notification settings synced successfully!');
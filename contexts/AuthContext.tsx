@@ -1,8 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { onAuthStateChanged, signInWithEmailAndPassword, createUserWithEmailAndPassword, signOut, User, updatePassword, sendPasswordResetEmail, EmailAuthProvider, reauthenticateWithCredential, deleteUser } from 'firebase/auth';
-import { doc, setDoc, getDoc, deleteDoc, collection, query, where, getDocs, writeBatch } from 'firebase/firestore';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { auth, db } from '../firebaseConfig';
+import { auth } from '../firebaseConfig';
+import { getRepositories } from '../repositories';
 
 interface AuthContextType {
   currentUser: User | null;
@@ -102,9 +102,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       if (user) {
         // Load user profile data
         try {
-          const userDoc = await getDoc(doc(db, 'users', user.uid));
-          if (userDoc.exists()) {
-            const userData = userDoc.data();
+          const userData = await getRepositories().userProfiles.get(user.uid);
+          if (userData) {
             setUserName(userData.name || '');
             setWeeklyGoal(userData.weeklyGoal || 80);
             setMonthlyGoal(userData.monthlyGoal || 75);
@@ -158,11 +157,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (!currentUser) return;
     
     try {
-      await setDoc(doc(db, 'users', currentUser.uid), {
+      await getRepositories().userProfiles.save(currentUser.uid, {
         name,
         email: currentUser.email,
-        updatedAt: new Date(),
-      }, { merge: true });
+      });
       
       setUserName(name);
     } catch (error) {
@@ -205,11 +203,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (!currentUser) return;
     
     try {
-      await setDoc(doc(db, 'users', currentUser.uid), {
+      await getRepositories().userProfiles.save(currentUser.uid, {
         weeklyGoal: weekly,
         monthlyGoal: monthly,
-        updatedAt: new Date(),
-      }, { merge: true });
+      });
       
       setWeeklyGoal(weekly);
       setMonthlyGoal(monthly);
@@ -229,29 +226,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const credential = EmailAuthProvider.credential(currentUser.email, currentPassword);
       await reauthenticateWithCredential(currentUser, credential);
 
-      // Delete all user data from Firestore
-      const batch = writeBatch(db);
+      // Delete all user data
+      const { todos, expenses, contacts, categories, taskLists, userProfiles } = getRepositories();
       const userId = currentUser.uid;
-
-      // Delete user document
-      batch.delete(doc(db, 'users', userId));
-
-      // Delete all todos for this user
-      const todosQuery = query(collection(db, 'todos'), where('userId', '==', userId));
-      const todosSnapshot = await getDocs(todosQuery);
-      todosSnapshot.docs.forEach((doc) => {
-        batch.delete(doc.ref);
-      });
-
-      // Delete all expenses for this user
-      const expensesQuery = query(collection(db, 'expenses'), where('userId', '==', userId));
-      const expensesSnapshot = await getDocs(expensesQuery);
-      expensesSnapshot.docs.forEach((doc) => {
-        batch.delete(doc.ref);
-      });
-
-      // Commit all deletions
-      await batch.commit();
+      await todos.removeAllForUser(userId);
+      await expenses.removeAllForUser(userId);
+      await contacts.removeAllForUser(userId);
+      await categories.removeAllForUser(userId);
+      await taskLists.removeAllForUser(userId);
+      await userProfiles.remove(userId);
 
       // Clear saved credentials
       await AsyncStorage.multiRemove(['@auth_email', '@auth_password']);
@@ -0,0 +1,105 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getRepositories } from '../repositories';
+import { useAuth } from './AuthContext';
+import { ExchangeRateService, DatedAmount, ConvertedTotal } from '../services/ExchangeRateService';
+import { DEFAULT_CURRENCY } from '../services/MoneyService';
+import { CurrencyCode, ExchangeRate, Money } from '../types';
+
+interface CurrencyContextType {
+  homeCurrency: CurrencyCode;
+  setHomeCurrency: (currency: CurrencyCode) => Promise<void>;
+  rates: ExchangeRate[];
+  saveRate: (rate: ExchangeRate) => Promise<void>;
+  removeRate: (id: string) => Promise<void>;
+  toHome: (amount: Money, date: Date) => Money | null; // null when there's no rate
+  totalInHome: (amounts: DatedAmount[]) => ConvertedTotal;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within CurrencyProvider');
+  }
+  return context;
+}
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const [homeCurrency, setHomeCurrencyState] = useState<CurrencyCode>(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const { currentUser } = useAuth();
+
+  // Load the home currency from cache first, then the profile; rates only live on the device
+  useEffect(() => {
+    // Don't carry the previous account's currency over while this one loads
+    setHomeCurrencyState(DEFAULT_CURRENCY);
+    if (!currentUser) {
+      setRates([]);
+      return;
+    }
+
+    const loadCurrencySettings = async () => {
+      try {
+        const cachedCurrency = await AsyncStorage.getItem(`@home_currency_${currentUser.uid}`);
+        if (cachedCurrency) {
+          setHomeCurrencyState(cachedCurrency);
+        }
+        setRates(await ExchangeRateService.getRates(currentUser.uid));
+
+        try {
+          const data = await getRepositories().userProfiles.get(currentUser.uid);
+          if (data?.homeCurrency) {
+            setHomeCurrencyState(data.homeCurrency);
+            await AsyncStorage.setItem(`@home_currency_${currentUser.uid}`, data.homeCurrency);
+          }
+        } catch (firestoreError) {
+          console.log('Using cached home currency (offline)');
+        }
+      } catch (error) {
+        console.error('Error loading currency settings:', error);
+      }
+    };
+
+    loadCurrencySettings();
+  }, [currentUser]);
+
+  const setHomeCurrency = async (currency: CurrencyCode) => {
+    setHomeCurrencyState(currency);
+    if (currentUser) {
+      await AsyncStorage.setItem(`@home_currency_${currentUser.uid}`, currency);
+      await getRepositories().userProfiles.save(currentUser.uid, { homeCurrency: currency });
+    }
+  };
+
+  const saveRate = async (rate: ExchangeRate) => {
+    if (!currentUser) return;
+    setRates(await ExchangeRateService.saveRate(currentUser.uid, rate));
+  };
+
+  const removeRate = async (id: string) => {
+    if (!currentUser) return;
+    setRates(await ExchangeRateService.removeRate(currentUser.uid, id));
+  };
+
+  const toHome = (amount: Money, date: Date) => ExchangeRateService.convert(rates, amount, homeCurrency, date);
+
+  const totalInHome = (amounts: DatedAmount[]) => ExchangeRateService.total(rates, amounts, homeCurrency);
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        homeCurrency,
+        setHomeCurrency,
+        rates,
+        saveRate,
+        removeRate,
+        toHome,
+        totalInHome,
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
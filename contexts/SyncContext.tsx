@@ -0,0 +1,126 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { useAuth } from './AuthContext';
+import { useAccessibility } from './AccessibilityContext';
+import { useNotification } from './NotificationContext';
+import { SyncQueueService, SyncCollection, SyncConflict, PendingWrite } from '../services/SyncQueueService';
+
+const FIELD_LABELS: { [field: string]: string } = {
+  dueDate: 'due date',
+  startDate: 'start date',
+  totalAmount: 'amount',
+  settled: 'settled status',
+  completed: 'completion',
+  subtasks: 'checklist',
+  reminders: 'reminders',
+  reminderNotificationIds: 'reminders',
+  recurrence: 'repeat',
+  categoryId: 'category',
+  monthlyBudget: 'budget',
+  listId: 'list',
+  blockedBy: 'blocked by',
+};
+
+const ITEM_LABELS: { [collection in SyncCollection]: string } = {
+  todos: 'task',
+  expenses: 'expense',
+  contacts: 'contact',
+  categories: 'category',
+  taskLists: 'list',
+};
+
+interface SyncContextType {
+  pendingWrites: PendingWrite[];
+  isPending: (collection: SyncCollection, docId: string) => boolean;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+}
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const [pendingWrites, setPendingWrites] = useState<PendingWrite[]>([]);
+  const { currentUser } = useAuth();
+  const { isOnline } = useAccessibility();
+  const { showNotification } = useNotification();
+
+  // Keep the pending list in step with the persisted queue
+  useEffect(() => {
+    if (!currentUser) {
+      setPendingWrites([]);
+      return;
+    }
+
+    const userId = currentUser.uid;
+    SyncQueueService.getQueue().then(queue => {
+      setPendingWrites(queue.filter(write => write.userId === userId));
+    });
+
+    return SyncQueueService.subscribe(queue => {
+      setPendingWrites(queue.filter(write => write.userId === userId));
+    });
+  }, [currentUser]);
+
+  const flushQueue = useCallback(async (announce: boolean) => {
+    if (!currentUser) return;
+
+    const { synced, failed, conflicts } = await SyncQueueService.flush(currentUser.uid);
+    conflicts.forEach(showConflict);
+    if (failed > 0) {
+      showNotification(
+        'Sync Problem',
+        `${failed} change${failed === 1 ? '' : 's'} couldn't be saved and ${failed === 1 ? 'was' : 'were'} discarded`,
+        'error'
+      );
+    } else if (announce && synced > 0) {
+      showNotification('Synced', `${synced} offline change${synced === 1 ? '' : 's'} saved`, 'success', 2000);
+    }
+  }, [currentUser, showNotification]);
+
+  const showConflict = (conflict: SyncConflict) => {
+    const fields = [...new Set(conflict.fields.map(field => FIELD_LABELS[field] || field))];
+    const name = conflict.title ? `"${conflict.title}"` : `This ${ITEM_LABELS[conflict.collection]}`;
+    showNotification(
+      'Edit Conflict',
+      `${name} was also changed on another device. Kept the newest ${fields.join(', ')}.`,
+      'warning',
+      5000
+    );
+  };
+
+  // Replay queued writes whenever we (re)gain a connection
+  useEffect(() => {
+    if (isOnline && currentUser) {
+      flushQueue(true);
+    }
+  }, [isOnline, currentUser]);
+
+  // Send new changes straight away while online
+  useEffect(() => {
+    if (pendingWrites.length === 0) return;
+    if (isOnline) {
+      flushQueue(false);
+    } else {
+      console.log(`📴 Offline - ${pendingWrites.length} change${pendingWrites.length === 1 ? '' : 's'} queued for sync`);
+    }
+  }, [pendingWrites.length]);
+
+  const isPending = (collection: SyncCollection, docId: string) =>
+    pendingWrites.some(write => write.collection === collection && write.docId === docId);
+
+  const value = {
+    pendingWrites,
+    isPending,
+  };
+
+  return (
+    <SyncContext.Provider value={value}>
+      {children}
+    </SyncContext.Provider>
+  );
+}
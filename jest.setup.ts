@@ -0,0 +1,6 @@
+// Tests run against the in-memory repositories (see setRepositories), so no Firebase app is started
+jest.mock('./firebaseConfig', () => ({ app: {}, auth: {}, db: {} }));
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
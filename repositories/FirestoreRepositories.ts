@@ -0,0 +1,177 @@
+import {
+  collection,
+  query,
+  where,
+  onSnapshot,
+  getDocs,
+  getDoc,
+  setDoc,
+  deleteDoc,
+  doc,
+  writeBatch,
+} from 'firebase/firestore';
+import { auth, db } from '../firebaseConfig';
+import { SyncQueueService, SyncCollection, PendingWrite, RawDoc, EditedItem } from '../services/SyncQueueService';
+import { SCHEMA_VERSIONS } from '../services/MigrationService';
+import { Todo, Expense, Contact, Category, TaskList, UserProfile } from '../types';
+import { DecodeError, decodeTodo, decodeExpense, decodeContact, decodeCategory, decodeTaskList } from './decoders';
+import {
+  Changes,
+  EntityRepository,
+  InvalidDocument,
+  Repositories,
+  UserProfileRepository,
+  Unsubscribe,
+} from './types';
+
+// Firestore-backed storage. Writes go through the offline queue (SyncQueueService) and reads
+// include queued changes, so the app behaves the same online and offline.
+export class FirestoreEntityRepository<T extends { id: string; userId: string }> implements EntityRepository<T> {
+  constructor(
+    private collectionName: SyncCollection,
+    private decode: (doc: RawDoc) => T
+  ) {}
+
+  createId(): string {
+    return SyncQueueService.createDocId(this.collectionName);
+  }
+
+  subscribe(
+    userId: string,
+    onChange: (items: T[], invalid: InvalidDocument[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    let docs: RawDoc[] | null = null;
+    let pending: PendingWrite[] = [];
+
+    const emit = () => {
+      // Wait for the first snapshot so we never report an empty list while loading
+      if (docs) {
+        const { items, invalid } = this.withPendingWrites(pending, docs);
+        onChange(items, invalid);
+      }
+    };
+
+    SyncQueueService.getQueue().then(queue => {
+      pending = queue.filter(write => write.userId === userId);
+      emit();
+    });
+    const unsubscribeQueue = SyncQueueService.subscribe(queue => {
+      pending = queue.filter(write => write.userId === userId);
+      emit();
+    });
+
+    const unsubscribeSnapshot = onSnapshot(this.userQuery(userId),
+      (snapshot) => {
+        docs = snapshot.docs.map(docSnapshot => ({ id: docSnapshot.id, data: docSnapshot.data() }));
+        emit();
+      },
+      (error) => {
+        console.error(`Firestore ${this.collectionName} query error:`, error);
+        onError?.(error);
+      }
+    );
+
+    return () => {
+      unsubscribeSnapshot();
+      unsubscribeQueue();
+    };
+  }
+
+  async list(userId: string): Promise<T[]> {
+    const snapshot = await getDocs(this.userQuery(userId));
+    const docs = snapshot.docs.map(docSnapshot => ({ id: docSnapshot.id, data: docSnapshot.data() }));
+    const queue = await SyncQueueService.getQueue();
+    return this.withPendingWrites(queue.filter(write => write.userId === userId), docs).items;
+  }
+
+  async add(item: Changes<Omit<T, 'id'>>, id?: string): Promise<string> {
+    const docId = id || this.createId();
+    const userId = (item as { userId?: string }).userId || this.requireUserId();
+    await SyncQueueService.queueSet(userId, this.collectionName, docId, {
+      ...item,
+      schemaVersion: SCHEMA_VERSIONS[this.collectionName],
+    });
+    return docId;
+  }
+
+  async update(id: string, changes: Changes<Omit<T, 'id'>>, current?: T): Promise<void> {
+    await SyncQueueService.queueUpdate(current?.userId || this.requireUserId(), this.collectionName, id, changes, current as EditedItem | undefined);
+  }
+
+  async remove(id: string): Promise<void> {
+    await SyncQueueService.queueDelete(this.requireUserId(), this.collectionName, id);
+  }
+
+  // Deletes immediately rather than through the queue (used when deleting an account)
+  async removeAllForUser(userId: string): Promise<void> {
+    const snapshot = await getDocs(this.userQuery(userId));
+    const batch = writeBatch(db);
+    snapshot.docs.forEach((docSnapshot) => {
+      batch.delete(docSnapshot.ref);
+    });
+    await batch.commit();
+    await SyncQueueService.discard(userId, this.collectionName);
+  }
+
+  private userQuery(userId: string) {
+    return query(collection(db, this.collectionName), where('userId', '==', userId));
+  }
+
+  // Decode documents with queued changes applied, setting aside any that fail validation
+  private withPendingWrites(pending: PendingWrite[], docs: RawDoc[]): { items: T[]; invalid: InvalidDocument[] } {
+    const items: T[] = [];
+    const invalid: InvalidDocument[] = [];
+
+    SyncQueueService.applyPendingWrites(pending, this.collectionName, docs).forEach((rawDoc) => {
+      try {
+        items.push(this.decode(rawDoc));
+      } catch (error) {
+        if (!(error instanceof DecodeError)) throw error;
+        console.warn(`⚠️ Invalid ${this.collectionName} document ${rawDoc.id} - ${error.message}`);
+        invalid.push({
+          id: rawDoc.id,
+          title: typeof rawDoc.data?.title === 'string' ? rawDoc.data.title : undefined,
+          field: error.field,
+          reason: error.reason,
+        });
+      }
+    });
+
+    return { items, invalid };
+  }
+
+  private requireUserId(): string {
+    const userId = auth.currentUser?.uid;
+    if (!userId) {
+      throw new Error('No authenticated user');
+    }
+    return userId;
+  }
+}
+
+export class FirestoreUserProfileRepository implements UserProfileRepository {
+  async get(userId: string): Promise<UserProfile | null> {
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    return userDoc.exists() ? (userDoc.data() as UserProfile) : null;
+  }
+
+  async save(userId: string, changes: UserProfile): Promise<void> {
+    await setDoc(doc(db, 'users', userId), { ...changes, updatedAt: new Date() }, { merge: true });
+  }
+
+  async remove(userId: string): Promise<void> {
+    await deleteDoc(doc(db, 'users', userId));
+  }
+}
+
+export function createFirestoreRepositories(): Repositories {
+  return {
+    todos: new FirestoreEntityRepository<Todo>('todos', decodeTodo),
+    expenses: new FirestoreEntityRepository<Expense>('expenses', decodeExpense),
+    contacts: new FirestoreEntityRepository<Contact>('contacts', decodeContact),
+    categories: new FirestoreEntityRepository<Category>('categories', decodeCategory),
+    taskLists: new FirestoreEntityRepository<TaskList>('taskLists', decodeTaskList),
+    userProfiles: new FirestoreUserProfileRepository(),
+  };
+}
@@ -0,0 +1,114 @@
+import { Todo, Expense, Contact, Category, TaskList, UserProfile } from '../types';
+import {
+  Changes,
+  EntityRepository,
+  InvalidDocument,
+  Repositories,
+  UserProfileRepository,
+  Unsubscribe,
+} from './types';
+
+type Listener<T> = { userId: string; onChange: (items: T[], invalid: InvalidDocument[]) => void };
+
+// Keeps items in memory; for tests and for running screens without a backend
+export class InMemoryEntityRepository<T extends { id: string; userId: string }> implements EntityRepository<T> {
+  private items = new Map<string, T>();
+  private listeners: Listener<T>[] = [];
+  private nextId = 1;
+
+  constructor(initialItems: T[] = []) {
+    initialItems.forEach(item => this.items.set(item.id, item));
+  }
+
+  createId(): string {
+    return `local-${this.nextId++}`;
+  }
+
+  subscribe(userId: string, onChange: (items: T[], invalid: InvalidDocument[]) => void): Unsubscribe {
+    const listener = { userId, onChange };
+    this.listeners.push(listener);
+    // Items are typed when added, so nothing here ever needs repair
+    onChange(this.itemsFor(userId), []);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  async list(userId: string): Promise<T[]> {
+    return this.itemsFor(userId);
+  }
+
+  async add(item: Changes<Omit<T, 'id'>>, id?: string): Promise<string> {
+    const itemId = id || this.createId();
+    this.items.set(itemId, this.applyChanges({ id: itemId } as T, item));
+    this.notify();
+    return itemId;
+  }
+
+  async update(id: string, changes: Changes<Omit<T, 'id'>>): Promise<void> {
+    const existing = this.items.get(id);
+    if (!existing) {
+      throw new Error(`No item with id ${id}`);
+    }
+    this.items.set(id, this.applyChanges(existing, changes));
+    this.notify();
+  }
+
+  async remove(id: string): Promise<void> {
+    this.items.delete(id);
+    this.notify();
+  }
+
+  async removeAllForUser(userId: string): Promise<void> {
+    this.itemsFor(userId).forEach(item => this.items.delete(item.id));
+    this.notify();
+  }
+
+  private itemsFor(userId: string): T[] {
+    return [...this.items.values()].filter(item => item.userId === userId);
+  }
+
+  // null clears a field, like deleting it from a stored document
+  private applyChanges(item: T, changes: Changes<Omit<T, 'id'>>): T {
+    const updated: any = { ...item };
+    Object.entries(changes).forEach(([field, value]) => {
+      if (value === null) {
+        delete updated[field];
+      } else if (value !== undefined) {
+        updated[field] = value;
+      }
+    });
+    return updated;
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener.onChange(this.itemsFor(listener.userId), []));
+  }
+}
+
+export class InMemoryUserProfileRepository implements UserProfileRepository {
+  private profiles = new Map<string, UserProfile>();
+
+  async get(userId: string): Promise<UserProfile | null> {
+    return this.profiles.get(userId) || null;
+  }
+
+  async save(userId: string, changes: UserProfile): Promise<void> {
+    this.profiles.set(userId, { ...this.profiles.get(userId), ...changes });
+  }
+
+  async remove(userId: string): Promise<void> {
+    this.profiles.delete(userId);
+  }
+}
+
+export function createInMemoryRepositories(initial: { todos?: Todo[]; expenses?: Expense[]; contacts?: Contact[]; categories?: Category[]; taskLists?: TaskList[] } = {}): Repositories {
+  return {
+    todos: new InMemoryEntityRepository<Todo>(initial.todos),
+    expenses: new InMemoryEntityRepository<Expense>(initial.expenses),
+    contacts: new InMemoryEntityRepository<Contact>(initial.contacts),
+    categories: new InMemoryEntityRepository<Category>(initial.categories),
+    taskLists: new InMemoryEntityRepository<TaskList>(initial.taskLists),
+    userProfiles: new InMemoryUserProfileRepository(),
+  };
+}
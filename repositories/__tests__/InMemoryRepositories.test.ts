@@ -0,0 +1,85 @@
+import { createInMemoryRepositories, InMemoryEntityRepository } from '../InMemoryRepositories';
+import { Contact } from '../../types';
+
+const contact = (id: string, name: string, userId = 'user-1'): Contact =>
+  ({ id, name, createdAt: new Date(0), updatedAt: new Date(0), userId });
+
+const fields = ({ id, ...rest }: Contact) => rest;
+
+describe('InMemoryEntityRepository', () => {
+  it('lists only the given user\'s items', async () => {
+    const repository = new InMemoryEntityRepository<Contact>([contact('1', 'Sam'), contact('2', 'Alex', 'user-2')]);
+    expect(await repository.list('user-1')).toEqual([contact('1', 'Sam')]);
+  });
+
+  it('adds items with a generated or given id', async () => {
+    const repository = new InMemoryEntityRepository<Contact>();
+    const generated = await repository.add(fields(contact('', 'Sam')));
+    const given = await repository.add(fields(contact('', 'Alex')), 'alex');
+
+    expect(given).toBe('alex');
+    expect(generated).not.toBe(given);
+    expect((await repository.list('user-1')).map(item => [item.id, item.name])).toEqual([[generated, 'Sam'], ['alex', 'Alex']]);
+  });
+
+  it('updates fields, clearing those set to null', async () => {
+    const repository = new InMemoryEntityRepository<Contact>([{ ...contact('1', 'Sam'), email: 'sam@example.com' }]);
+    await repository.update('1', { name: 'Samantha', email: null, updatedAt: undefined });
+
+    const [updated] = await repository.list('user-1');
+    expect(updated).toEqual(contact('1', 'Samantha'));
+    expect('email' in updated).toBe(false);
+  });
+
+  it('rejects updates to missing items', async () => {
+    const repository = new InMemoryEntityRepository<Contact>();
+    await expect(repository.update('missing', { name: 'Sam' })).rejects.toThrow('No item with id missing');
+  });
+
+  it('removes one item or everything for a user', async () => {
+    const repository = new InMemoryEntityRepository<Contact>([contact('1', 'Sam'), contact('2', 'Alex'), contact('3', 'Kim', 'user-2')]);
+    await repository.remove('1');
+    expect((await repository.list('user-1')).map(item => item.id)).toEqual(['2']);
+
+    await repository.removeAllForUser('user-1');
+    expect(await repository.list('user-1')).toEqual([]);
+    expect(await repository.list('user-2')).toHaveLength(1);
+  });
+
+  it('notifies subscribers right away and on every change until they unsubscribe', async () => {
+    const repository = new InMemoryEntityRepository<Contact>([contact('1', 'Sam')]);
+    const onChange = jest.fn();
+    const unsubscribe = repository.subscribe('user-1', onChange);
+    expect(onChange).toHaveBeenLastCalledWith([contact('1', 'Sam')], []);
+
+    await repository.add(fields(contact('', 'Alex')), '2');
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange.mock.calls[1][0].map((item: Contact) => item.id)).toEqual(['1', '2']);
+
+    unsubscribe();
+    await repository.remove('1');
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('InMemoryUserProfileRepository', () => {
+  it('merges saved fields into the profile', async () => {
+    const { userProfiles } = createInMemoryRepositories();
+    expect(await userProfiles.get('user-1')).toBeNull();
+
+    await userProfiles.save('user-1', { name: 'Sam', weeklyGoal: 5 });
+    await userProfiles.save('user-1', { weeklyGoal: 10 });
+    expect(await userProfiles.get('user-1')).toEqual({ name: 'Sam', weeklyGoal: 10 });
+
+    await userProfiles.remove('user-1');
+    expect(await userProfiles.get('user-1')).toBeNull();
+  });
+});
+
+describe('createInMemoryRepositories', () => {
+  it('starts each repository with the given items', async () => {
+    const repositories = createInMemoryRepositories({ contacts: [contact('1', 'Sam')] });
+    expect(await repositories.contacts.list('user-1')).toEqual([contact('1', 'Sam')]);
+    expect(await repositories.todos.list('user-1')).toEqual([]);
+  });
+});
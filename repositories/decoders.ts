@@ -0,0 +1,395 @@
+import { Timestamp } from 'firebase/firestore';
+import {
+  Todo,
+  Subtask,
+  Expense,
+  Contact,
+  Category,
+  TaskList,
+  Priority,
+  Person,
+  Payment,
+  PaymentMethod,
+  TaskReminder,
+  RecurrenceRule,
+  RecurrenceFrequency,
+  ExpenseRecurrence,
+  FieldTimestamps,
+  Money,
+  ExpenseSplit,
+  LineItem,
+  SplitMode,
+} from '../types';
+import { RawDoc } from '../services/SyncQueueService';
+import { MoneyService, DEFAULT_CURRENCY } from '../services/MoneyService';
+import { PriorityService, PRIORITY_LEVELS } from '../services/PriorityService';
+import { OrderService } from '../services/OrderService';
+import { DEFAULT_CATEGORY_ICON } from '../services/CategoryService';
+import { DEFAULT_TASK_LIST_ICON, TASK_LIST_COLORS } from '../services/TaskListService';
+
+// A stored document that didn't match the expected shape; `field` is the path of the bad value
+export class DecodeError extends Error {
+  constructor(public field: string, public reason: string) {
+    super(`${field}: ${reason}`);
+    this.name = 'DecodeError';
+  }
+}
+
+const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekdays', 'weekly', 'monthly', 'yearly'];
+const SPLIT_MODES: SplitMode[] = ['equal', 'exact', 'percentage', 'shares', 'itemized'];
+const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card', 'transfer', 'other'];
+const MONTHLY_MODES: NonNullable<RecurrenceRule['monthlyMode']>[] = ['dayOfMonth', 'weekdayOfMonth'];
+
+const isMissing = (value: unknown): value is null | undefined => value === null || value === undefined;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+};
+
+const requiredString = (value: unknown, field: string): string => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  throw new DecodeError(field, isMissing(value) ? 'is missing' : `expected text, got ${describe(value)}`);
+};
+
+const optionalString = (value: unknown, field: string): string | undefined =>
+  isMissing(value) ? undefined : requiredString(value, field);
+
+const requiredNumber = (value: unknown, field: string): number => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  throw new DecodeError(field, isMissing(value) ? 'is missing' : `expected a number, got ${describe(value)}`);
+};
+
+const optionalNumber = (value: unknown, field: string): number | undefined =>
+  isMissing(value) ? undefined : requiredNumber(value, field);
+
+// A whole number from `min` to `max`, or one of `extra` (e.g. -1 for "last")
+const integerInRange = (value: unknown, field: string, min: number, max: number, extra: number[] = []): number => {
+  const number = requiredNumber(value, field);
+  if (!Number.isInteger(number) || ((number < min || number > max) && !extra.includes(number))) {
+    throw new DecodeError(field, `expected a whole number from ${min} to ${max}, got ${describe(value)}`);
+  }
+  return number;
+};
+
+const boolean = (value: unknown, field: string, fallback: boolean = false): boolean => {
+  if (isMissing(value)) return fallback;
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 1) return true;
+  if (value === 'false' || value === 0) return false;
+  throw new DecodeError(field, `expected true/false, got ${describe(value)}`);
+};
+
+// Accepts a priority level, or true/false from documents not yet migrated
+const priority = (value: unknown, field: string): Priority => {
+  if (isMissing(value)) return 'none';
+  if (typeof value === 'string' && PRIORITY_LEVELS.includes(value as Priority)) return value as Priority;
+  return PriorityService.fromLegacy(boolean(value, field));
+};
+
+// Accepts Firestore Timestamps, Dates, ISO strings and epoch milliseconds
+const requiredDate = (value: unknown, field: string): Date => {
+  if (isMissing(value)) {
+    throw new DecodeError(field, 'is missing');
+  }
+  let date: Date | null = null;
+  if (value instanceof Date) {
+    date = value;
+  } else if (value instanceof Timestamp) {
+    date = value.toDate();
+  } else if (typeof value === 'string' || typeof value === 'number') {
+    date = new Date(value);
+  }
+  if (!date || isNaN(date.getTime())) {
+    throw new DecodeError(field, `expected a date, got ${describe(value)}`);
+  }
+  return date;
+};
+
+const optionalDate = (value: unknown, field: string): Date | undefined =>
+  isMissing(value) ? undefined : requiredDate(value, field);
+
+const list = <T>(value: unknown, field: string, decodeItem: (item: any, field: string) => T): T[] => {
+  if (isMissing(value)) return [];
+  if (!Array.isArray(value)) {
+    throw new DecodeError(field, `expected a list, got ${describe(value)}`);
+  }
+  return value.map((item, index) => decodeItem(item, `${field}[${index}]`));
+};
+
+const object = (value: unknown, field: string): { [key: string]: any } => {
+  if (value && typeof value === 'object' && !Array.isArray(value)) return value;
+  throw new DecodeError(field, isMissing(value) ? 'is missing' : `expected an object, got ${describe(value)}`);
+};
+
+// Accepts { minorUnits, currency } and legacy decimal amounts (numbers or text, in the default currency)
+const money = (value: unknown, field: string, currency: string = DEFAULT_CURRENCY): Money => {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const raw = value as { [key: string]: any };
+    const minorUnits = requiredNumber(raw.minorUnits, `${field}.minorUnits`);
+    if (!Number.isInteger(minorUnits)) {
+      throw new DecodeError(`${field}.minorUnits`, `expected whole minor units, got ${describe(raw.minorUnits)}`);
+    }
+    const code = requiredString(raw.currency, `${field}.currency`);
+    if (!/^[A-Z]{3}$/.test(code)) {
+      throw new DecodeError(`${field}.currency`, `expected a currency code, got ${describe(code)}`);
+    }
+    return MoneyService.fromMinor(minorUnits, code);
+  }
+  if (value === '') return MoneyService.zero(currency);
+  return MoneyService.fromDecimal(requiredNumber(value, field), currency);
+};
+
+const fieldTimestamps = (value: unknown, field: string): FieldTimestamps => {
+  if (isMissing(value)) return {};
+  const raw = object(value, field);
+  const stamps: FieldTimestamps = {};
+  Object.keys(raw).forEach(key => {
+    stamps[key] = requiredNumber(raw[key], `${field}.${key}`);
+  });
+  return stamps;
+};
+
+export const decodeSubtask = (value: unknown, field: string = 'subtask'): Subtask => {
+  const raw = object(value, field);
+  const subtask: Subtask = {
+    id: requiredString(raw.id, `${field}.id`),
+    text: requiredString(raw.text, `${field}.text`),
+    completed: boolean(raw.completed, `${field}.completed`),
+  };
+  const order = optionalNumber(raw.order, `${field}.order`);
+  if (order !== undefined) subtask.order = order;
+  const modifiedAt = optionalNumber(raw.modifiedAt, `${field}.modifiedAt`);
+  if (modifiedAt !== undefined) subtask.modifiedAt = modifiedAt;
+  return subtask;
+};
+
+const decodePayment = (value: unknown, field: string, currency: string): Payment => {
+  const raw = object(value, field);
+  if (!PAYMENT_METHODS.includes(raw.method)) {
+    throw new DecodeError(`${field}.method`, `expected one of ${PAYMENT_METHODS.join(', ')}, got ${describe(raw.method)}`);
+  }
+  return {
+    id: requiredString(raw.id, `${field}.id`),
+    amount: money(raw.amount, `${field}.amount`, currency),
+    paidAt: requiredDate(raw.paidAt, `${field}.paidAt`),
+    method: raw.method,
+    note: optionalString(raw.note, `${field}.note`),
+    fromSettledToggle: boolean(raw.fromSettledToggle, `${field}.fromSettledToggle`) || undefined,
+  };
+};
+
+// `currency` is used for legacy amounts saved without one
+export const decodePerson = (value: unknown, field: string = 'person', currency: string = DEFAULT_CURRENCY): Person => {
+  const raw = object(value, field);
+  return {
+    id: requiredString(raw.id, `${field}.id`),
+    name: requiredString(raw.name, `${field}.name`),
+    isSelf: boolean(raw.isSelf, `${field}.isSelf`) || undefined,
+    contactId: optionalString(raw.contactId, `${field}.contactId`),
+    amount: isMissing(raw.amount) ? MoneyService.zero(currency) : money(raw.amount, `${field}.amount`, currency),
+    payments: isMissing(raw.payments)
+      ? []
+      : list(raw.payments, `${field}.payments`, (item, itemField) => decodePayment(item, itemField, currency)),
+    paid: boolean(raw.paid, `${field}.paid`),
+  };
+};
+
+const decodeReminder = (value: unknown, field: string): TaskReminder => {
+  const raw = object(value, field);
+  if (raw.type === 'at') {
+    return { type: 'at', date: requiredDate(raw.date, `${field}.date`) };
+  }
+  if (raw.type === 'before') {
+    return { type: 'before', minutes: requiredNumber(raw.minutes, `${field}.minutes`) };
+  }
+  throw new DecodeError(`${field}.type`, `expected "before" or "at", got ${describe(raw.type)}`);
+};
+
+const decodeRecurrenceRule = (value: unknown, field: string): RecurrenceRule => {
+  const raw = object(value, field);
+  if (!RECURRENCE_FREQUENCIES.includes(raw.frequency)) {
+    throw new DecodeError(`${field}.frequency`, `expected one of ${RECURRENCE_FREQUENCIES.join(', ')}, got ${describe(raw.frequency)}`);
+  }
+  const rule: RecurrenceRule = {
+    frequency: raw.frequency,
+    interval: Math.max(1, optionalNumber(raw.interval, `${field}.interval`) ?? 1),
+  };
+  const weekday = (item: unknown, itemField: string) => integerInRange(item, itemField, 0, 6);
+  if (!isMissing(raw.daysOfWeek)) {
+    rule.daysOfWeek = list(raw.daysOfWeek, `${field}.daysOfWeek`, weekday);
+  }
+  if (!isMissing(raw.monthlyMode)) {
+    if (!MONTHLY_MODES.includes(raw.monthlyMode)) {
+      throw new DecodeError(`${field}.monthlyMode`, `expected one of ${MONTHLY_MODES.join(', ')}, got ${describe(raw.monthlyMode)}`);
+    }
+    rule.monthlyMode = raw.monthlyMode;
+  }
+  if (!isMissing(raw.dayOfMonth)) {
+    rule.dayOfMonth = integerInRange(raw.dayOfMonth, `${field}.dayOfMonth`, 1, 31);
+  }
+  if (!isMissing(raw.weekday)) {
+    rule.weekday = weekday(raw.weekday, `${field}.weekday`);
+  }
+  if (!isMissing(raw.weekOfMonth)) {
+    rule.weekOfMonth = integerInRange(raw.weekOfMonth, `${field}.weekOfMonth`, 1, 4, [-1]);
+  }
+  return rule;
+};
+
+const decodeExpenseRecurrence = (value: unknown, field: string): ExpenseRecurrence | undefined => {
+  if (isMissing(value)) return undefined;
+  const raw = object(value, field);
+  return {
+    rule: decodeRecurrenceRule(raw.rule, `${field}.rule`),
+    endDate: optionalDate(raw.endDate, `${field}.endDate`) ?? null,
+    nextOccurrence: requiredDate(raw.nextOccurrence, `${field}.nextOccurrence`),
+  };
+};
+
+const decodeLineItem = (value: unknown, field: string, currency: string): LineItem => {
+  const raw = object(value, field);
+  return {
+    id: requiredString(raw.id, `${field}.id`),
+    description: optionalString(raw.description, `${field}.description`) ?? '',
+    amount: money(raw.amount, `${field}.amount`, currency),
+    personIds: list(raw.personIds, `${field}.personIds`, requiredString),
+  };
+};
+
+const decodeSplit = (value: unknown, field: string, currency: string): ExpenseSplit | undefined => {
+  if (isMissing(value)) return undefined;
+  const raw = object(value, field);
+  if (!SPLIT_MODES.includes(raw.mode)) {
+    throw new DecodeError(`${field}.mode`, `expected one of ${SPLIT_MODES.join(', ')}, got ${describe(raw.mode)}`);
+  }
+  const split: ExpenseSplit = { mode: raw.mode };
+  if (!isMissing(raw.weights)) {
+    const weights = object(raw.weights, `${field}.weights`);
+    split.weights = {};
+    Object.keys(weights).forEach(personId => {
+      split.weights![personId] = requiredNumber(weights[personId], `${field}.weights.${personId}`);
+    });
+  }
+  if (!isMissing(raw.items)) {
+    split.items = list(raw.items, `${field}.items`, (item, itemField) => decodeLineItem(item, itemField, currency));
+  }
+  if (!isMissing(raw.tax)) split.tax = money(raw.tax, `${field}.tax`, currency);
+  if (!isMissing(raw.tip)) split.tip = money(raw.tip, `${field}.tip`, currency);
+  return split;
+};
+
+// Validate and coerce a todo document; throws a DecodeError naming the first bad field
+export const decodeTodo = ({ id, data }: RawDoc): Todo => {
+  const raw = object(data, 'document');
+  const createdAt = requiredDate(raw.createdAt, 'createdAt');
+  const reminderNotificationIds = isMissing(raw.reminderNotificationIds)
+    ? (raw.reminderNotificationId ? [requiredString(raw.reminderNotificationId, 'reminderNotificationId')] : [])
+    : list(raw.reminderNotificationIds, 'reminderNotificationIds', requiredString);
+
+  return {
+    id,
+    title: requiredString(raw.title, 'title'),
+    description: optionalString(raw.description, 'description'),
+    completed: boolean(raw.completed, 'completed'),
+    priority: priority(raw.priority, 'priority'),
+    dueDate: optionalDate(raw.dueDate, 'dueDate'),
+    startDate: optionalDate(raw.startDate, 'startDate'),
+    subtasks: OrderService.sortSubtasks(list(raw.subtasks, 'subtasks', decodeSubtask)),
+    reminders: isMissing(raw.reminders) ? undefined : list(raw.reminders, 'reminders', decodeReminder),
+    reminderNotificationIds,
+    recurrence: isMissing(raw.recurrence) ? undefined : decodeRecurrenceRule(raw.recurrence, 'recurrence'),
+    order: optionalNumber(raw.order, 'order') ?? createdAt.getTime(),
+    listId: optionalString(raw.listId, 'listId'),
+    tags: isMissing(raw.tags) ? undefined : list(raw.tags, 'tags', requiredString),
+    blockedBy: isMissing(raw.blockedBy) ? undefined : list(raw.blockedBy, 'blockedBy', requiredString),
+    completedAt: optionalDate(raw.completedAt, 'completedAt'),
+    lastCompletedAt: optionalDate(raw.lastCompletedAt, 'lastCompletedAt'),
+    fieldModifiedAt: fieldTimestamps(raw.fieldModifiedAt, 'fieldModifiedAt'),
+    createdAt,
+    updatedAt: optionalDate(raw.updatedAt, 'updatedAt') ?? createdAt,
+    userId: requiredString(raw.userId, 'userId'),
+  };
+};
+
+// Validate and coerce an expense document; throws a DecodeError naming the first bad field
+export const decodeExpense = ({ id, data }: RawDoc): Expense => {
+  const raw = object(data, 'document');
+  const createdAt = requiredDate(raw.createdAt, 'createdAt');
+  const totalAmount = money(raw.totalAmount, 'totalAmount');
+
+  return {
+    id,
+    title: requiredString(raw.title, 'title'),
+    totalAmount,
+    people: list(raw.people, 'people', (item, field) => decodePerson(item, field, totalAmount.currency)),
+    paidBy: optionalString(raw.paidBy, 'paidBy'),
+    categoryId: optionalString(raw.categoryId, 'categoryId'),
+    spentOn: optionalDate(raw.spentOn, 'spentOn') ?? createdAt,
+    split: decodeSplit(raw.split, 'split', totalAmount.currency),
+    dueDate: optionalDate(raw.dueDate, 'dueDate'),
+    description: optionalString(raw.description, 'description') ?? '',
+    priority: priority(raw.priority, 'priority'),
+    settled: boolean(raw.settled, 'settled'),
+    settledAt: optionalDate(raw.settledAt, 'settledAt'),
+    recurrence: decodeExpenseRecurrence(raw.recurrence, 'recurrence'),
+    recurringSourceId: optionalString(raw.recurringSourceId, 'recurringSourceId'),
+    fieldModifiedAt: fieldTimestamps(raw.fieldModifiedAt, 'fieldModifiedAt'),
+    createdAt,
+    updatedAt: optionalDate(raw.updatedAt, 'updatedAt') ?? createdAt,
+    userId: requiredString(raw.userId, 'userId'),
+  };
+};
+
+// Validate and coerce a contact document; throws a DecodeError naming the first bad field
+export const decodeContact = ({ id, data }: RawDoc): Contact => {
+  const raw = object(data, 'document');
+  const createdAt = requiredDate(raw.createdAt, 'createdAt');
+
+  return {
+    id,
+    name: requiredString(raw.name, 'name'),
+    email: optionalString(raw.email, 'email'),
+    fieldModifiedAt: fieldTimestamps(raw.fieldModifiedAt, 'fieldModifiedAt'),
+    createdAt,
+    updatedAt: optionalDate(raw.updatedAt, 'updatedAt') ?? createdAt,
+    userId: requiredString(raw.userId, 'userId'),
+  };
+};
+
+// Validate and coerce a category document; throws a DecodeError naming the first bad field
+export const decodeCategory = ({ id, data }: RawDoc): Category => {
+  const raw = object(data, 'document');
+  const createdAt = requiredDate(raw.createdAt, 'createdAt');
+
+  return {
+    id,
+    name: requiredString(raw.name, 'name'),
+    icon: optionalString(raw.icon, 'icon') || DEFAULT_CATEGORY_ICON,
+    monthlyBudget: isMissing(raw.monthlyBudget) ? undefined : money(raw.monthlyBudget, 'monthlyBudget'),
+    fieldModifiedAt: fieldTimestamps(raw.fieldModifiedAt, 'fieldModifiedAt'),
+    createdAt,
+    updatedAt: optionalDate(raw.updatedAt, 'updatedAt') ?? createdAt,
+    userId: requiredString(raw.userId, 'userId'),
+  };
+};
+
+// Validate and coerce a task list document; throws a DecodeError naming the first bad field
+export const decodeTaskList = ({ id, data }: RawDoc): TaskList => {
+  const raw = object(data, 'document');
+  const createdAt = requiredDate(raw.createdAt, 'createdAt');
+
+  return {
+    id,
+    name: requiredString(raw.name, 'name'),
+    icon: optionalString(raw.icon, 'icon') || DEFAULT_TASK_LIST_ICON,
+    color: optionalString(raw.color, 'color') || TASK_LIST_COLORS[0],
+    fieldModifiedAt: fieldTimestamps(raw.fieldModifiedAt, 'fieldModifiedAt'),
+    createdAt,
+    updatedAt: optionalDate(raw.updatedAt, 'updatedAt') ?? createdAt,
+    userId: requiredString(raw.userId, 'userId'),
+  };
+};
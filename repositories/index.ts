@@ -0,0 +1,22 @@
+import { createFirestoreRepositories } from './FirestoreRepositories';
+import { Repositories } from './types';
+
+export * from './types';
+export { createFirestoreRepositories } from './FirestoreRepositories';
+export { createInMemoryRepositories } from './InMemoryRepositories';
+export { DecodeError, decodeTodo, decodeExpense, decodeContact, decodeCategory, decodeTaskList, decodeSubtask, decodePerson } from './decoders';
+
+let repositories: Repositories | null = null;
+
+// The storage backend used across the app (Firestore unless replaced)
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    repositories = createFirestoreRepositories();
+  }
+  return repositories;
+}
+
+// Swap the storage backend, e.g. createInMemoryRepositories() in tests
+export function setRepositories(next: Repositories) {
+  repositories = next;
+}
@@ -0,0 +1,60 @@
+import { Todo, Expense, Contact, Category, TaskList, UserProfile } from '../types';
+
+// Fields to write; null clears an optional field
+export type Changes<T> = { [K in keyof T]?: T[K] | null };
+
+export type Unsubscribe = () => void;
+
+// A stored document that failed validation and is kept out of the app until it is repaired
+export interface InvalidDocument {
+  id: string;
+  title?: string; // If the document has a readable title
+  field: string; // Path of the bad value, e.g. "createdAt" or "subtasks[2].text"
+  reason: string;
+}
+
+// Storage for a user's documents of one kind (todos, expenses, contacts, categories, task lists)
+export interface EntityRepository<T extends { id: string; userId: string }> {
+  // Generate an id for a new item so it can be referenced before it is saved
+  createId(): string;
+  // Listen to all of a user's items; called again whenever they change. Documents that fail
+  // validation are passed separately as `invalid`
+  subscribe(
+    userId: string,
+    onChange: (items: T[], invalid: InvalidDocument[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  // Valid items only
+  list(userId: string): Promise<T[]>;
+  add(item: Changes<Omit<T, 'id'>>, id?: string): Promise<string>;
+  // `current` is the item as it was shown when the change was made, so unchanged fields can be skipped
+  update(id: string, changes: Changes<Omit<T, 'id'>>, current?: T): Promise<void>;
+  remove(id: string): Promise<void>;
+  removeAllForUser(userId: string): Promise<void>;
+}
+
+export interface TodoRepository extends EntityRepository<Todo> {}
+
+export interface ExpenseRepository extends EntityRepository<Expense> {}
+
+export interface ContactRepository extends EntityRepository<Contact> {}
+
+export interface CategoryRepository extends EntityRepository<Category> {}
+
+export interface TaskListRepository extends EntityRepository<TaskList> {}
+
+export interface UserProfileRepository {
+  get(userId: string): Promise<UserProfile | null>;
+  // Merge the given fields into the profile, creating it if needed
+  save(userId: string, changes: UserProfile): Promise<void>;
+  remove(userId: string): Promise<void>;
+}
+
+export interface Repositories {
+  todos: TodoRepository;
+  expenses: ExpenseRepository;
+  contacts: ContactRepository;
+  categories: CategoryRepository;
+  taskLists: TaskListRepository;
+  userProfiles: UserProfileRepository;
+}
@@ -0,0 +1,388 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotification } from '../contexts/NotificationContext';
+import { useAccessibility } from '../contexts/AccessibilityContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { getRepositories } from '../repositories';
+import { BalanceService, PersonBalance, Settlement, SELF_KEY } from '../services/BalanceService';
+import { MoneyService } from '../services/MoneyService';
+import { Expense } from '../types';
+
+export default function BalancesScreen({ navigation }: any) {
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [settleConfirm, setSettleConfirm] = useState<Settlement | null>(null);
+  const [settling, setSettling] = useState(false);
+  const { currentUser } = useAuth();
+  const { showNotification } = useNotification();
+  const { fontScale } = useAccessibility();
+  const { homeCurrency, toHome } = useCurrency();
+
+  // Dynamic styles based on font scale
+  const dynamicStyles = {
+    sectionTitle: { fontSize: 18 * fontScale },
+    sectionDescription: { fontSize: 14 * fontScale },
+    rowTitle: { fontSize: 16 * fontScale },
+    rowDetail: { fontSize: 13 * fontScale },
+    amount: { fontSize: 16 * fontScale },
+  };
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const unsubscribe = getRepositories().expenses.subscribe(currentUser.uid, setExpenses);
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  const { balances, settlements, shares, owedToYou, youOwe, missingCurrencies } =
+    BalanceService.computeBalances(expenses, homeCurrency, toHome);
+
+  const nameFor = (key: string) =>
+    key === SELF_KEY ? 'You' : balances.find(balance => balance.key === key)?.name || key;
+
+  const describeSettlement = (settlement: Settlement) => {
+    if (settlement.from === SELF_KEY) return `You pay ${nameFor(settlement.to)}`;
+    if (settlement.to === SELF_KEY) return `${nameFor(settlement.from)} pays you`;
+    return `${nameFor(settlement.from)} pays ${nameFor(settlement.to)}`;
+  };
+
+  const confirmSettle = async () => {
+    if (!settleConfirm) return;
+    setSettling(true);
+    try {
+      await BalanceService.recordSettlement(settleConfirm, shares, expenses);
+      showNotification('Settled Up', `${describeSettlement(settleConfirm)} ${MoneyService.format(settleConfirm.amount)}`, 'success');
+    } catch (error) {
+      showNotification('Settle Failed', 'Failed to mark shares as paid', 'error');
+    } finally {
+      setSettling(false);
+      setSettleConfirm(null);
+    }
+  };
+
+  const renderBalance = (balance: PersonBalance) => {
+    const expanded = expandedKey === balance.key;
+    return (
+      <View key={balance.key} style={styles.row}>
+        <TouchableOpacity style={styles.rowHeader} onPress={() => setExpandedKey(expanded ? null : balance.key)}>
+          <View style={styles.rowInfo}>
+            <Text style={[styles.rowTitle, dynamicStyles.rowTitle]}>{balance.name}</Text>
+            <Text style={[styles.rowDetail, dynamicStyles.rowDetail]}>
+              {balance.net.minorUnits >= 0 ? 'Owes' : 'Is owed'} · {balance.shares.length} unpaid share{balance.shares.length === 1 ? '' : 's'} {expanded ? '▼' : '▶'}
+            </Text>
+          </View>
+          <Text style={[styles.amount, dynamicStyles.amount, balance.net.minorUnits < 0 && styles.amountOwed]}>
+            {MoneyService.format(MoneyService.abs(balance.net))}
+          </Text>
+        </TouchableOpacity>
+        {expanded && balance.shares.map((share) => (
+          <View key={`${share.expenseId}-${share.personId}`} style={styles.shareRow}>
+            <Text style={[styles.shareTitle, dynamicStyles.rowDetail]}>
+              {share.expenseTitle} · {nameFor(share.from)} → {nameFor(share.to)}
+            </Text>
+            <Text style={[styles.shareAmount, dynamicStyles.rowDetail]}>{MoneyService.format(share.amount)}</Text>
+          </View>
+        ))}
+        {expanded && balance.contactId && (
+          <TouchableOpacity onPress={() => navigation.navigate('PersonDetail', { contactId: balance.contactId })}>
+            <Text style={[styles.detailLink, dynamicStyles.rowDetail]}>View all expenses and payments ›</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Balances</Text>
+      </View>
+
+      <ScrollView style={styles.content}>
+        {missingCurrencies.length > 0 && (
+          <View style={styles.warningBox}>
+            <Text style={styles.warningText}>
+              ⚠️ No exchange rate for {missingCurrencies.join(', ')} - those shares aren't included
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.totalsRow}>
+          <View style={styles.totalItem}>
+            <Text style={[styles.amount, dynamicStyles.amount]}>{MoneyService.format(owedToYou)}</Text>
+            <Text style={[styles.rowDetail, dynamicStyles.rowDetail]}>Owed to You</Text>
+          </View>
+          <View style={styles.totalItem}>
+            <Text style={[styles.amount, dynamicStyles.amount, styles.amountOwed]}>{MoneyService.format(youOwe)}</Text>
+            <Text style={[styles.rowDetail, dynamicStyles.rowDetail]}>You Owe</Text>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, dynamicStyles.sectionTitle]}>Settle Up</Text>
+          <Text style={[styles.sectionDescription, dynamicStyles.sectionDescription]}>
+            The fewest payments that clear every unsettled expense
+          </Text>
+          {settlements.length === 0 ? (
+            <Text style={[styles.emptyText, dynamicStyles.sectionDescription]}>🎉 Everyone is settled up</Text>
+          ) : (
+            settlements.map((settlement) => (
+              <View key={`${settlement.from}-${settlement.to}`} style={styles.settlementRow}>
+                <View style={styles.rowInfo}>
+                  <Text style={[styles.rowTitle, dynamicStyles.rowTitle]}>{describeSettlement(settlement)}</Text>
+                  <Text style={[styles.amount, dynamicStyles.amount]}>{MoneyService.format(settlement.amount)}</Text>
+                </View>
+                <TouchableOpacity style={styles.settleButton} onPress={() => setSettleConfirm(settlement)}>
+                  <Text style={styles.settleButtonText}>Settle</Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </View>
+
+        {balances.length > 0 && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, dynamicStyles.sectionTitle]}>By Person</Text>
+            <Text style={[styles.sectionDescription, dynamicStyles.sectionDescription]}>
+              Totals in {homeCurrency} across all unsettled expenses. Tap to see the shares.
+            </Text>
+            {balances.map(renderBalance)}
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Settle confirmation popup */}
+      {settleConfirm && (
+        <View style={styles.confirmOverlay}>
+          <View style={styles.confirmPopup}>
+            <Text style={styles.confirmTitle}>Settle Up</Text>
+            <Text style={styles.confirmMessage}>
+              {describeSettlement(settleConfirm)} {MoneyService.format(settleConfirm.amount)}? The shares it covers will be marked as paid on every expense.
+            </Text>
+            <View style={styles.confirmButtons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setSettleConfirm(null)} disabled={settling}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.confirmButton} onPress={confirmSettle} disabled={settling}>
+                <Text style={styles.confirmButtonText}>{settling ? 'Settling...' : 'Settle'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    backgroundColor: '#6C55BE',
+    paddingTop: 50,
+    paddingBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  backButton: {
+    position: 'absolute',
+    left: 20,
+    top: 50,
+  },
+  backButtonText: {
+    color: '#FFFFFF',
+    fontSize: 36,
+    fontWeight: '300',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  warningBox: {
+    backgroundColor: '#FFF3E0',
+    borderWidth: 2,
+    borderColor: '#FF9800',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  warningText: {
+    color: '#E65100',
+    fontSize: 14,
+    fontWeight: '500',
+    textAlign: 'center',
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 20,
+  },
+  totalItem: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#6C55BE',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#8B7BA8',
+    marginBottom: 16,
+  },
+  emptyText: {
+    color: '#8B7BA8',
+    textAlign: 'center',
+  },
+  settlementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  settleButton: {
+    backgroundColor: '#CEE476',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  settleButtonText: {
+    color: '#6C55BE',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  row: {
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    paddingVertical: 10,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  rowDetail: {
+    color: '#8B7BA8',
+    marginTop: 2,
+  },
+  amount: {
+    color: '#6C55BE',
+    fontWeight: 'bold',
+  },
+  amountOwed: {
+    color: '#E65100',
+  },
+  shareRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingLeft: 12,
+    paddingTop: 6,
+  },
+  shareTitle: {
+    color: '#555',
+    flex: 1,
+  },
+  shareAmount: {
+    color: '#555',
+  },
+  detailLink: {
+    color: '#6C55BE',
+    fontWeight: '600',
+    paddingLeft: 12,
+    paddingTop: 8,
+  },
+  confirmOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 999999,
+    elevation: 999999,
+  },
+  confirmPopup: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    marginHorizontal: 30,
+    minWidth: 280,
+    borderWidth: 2,
+    borderColor: '#9b59b6',
+  },
+  confirmTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#9b59b6',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  confirmMessage: {
+    fontSize: 16,
+    color: '#555',
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  confirmButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: '#6C55BE',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
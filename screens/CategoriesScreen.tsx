@@ -0,0 +1,463 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput } from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotification } from '../contexts/NotificationContext';
+import { useAccessibility } from '../contexts/AccessibilityContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { getRepositories } from '../repositories';
+import { CategoryService, DEFAULT_CATEGORY_ICON } from '../services/CategoryService';
+import { BudgetService } from '../services/BudgetService';
+import { MoneyService } from '../services/MoneyService';
+import { Category, Expense } from '../types';
+
+export default function CategoriesScreen({ navigation }: any) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [icon, setIcon] = useState('');
+  const [name, setName] = useState('');
+  const [budgetInput, setBudgetInput] = useState('');
+  const [deleteConfirm, setDeleteConfirm] = useState<Category | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const { currentUser } = useAuth();
+  const { showNotification } = useNotification();
+  const { fontScale } = useAccessibility();
+  const { homeCurrency, toHome } = useCurrency();
+
+  // Dynamic styles based on font scale
+  const dynamicStyles = {
+    sectionTitle: { fontSize: 18 * fontScale },
+    sectionDescription: { fontSize: 14 * fontScale },
+    rowTitle: { fontSize: 16 * fontScale },
+    rowDetail: { fontSize: 13 * fontScale },
+  };
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const { categories: categoryRepository, expenses: expenseRepository } = getRepositories();
+    const unsubscribeCategories = categoryRepository.subscribe(currentUser.uid, (categoriesData) => {
+      setCategories(CategoryService.sortByName(categoriesData));
+    });
+    const unsubscribeExpenses = expenseRepository.subscribe(currentUser.uid, setExpenses);
+    return () => {
+      unsubscribeCategories();
+      unsubscribeExpenses();
+    };
+  }, [currentUser]);
+
+  const spending = CategoryService.spendingByCategory(expenses, categories, homeCurrency, toHome);
+  const progress = BudgetService.progress(categories, expenses, homeCurrency, toHome);
+
+  const resetForm = () => {
+    setEditingCategory(null);
+    setIcon('');
+    setName('');
+    setBudgetInput('');
+  };
+
+  const startEditing = (category: Category) => {
+    setEditingCategory(category);
+    setIcon(category.icon);
+    setName(category.name);
+    setBudgetInput(category.monthlyBudget ? MoneyService.toInput(category.monthlyBudget) : '');
+  };
+
+  const handleSaveCategory = async () => {
+    const trimmedName = name.trim();
+    if (!trimmedName || !currentUser) {
+      showNotification('Missing Name', 'Please enter a category name', 'error');
+      return;
+    }
+    const duplicate = categories.find(category =>
+      category.id !== editingCategory?.id && category.name.toLowerCase() === trimmedName.toLowerCase()
+    );
+    if (duplicate) {
+      showNotification('Already Added', `${trimmedName} is already a category`, 'warning');
+      return;
+    }
+
+    // An empty budget means no budget
+    const budget = budgetInput.trim() ? MoneyService.parse(budgetInput, homeCurrency) : null;
+    if (budgetInput.trim() && (!budget || budget.minorUnits <= 0)) {
+      showNotification('Invalid Budget', 'Enter the monthly budget as a number, e.g. 250', 'error');
+      return;
+    }
+
+    try {
+      const categoryRepository = getRepositories().categories;
+      const fields = { name: trimmedName, icon: icon.trim() || DEFAULT_CATEGORY_ICON, monthlyBudget: budget, updatedAt: new Date() };
+      if (editingCategory) {
+        await categoryRepository.update(editingCategory.id, fields, editingCategory);
+      } else {
+        await categoryRepository.add({ ...fields, createdAt: new Date(), userId: currentUser.uid });
+      }
+      resetForm();
+    } catch (error) {
+      showNotification('Error', 'Failed to save category', 'error');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteConfirm) return;
+    setDeleting(true);
+    try {
+      await CategoryService.removeCategory(deleteConfirm, expenses);
+      if (editingCategory?.id === deleteConfirm.id) resetForm();
+      showNotification('Deleted', `${deleteConfirm.name} removed`, 'success');
+    } catch (error) {
+      showNotification('Delete Failed', 'Failed to delete category', 'error');
+    } finally {
+      setDeleting(false);
+      setDeleteConfirm(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Categories & Budgets</Text>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, dynamicStyles.sectionTitle]}>Your Categories</Text>
+          <Text style={[styles.sectionDescription, dynamicStyles.sectionDescription]}>
+            Tap a category to rename it or set a monthly budget. You'll be alerted at 80% and 100% of a budget.
+          </Text>
+
+          {categories.length === 0 ? (
+            <Text style={[styles.emptyText, dynamicStyles.sectionDescription]}>No categories yet - add one below</Text>
+          ) : (
+            categories.map((category) => {
+              const spent = spending.get(category.id) ?? MoneyService.zero(homeCurrency);
+              const budget = progress.find(entry => entry.category.id === category.id);
+              return (
+                <TouchableOpacity
+                  key={category.id}
+                  style={[styles.row, editingCategory?.id === category.id && styles.rowEditing]}
+                  onPress={() => startEditing(category)}
+                >
+                  <Text style={[styles.rowIcon, dynamicStyles.rowTitle]}>{category.icon}</Text>
+                  <View style={styles.rowInfo}>
+                    <Text style={[styles.rowTitle, dynamicStyles.rowTitle]}>{category.name}</Text>
+                    <Text style={[styles.rowDetail, dynamicStyles.rowDetail, budget && budget.percent >= 100 && styles.overBudgetText]}>
+                      {MoneyService.format(spent)} this month
+                      {budget ? ` of ${MoneyService.format(budget.budget)} (${budget.percent}%)` : ' · no budget'}
+                    </Text>
+                    {budget && (
+                      <View style={styles.budgetTrack}>
+                        <View
+                          style={[
+                            styles.budgetFill,
+                            { width: `${Math.min(budget.percent, 100)}%` },
+                            budget.percent >= 80 && styles.budgetFillWarning,
+                            budget.percent >= 100 && styles.budgetFillOver,
+                          ]}
+                        />
+                      </View>
+                    )}
+                  </View>
+                  <TouchableOpacity onPress={() => setDeleteConfirm(category)} style={styles.deleteButton}>
+                    <Text style={styles.deleteButtonText}>🗑️</Text>
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, dynamicStyles.sectionTitle]}>
+            {editingCategory ? 'Edit Category' : 'Add Category'}
+          </Text>
+          <View style={styles.formRow}>
+            <TextInput
+              style={[styles.input, styles.iconInput]}
+              placeholder={DEFAULT_CATEGORY_ICON}
+              placeholderTextColor="#8B7BA8"
+              value={icon}
+              onChangeText={setIcon}
+              maxLength={4}
+            />
+            <TextInput
+              style={[styles.input, styles.nameInput]}
+              placeholder="Name"
+              placeholderTextColor="#8B7BA8"
+              value={name}
+              onChangeText={setName}
+            />
+          </View>
+          <TextInput
+            style={[styles.input, styles.budgetInput]}
+            placeholder={`Monthly budget (${homeCurrency}, optional)`}
+            placeholderTextColor="#8B7BA8"
+            value={budgetInput}
+            onChangeText={setBudgetInput}
+            keyboardType="decimal-pad"
+          />
+          <View style={styles.formButtons}>
+            {editingCategory && (
+              <TouchableOpacity style={styles.cancelButton} onPress={resetForm}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.saveButton} onPress={handleSaveCategory}>
+              <Text style={styles.saveButtonText}>{editingCategory ? 'Update Category' : 'Add Category'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+
+      {/* Delete confirmation popup */}
+      {deleteConfirm && (
+        <View style={styles.confirmOverlay}>
+          <View style={styles.confirmPopup}>
+            <Text style={styles.confirmTitle}>Delete Category</Text>
+            <Text style={styles.confirmMessage}>
+              Delete "{deleteConfirm.name}"? Its expenses are kept but will no longer have a category.
+            </Text>
+            <View style={styles.confirmButtons}>
+              <TouchableOpacity style={styles.confirmCancelButton} onPress={() => setDeleteConfirm(null)} disabled={deleting}>
+                <Text style={styles.confirmCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.confirmButton} onPress={confirmDelete} disabled={deleting}>
+                <Text style={styles.confirmButtonText}>{deleting ? 'Deleting...' : 'Delete'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    backgroundColor: '#6C55BE',
+    paddingTop: 50,
+    paddingBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  backButton: {
+    position: 'absolute',
+    left: 20,
+    top: 50,
+  },
+  backButtonText: {
+    color: '#FFFFFF',
+    fontSize: 36,
+    fontWeight: '300',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#6C55BE',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#8B7BA8',
+    marginBottom: 16,
+  },
+  emptyText: {
+    color: '#8B7BA8',
+    fontStyle: 'italic',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  rowEditing: {
+    backgroundColor: '#F0EDF7',
+  },
+  rowIcon: {
+    width: 32,
+    textAlign: 'center',
+    marginRight: 8,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  rowDetail: {
+    color: '#8B7BA8',
+    marginTop: 2,
+  },
+  overBudgetText: {
+    color: '#E65100',
+    fontWeight: '600',
+  },
+  budgetTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+    marginTop: 6,
+  },
+  budgetFill: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: '#CEE476',
+  },
+  budgetFillWarning: {
+    backgroundColor: '#FF9800',
+  },
+  budgetFillOver: {
+    backgroundColor: '#ff6b6b',
+  },
+  deleteButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  deleteButtonText: {
+    fontSize: 20,
+  },
+  formRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#333',
+  },
+  iconInput: {
+    width: 56,
+    textAlign: 'center',
+  },
+  nameInput: {
+    flex: 1,
+  },
+  budgetInput: {
+    marginBottom: 12,
+  },
+  formButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#8B7BA8',
+    fontWeight: '600',
+  },
+  saveButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#6C55BE',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  confirmOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 999999,
+    elevation: 999999,
+  },
+  confirmPopup: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    marginHorizontal: 30,
+    minWidth: 280,
+    borderWidth: 2,
+    borderColor: '#9b59b6',
+  },
+  confirmTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#9b59b6',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  confirmMessage: {
+    fontSize: 16,
+    color: '#555',
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  confirmButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  confirmCancelButton: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  confirmCancelText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: '#ff6b6b',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
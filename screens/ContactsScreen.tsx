@@ -0,0 +1,383 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput } from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotification } from '../contexts/NotificationContext';
+import { useAccessibility } from '../contexts/AccessibilityContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { getRepositories } from '../repositories';
+import { BalanceService } from '../services/BalanceService';
+import { ContactService } from '../services/ContactService';
+import { MoneyService } from '../services/MoneyService';
+import { Contact, Expense } from '../types';
+
+export default function ContactsScreen({ navigation }: any) {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [newName, setNewName] = useState('');
+  const [mergeGroup, setMergeGroup] = useState<Contact[] | null>(null);
+  const [merging, setMerging] = useState(false);
+  const { currentUser } = useAuth();
+  const { showNotification } = useNotification();
+  const { fontScale } = useAccessibility();
+  const { homeCurrency, toHome } = useCurrency();
+
+  // Dynamic styles based on font scale
+  const dynamicStyles = {
+    sectionTitle: { fontSize: 18 * fontScale },
+    sectionDescription: { fontSize: 14 * fontScale },
+    rowTitle: { fontSize: 16 * fontScale },
+    rowDetail: { fontSize: 13 * fontScale },
+  };
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const { contacts: contactRepository, expenses: expenseRepository } = getRepositories();
+    const unsubscribeContacts = contactRepository.subscribe(currentUser.uid, (contactsData) => {
+      setContacts(contactsData.sort((a, b) => a.name.localeCompare(b.name)));
+    });
+    const unsubscribeExpenses = expenseRepository.subscribe(currentUser.uid, setExpenses);
+    return () => {
+      unsubscribeContacts();
+      unsubscribeExpenses();
+    };
+  }, [currentUser]);
+
+  const { balances } = BalanceService.computeBalances(expenses, homeCurrency, toHome);
+  const duplicates = ContactService.findDuplicates(contacts);
+
+  const handleAddContact = async () => {
+    const name = newName.trim();
+    if (!name || !currentUser) return;
+    if (ContactService.findByName(contacts, name)) {
+      showNotification('Already Added', `${name} is already in your people`, 'warning');
+      return;
+    }
+
+    try {
+      await getRepositories().contacts.add({ name, createdAt: new Date(), updatedAt: new Date(), userId: currentUser.uid });
+      setNewName('');
+    } catch (error) {
+      showNotification('Error', 'Failed to add person', 'error');
+    }
+  };
+
+  // Keep the oldest contact and fold the others into it
+  const confirmMerge = async () => {
+    if (!mergeGroup) return;
+    const [target, ...sources] = [...mergeGroup].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    setMerging(true);
+    try {
+      await ContactService.mergeContacts(sources, target, expenses);
+      showNotification('Merged', `Combined ${mergeGroup.length} entries for ${target.name}`, 'success');
+    } catch (error) {
+      showNotification('Merge Failed', 'Failed to merge people', 'error');
+    } finally {
+      setMerging(false);
+      setMergeGroup(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>People</Text>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {duplicates.map((group) => (
+          <View key={group[0].id} style={styles.warningBox}>
+            <Text style={styles.warningText}>
+              ⚠️ {group.length} people are named "{group[0].name}"
+            </Text>
+            <TouchableOpacity style={styles.mergeButton} onPress={() => setMergeGroup(group)}>
+              <Text style={styles.mergeButtonText}>Merge</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, dynamicStyles.sectionTitle]}>Your People</Text>
+          <Text style={[styles.sectionDescription, dynamicStyles.sectionDescription]}>
+            Everyone you've split an expense with. Tap someone to see their expenses and payments.
+          </Text>
+
+          {contacts.length === 0 ? (
+            <Text style={[styles.emptyText, dynamicStyles.sectionDescription]}>
+              No people yet - they're added when you save an expense
+            </Text>
+          ) : (
+            contacts.map((contact) => {
+              const balance = balances.find(b => b.contactId === contact.id);
+              const shareCount = ContactService.expensesFor(contact.id, expenses).length;
+              return (
+                <TouchableOpacity
+                  key={contact.id}
+                  style={styles.row}
+                  onPress={() => navigation.navigate('PersonDetail', { contactId: contact.id })}
+                >
+                  <View style={styles.rowInfo}>
+                    <Text style={[styles.rowTitle, dynamicStyles.rowTitle]}>{contact.name}</Text>
+                    <Text style={[styles.rowDetail, dynamicStyles.rowDetail]}>
+                      {shareCount} expense{shareCount === 1 ? '' : 's'}
+                    </Text>
+                  </View>
+                  {balance && !MoneyService.isZero(balance.withYou) && (
+                    <Text style={[styles.amount, dynamicStyles.rowTitle, balance.withYou.minorUnits < 0 && styles.amountOwed]}>
+                      {balance.withYou.minorUnits > 0 ? 'owes you' : 'you owe'} {MoneyService.format(MoneyService.abs(balance.withYou))}
+                    </Text>
+                  )}
+                  <Text style={styles.chevron}>›</Text>
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, dynamicStyles.sectionTitle]}>Add Person</Text>
+          <View style={styles.addRow}>
+            <TextInput
+              style={styles.input}
+              placeholder="Name"
+              placeholderTextColor="#8B7BA8"
+              value={newName}
+              onChangeText={setNewName}
+              onSubmitEditing={handleAddContact}
+            />
+            <TouchableOpacity style={styles.addButton} onPress={handleAddContact}>
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+
+      {/* Merge confirmation popup */}
+      {mergeGroup && (
+        <View style={styles.confirmOverlay}>
+          <View style={styles.confirmPopup}>
+            <Text style={styles.confirmTitle}>Merge People</Text>
+            <Text style={styles.confirmMessage}>
+              Combine {mergeGroup.length} entries for "{mergeGroup[0].name}" into one? Their expenses and balances will be combined.
+            </Text>
+            <View style={styles.confirmButtons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setMergeGroup(null)} disabled={merging}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.confirmButton} onPress={confirmMerge} disabled={merging}>
+                <Text style={styles.confirmButtonText}>{merging ? 'Merging...' : 'Merge'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    backgroundColor: '#6C55BE',
+    paddingTop: 50,
+    paddingBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  backButton: {
+    position: 'absolute',
+    left: 20,
+    top: 50,
+  },
+  backButtonText: {
+    color: '#FFFFFF',
+    fontSize: 36,
+    fontWeight: '300',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  warningBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF3E0',
+    borderWidth: 2,
+    borderColor: '#FF9800',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  warningText: {
+    flex: 1,
+    color: '#E65100',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  mergeButton: {
+    backgroundColor: '#FF9800',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  mergeButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#6C55BE',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#8B7BA8',
+    marginBottom: 16,
+  },
+  emptyText: {
+    color: '#8B7BA8',
+    fontStyle: 'italic',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  rowDetail: {
+    color: '#8B7BA8',
+    marginTop: 2,
+  },
+  amount: {
+    color: '#6C55BE',
+    fontWeight: 'bold',
+    marginRight: 8,
+  },
+  amountOwed: {
+    color: '#E65100',
+  },
+  chevron: {
+    fontSize: 24,
+    color: '#8B7BA8',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#333',
+  },
+  addButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#6C55BE',
+  },
+  addButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  confirmOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 999999,
+    elevation: 999999,
+  },
+  confirmPopup: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    marginHorizontal: 30,
+    minWidth: 280,
+    borderWidth: 2,
+    borderColor: '#9b59b6',
+  },
+  confirmTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#9b59b6',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  confirmMessage: {
+    fontSize: 16,
+    color: '#555',
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  confirmButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: '#6C55BE',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,406 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useNotification } from '../contexts/NotificationContext';
+import { ExchangeRateService } from '../services/ExchangeRateService';
+import { MoneyService, COMMON_CURRENCIES } from '../services/MoneyService';
+import { ExchangeRate } from '../types';
+
+export default function CurrencySettingsScreen({ navigation }: any) {
+  const { homeCurrency, setHomeCurrency, rates, saveRate, removeRate } = useCurrency();
+  const { showNotification } = useNotification();
+  const [editingRateId, setEditingRateId] = useState<string | null>(null);
+  const [fromCurrency, setFromCurrency] = useState('');
+  const [toCurrency, setToCurrency] = useState(homeCurrency);
+  const [rateInput, setRateInput] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(new Date());
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  const currencyOptions = [...new Set([homeCurrency, ...COMMON_CURRENCIES])];
+
+  const handleHomeCurrencyChange = async (currency: string) => {
+    try {
+      await setHomeCurrency(currency);
+      showNotification('Home Currency', `Totals are now shown in ${currency}`, 'success');
+    } catch (error) {
+      showNotification('Error', 'Failed to update home currency', 'error');
+    }
+  };
+
+  const resetForm = () => {
+    setEditingRateId(null);
+    setFromCurrency('');
+    setToCurrency(homeCurrency);
+    setRateInput('');
+    setEffectiveFrom(new Date());
+    setShowDatePicker(false);
+  };
+
+  const startEditing = (rate: ExchangeRate) => {
+    setEditingRateId(rate.id);
+    setFromCurrency(rate.from);
+    setToCurrency(rate.to);
+    setRateInput(String(rate.rate));
+    setEffectiveFrom(rate.effectiveFrom);
+  };
+
+  const handleSaveRate = async () => {
+    const from = fromCurrency.trim().toUpperCase();
+    const to = toCurrency.trim().toUpperCase();
+    const rate = parseFloat(rateInput.replace(',', '.'));
+
+    if (!MoneyService.isValidCurrency(from) || !MoneyService.isValidCurrency(to)) {
+      showNotification('Invalid Currency', 'Use 3-letter currency codes like EUR or USD', 'error');
+      return;
+    }
+    if (from === to) {
+      showNotification('Invalid Rate', 'Choose two different currencies', 'error');
+      return;
+    }
+    if (isNaN(rate) || rate <= 0) {
+      showNotification('Invalid Rate', 'Enter how much 1 unit is worth, e.g. 1.08', 'error');
+      return;
+    }
+
+    // Rates apply from the start of the chosen day
+    const start = new Date(effectiveFrom);
+    start.setHours(0, 0, 0, 0);
+
+    try {
+      await saveRate({
+        id: editingRateId || ExchangeRateService.createRateId(),
+        from,
+        to,
+        rate,
+        effectiveFrom: start,
+      });
+      showNotification('Rate Saved', `1 ${from} = ${rate} ${to} from ${start.toLocaleDateString()}`, 'success');
+      resetForm();
+    } catch (error) {
+      showNotification('Error', 'Failed to save exchange rate', 'error');
+    }
+  };
+
+  const handleRemoveRate = async (id: string) => {
+    try {
+      await removeRate(id);
+      if (editingRateId === id) resetForm();
+    } catch (error) {
+      showNotification('Error', 'Failed to delete exchange rate', 'error');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Currency</Text>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Home Currency</Text>
+          <Text style={styles.sectionDescription}>
+            Totals and spending analytics are converted to this currency
+          </Text>
+          <View style={styles.chipRow}>
+            {currencyOptions.map((code) => (
+              <TouchableOpacity
+                key={code}
+                style={[styles.chip, homeCurrency === code && styles.chipSelected]}
+                onPress={() => handleHomeCurrencyChange(code)}
+              >
+                <Text style={[styles.chipText, homeCurrency === code && styles.chipTextSelected]}>{code}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Exchange Rates</Text>
+          <Text style={styles.sectionDescription}>
+            Each expense is converted with the latest rate in effect on its date. Rates are stored on this device.
+          </Text>
+
+          {rates.length === 0 ? (
+            <Text style={styles.emptyText}>No rates yet - add one below</Text>
+          ) : (
+            rates.map((rate) => (
+              <TouchableOpacity
+                key={rate.id}
+                style={[styles.rateRow, editingRateId === rate.id && styles.rateRowEditing]}
+                onPress={() => startEditing(rate)}
+              >
+                <View style={styles.rateInfo}>
+                  <Text style={styles.rateText}>1 {rate.from} = {rate.rate} {rate.to}</Text>
+                  <Text style={styles.rateDate}>from {rate.effectiveFrom.toLocaleDateString()}</Text>
+                </View>
+                <TouchableOpacity onPress={() => handleRemoveRate(rate.id)} style={styles.deleteButton}>
+                  <Text style={styles.deleteButtonText}>🗑️</Text>
+                </TouchableOpacity>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{editingRateId ? 'Edit Rate' : 'Add Rate'}</Text>
+          <View style={styles.rateForm}>
+            <Text style={styles.formText}>1</Text>
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              placeholder="EUR"
+              placeholderTextColor="#8B7BA8"
+              value={fromCurrency}
+              onChangeText={setFromCurrency}
+              autoCapitalize="characters"
+              maxLength={3}
+            />
+            <Text style={styles.formText}>=</Text>
+            <TextInput
+              style={[styles.input, styles.rateInput]}
+              placeholder="1.08"
+              placeholderTextColor="#8B7BA8"
+              value={rateInput}
+              onChangeText={setRateInput}
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              placeholder={homeCurrency}
+              placeholderTextColor="#8B7BA8"
+              value={toCurrency}
+              onChangeText={setToCurrency}
+              autoCapitalize="characters"
+              maxLength={3}
+            />
+          </View>
+
+          <TouchableOpacity style={styles.dateButton} onPress={() => setShowDatePicker(true)}>
+            <Text style={styles.dateButtonText}>📅 Effective from {effectiveFrom.toLocaleDateString()}</Text>
+          </TouchableOpacity>
+
+          {showDatePicker && (
+            <DateTimePicker
+              value={effectiveFrom}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={(event: any, selectedDate?: Date) => {
+                if (Platform.OS === 'android') {
+                  setShowDatePicker(false);
+                }
+                if (selectedDate) {
+                  setEffectiveFrom(selectedDate);
+                }
+              }}
+            />
+          )}
+
+          <View style={styles.formButtons}>
+            {editingRateId && (
+              <TouchableOpacity style={styles.cancelButton} onPress={resetForm}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.saveButton} onPress={handleSaveRate}>
+              <Text style={styles.saveButtonText}>{editingRateId ? 'Update Rate' : 'Add Rate'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.infoBox}>
+          <Text style={styles.infoText}>
+            💡 Expenses in a currency without a rate are left out of totals until you add one
+          </Text>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    backgroundColor: '#6C55BE',
+    paddingTop: 50,
+    paddingBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  backButton: {
+    position: 'absolute',
+    left: 20,
+    top: 50,
+  },
+  backButtonText: {
+    color: '#FFFFFF',
+    fontSize: 36,
+    fontWeight: '300',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#6C55BE',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#8B7BA8',
+    marginBottom: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: '#F3F4F6',
+    borderWidth: 2,
+    borderColor: '#CEE476',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#CEE476',
+  },
+  chipText: {
+    color: '#8B7BA8',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#6C55BE',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8B7BA8',
+    fontStyle: 'italic',
+  },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  rateRowEditing: {
+    backgroundColor: '#F0EDF7',
+  },
+  rateInfo: {
+    flex: 1,
+  },
+  rateText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6C55BE',
+  },
+  rateDate: {
+    fontSize: 13,
+    color: '#8B7BA8',
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 4,
+  },
+  deleteButtonText: {
+    fontSize: 20,
+  },
+  rateForm: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  formText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6C55BE',
+  },
+  input: {
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#333',
+  },
+  codeInput: {
+    width: 64,
+    textAlign: 'center',
+  },
+  rateInput: {
+    flex: 1,
+  },
+  dateButton: {
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  dateButtonText: {
+    fontSize: 15,
+    color: '#6C55BE',
+  },
+  formButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#8B7BA8',
+    fontWeight: '600',
+  },
+  saveButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#6C55BE',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  infoBox: {
+    backgroundColor: '#CEE476',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 40,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#6C55BE',
+    textAlign: 'center',
+  },
+});
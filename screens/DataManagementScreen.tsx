@@ -253,7 +253,7 @@ export default function DataManagementScreen({ navigation }: any) {
               <View style={styles.settingInfo}>
                 <Text style={styles.settingLabel}>Auto-delete old expenses</Text>
                 <Text style={styles.settingSubtext}>
-                  After {settings.expenseRetentionDays} days
+                  {settings.expenseRetentionDays} days after they were spent
                 </Text>
               </View>
               <Switch
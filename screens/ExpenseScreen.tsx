@@ -15,60 +15,123 @@ import {
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { 
-  collection, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
-  doc, 
-  query, 
-  where, 
-  onSnapshot 
-} from 'firebase/firestore';
-import { db } from '../firebaseConfig';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotification } from '../contexts/NotificationContext';
 import { useAccessibility } from '../contexts/AccessibilityContext';
-
-interface Person {
-  id: string;
-  name: string;
-  amount: string;
-  paid: boolean;
-}
-
-interface Expense {
-  id: string;
-  title: string;
-  totalAmount: number;
-  people: Person[];
-  dueDate?: Date;
-  description: string;
-  priority: boolean;
-  settled: boolean;
-  createdAt: Date;
-  updatedAt: Date;
-  userId: string;
-}
-
-export default function ExpenseScreen() {
+import { useSync } from '../contexts/SyncContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { getRepositories, InvalidDocument } from '../repositories';
+import NeedsRepairBanner from '../components/NeedsRepairBanner';
+import { RecurrenceService } from '../services/RecurrenceService';
+import { RecurringExpenseService } from '../services/RecurringExpenseService';
+import { MoneyService, DEFAULT_CURRENCY, COMMON_CURRENCIES } from '../services/MoneyService';
+import { SplitService, SplitResult, SPLIT_MODE_LABELS } from '../services/SplitService';
+import { ContactService } from '../services/ContactService';
+import { PaymentService, PAYMENT_METHOD_LABELS } from '../services/PaymentService';
+import { BalanceService } from '../services/BalanceService';
+import { CategoryService } from '../services/CategoryService';
+import { BudgetService } from '../services/BudgetService';
+import {
+  ExpenseFilterService,
+  ExpenseFilter,
+  ExpenseSort,
+  ExpenseStatusFilter,
+  DEFAULT_EXPENSE_FILTER,
+  EXPENSE_SORT_LABELS,
+  EXPENSE_STATUS_LABELS,
+} from '../services/ExpenseFilterService';
+import { PriorityService, PRIORITY_LEVELS, PRIORITY_LABELS } from '../services/PriorityService';
+import {
+  Category,
+  Contact,
+  CurrencyCode,
+  Expense,
+  ExpensePeriod,
+  ExpenseRecurrence,
+  ExpenseSplit,
+  LineItem,
+  Money,
+  Payment,
+  PaymentMethod,
+  Person,
+  Priority,
+  SplitMode,
+} from '../types';
+
+// A person or line item as edited in the form, with the amount as typed
+type PersonInput = Omit<Person, 'amount'> & { amount: string };
+type LineItemInput = Omit<LineItem, 'amount'> & { amount: string };
+
+const SPLIT_MODES: SplitMode[] = ['equal', 'exact', 'percentage', 'shares', 'itemized'];
+const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card', 'transfer', 'other'];
+const STATUS_FILTERS: ExpenseStatusFilter[] = ['all', 'unsettled', 'settled', 'overdue'];
+const SORT_OPTIONS: ExpenseSort[] = ['priority', 'newest', 'dueDate', 'amount', 'outstanding'];
+
+const toPersonInputs = (people: Person[]): PersonInput[] =>
+  people.map(person => ({
+    ...person,
+    amount: MoneyService.isZero(person.amount) ? '' : MoneyService.toInput(person.amount),
+    paid: person.paid !== undefined ? person.paid : false,
+  }));
+
+const REPEAT_OPTIONS: { value: ExpensePeriod | 'never'; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+export default function ExpenseScreen({ navigation }: any) {
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [invalidExpenses, setInvalidExpenses] = useState<InvalidDocument[]>([]);
   const [loading, setLoading] = useState(true);
   const [modalVisible, setModalVisible] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
   const [title, setTitle] = useState('');
   const [totalAmount, setTotalAmount] = useState('');
   const [description, setDescription] = useState('');
+  const [spentOn, setSpentOn] = useState(new Date());
+  const [showSpentOnPicker, setShowSpentOnPicker] = useState(false);
   const [dueDate, setDueDate] = useState<Date | null>(null);
   const [dueTime, setDueTime] = useState<Date | null>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
-  const [people, setPeople] = useState<Person[]>([{ id: '1', name: '', amount: '', paid: false }]);
+  const [people, setPeople] = useState<PersonInput[]>([{ id: '1', name: '', amount: '', payments: [], paid: false }]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [focusedPersonId, setFocusedPersonId] = useState<string | null>(null);
+  const [paidBy, setPaidBy] = useState<string | null>(null); // Person id; null means you paid
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [expenseCurrency, setExpenseCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
+  const [splitMode, setSplitMode] = useState<SplitMode>('exact');
+  const [splitWeights, setSplitWeights] = useState<{ [personId: string]: string }>({});
+  const [lineItems, setLineItems] = useState<LineItemInput[]>([]);
+  const [taxAmount, setTaxAmount] = useState('');
+  const [tipAmount, setTipAmount] = useState('');
+  const [repeatPeriod, setRepeatPeriod] = useState<ExpensePeriod | null>(null);
+  const [repeatEndDate, setRepeatEndDate] = useState<Date | null>(null);
+  const [showRepeatEndPicker, setShowRepeatEndPicker] = useState(false);
   const [draftRestored, setDraftRestored] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<{id: string, title: string} | null>(null);
+  const [paymentTarget, setPaymentTarget] = useState<{ expenseId: string; personId: string } | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [paymentNote, setPaymentNote] = useState('');
+  const [paymentDate, setPaymentDate] = useState(new Date());
+  const [showPaymentDatePicker, setShowPaymentDatePicker] = useState(false);
+  const [filter, setFilter] = useState<ExpenseFilter>(DEFAULT_EXPENSE_FILTER);
+  const [filterLoaded, setFilterLoaded] = useState(false);
+  const [filterModalVisible, setFilterModalVisible] = useState(false);
+  const [minAmountInput, setMinAmountInput] = useState('');
+  const [maxAmountInput, setMaxAmountInput] = useState('');
+  const [showFilterFromPicker, setShowFilterFromPicker] = useState(false);
+  const [showFilterToPicker, setShowFilterToPicker] = useState(false);
   const { currentUser } = useAuth();
   const { showNotification, currentNotification, hideNotification } = useNotification();
   const { fontScale } = useAccessibility();
+  const { isPending } = useSync();
+  const { homeCurrency, toHome, totalInHome } = useCurrency();
+  const expenseRepository = getRepositories().expenses;
   const deleteTimeouts = useRef<{ [key: string]: NodeJS.Timeout }>({});
 
   // Auto-save draft to AsyncStorage
@@ -84,9 +147,20 @@ export default function ExpenseScreen() {
             title,
             totalAmount,
             description,
+            spentOn: spentOn.toISOString(),
             dueDate: dueDate?.toISOString(),
             dueTime: dueTime?.toISOString(),
             people,
+            paidBy,
+            categoryId,
+            currency: expenseCurrency,
+            splitMode,
+            splitWeights,
+            lineItems,
+            taxAmount,
+            tipAmount,
+            repeatPeriod,
+            repeatEndDate: repeatEndDate?.toISOString(),
             editingExpenseId: null, // Always null for new expenses
           };
           await AsyncStorage.setItem('@expense_draft', JSON.stringify(draft));
@@ -100,7 +174,7 @@ export default function ExpenseScreen() {
     // Save draft after 1 second of changes, but only if modal is still visible
     const timeoutId = setTimeout(saveDraft, 1000);
     return () => clearTimeout(timeoutId);
-  }, [title, totalAmount, description, dueDate, dueTime, people, modalVisible, editingExpense]);
+  }, [title, totalAmount, description, spentOn, dueDate, dueTime, people, paidBy, categoryId, expenseCurrency, splitMode, splitWeights, lineItems, taxAmount, tipAmount, repeatPeriod, repeatEndDate, modalVisible, editingExpense]);
 
   // Handle keyboard dismissal when modal closes
   useEffect(() => {
@@ -148,6 +222,9 @@ export default function ExpenseScreen() {
     datePickerButtonText: { fontSize: 16 * fontScale },
     clearDateText: { fontSize: 14 * fontScale },
     dateTimePickerSaveText: { fontSize: 18 * fontScale },
+    upcomingTitle: { fontSize: 16 * fontScale },
+    upcomingBillTitle: { fontSize: 15 * fontScale },
+    upcomingBillDetails: { fontSize: 12 * fontScale },
   };
 
   const motivationalPhrases = [
@@ -165,47 +242,16 @@ export default function ExpenseScreen() {
   useEffect(() => {
     if (!currentUser) return;
 
-    const q = query(
-      collection(db, 'expenses'),
-      where('userId', '==', currentUser.uid)
-    );
-
-    const unsubscribe = onSnapshot(q, 
-      (querySnapshot) => {
-        const expensesData: Expense[] = [];
-        querySnapshot.forEach((doc) => {
-          const data = doc.data();
-          expensesData.push({
-            id: doc.id,
-            title: data.title,
-            totalAmount: data.totalAmount,
-            people: data.people || [],
-            dueDate: data.dueDate ? data.dueDate.toDate() : undefined,
-            description: data.description,
-            priority: data.priority || false,
-            settled: data.settled || false,
-            createdAt: data.createdAt.toDate(),
-            updatedAt: data.updatedAt.toDate(),
-            userId: data.userId,
-          });
-        });
-        
-        // Sort by priority first, then by creation date
-        expensesData.sort((a, b) => {
-          if (a.priority !== b.priority) {
-            return b.priority ? 1 : -1;
-          }
-          return b.createdAt.getTime() - a.createdAt.getTime();
-        });
-        
-        setExpenses(expensesData);
+    const unsubscribe = expenseRepository.subscribe(currentUser.uid,
+      (expensesData, invalid) => {
+        setExpenses(expensesData); // Ordered for display by ExpenseFilterService.apply
+        setInvalidExpenses(invalid);
         setLoading(false);
 
         // Check for urgent expenses
         checkForUrgentExpenses(expensesData);
       },
-      (error) => {
-        console.error('Firestore query error:', error);
+      () => {
         setLoading(false);
         setExpenses([]);
       }
@@ -214,6 +260,56 @@ export default function ExpenseScreen() {
     return () => unsubscribe();
   }, [currentUser]);
 
+  // Contacts for name autocomplete
+  useEffect(() => {
+    if (!currentUser) return;
+    const unsubscribe = getRepositories().contacts.subscribe(currentUser.uid, setContacts);
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  // Restore the user's last search and filters
+  useEffect(() => {
+    if (!currentUser) return;
+    setFilterLoaded(false);
+    ExpenseFilterService.load(currentUser.uid).then((saved) => {
+      setFilter(saved);
+      setFilterLoaded(true);
+    });
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (!currentUser || !filterLoaded) return;
+    ExpenseFilterService.save(currentUser.uid, filter).catch((error) => {
+      console.error('Failed to save expense filter:', error);
+    });
+  }, [filter, filterLoaded]);
+
+  // Categories for the form and budgets
+  useEffect(() => {
+    if (!currentUser) return;
+    const unsubscribe = getRepositories().categories.subscribe(currentUser.uid, setCategories);
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  // Budget progress for this month, in the home currency
+  const budgetProgress = BudgetService.progress(categories, expenses, homeCurrency, toHome);
+
+  // Warn when a category passes 80% or 100% of its budget, once per threshold each month
+  const budgetProgressKey = budgetProgress.map(entry => `${entry.category.id}:${entry.percent}`).join(',');
+  useEffect(() => {
+    if (!currentUser || loading || budgetProgress.length === 0) return;
+
+    BudgetService.checkAlerts(currentUser.uid, budgetProgress).then(async (alerts) => {
+      alerts.forEach(alert => {
+        const { title, message } = BudgetService.describeAlert(alert);
+        showNotification(title, message, alert.threshold >= 100 ? 'error' : 'warning');
+      });
+      await BudgetService.notify(alerts);
+    }).catch((error) => {
+      console.error('Budget alert error:', error);
+    });
+  }, [currentUser, loading, budgetProgressKey]);
+
   // Check for urgent expenses and show notifications
   const checkForUrgentExpenses = (expensesList: Expense[]) => {
     const now = new Date();
@@ -249,30 +345,127 @@ export default function ExpenseScreen() {
   };
 
   const addPerson = () => {
-    const newId = (people.length + 1).toString();
-    setPeople([...people, { id: newId, name: '', amount: '', paid: false }]);
+    // Unique even after removals, since split weights and items refer to people by id
+    const newId = Date.now().toString();
+    setPeople([...people, { id: newId, name: '', amount: '', payments: [], paid: false }]);
+  };
+
+  // Your own share, for bills someone else paid or that you're part of
+  const addSelf = () => {
+    setPeople([...people, { id: Date.now().toString(), name: 'You', isSelf: true, amount: '', payments: [], paid: false }]);
   };
 
   const removePerson = (id: string) => {
+    if (paidBy === id) setPaidBy(null);
     setPeople(people.filter(person => person.id !== id));
+    setLineItems(lineItems.map(item => ({ ...item, personIds: item.personIds.filter(personId => personId !== id) })));
   };
 
   const updatePerson = (id: string, field: 'name' | 'amount', value: string) => {
-    setPeople(people.map(person => 
-      person.id === id ? { ...person, [field]: value } : person
+    setPeople(people.map(person => {
+      if (person.id !== id) return person;
+      // A typed name no longer points at the picked contact; it's matched again on save
+      return field === 'name' ? { ...person, name: value, contactId: undefined } : { ...person, [field]: value };
+    }));
+  };
+
+  const selectContact = (id: string, contact: Contact) => {
+    setPeople(people.map(person =>
+      person.id === id ? { ...person, name: contact.name, contactId: contact.id } : person
     ));
+    setFocusedPersonId(null);
   };
 
-  const splitAmountEqually = () => {
-    if (!totalAmount.trim() || people.length === 0) return;
-    
-    const total = parseFloat(totalAmount);
-    if (isNaN(total)) return;
-    
-    const amountPerPerson = (total / people.length).toFixed(2);
-    setPeople(people.map(person => ({ ...person, amount: amountPerPerson })));
+  // Load the split form from a saved split, or clear it
+  const resetSplit = (split?: ExpenseSplit) => {
+    setSplitMode(split?.mode ?? 'exact');
+    const weights: { [personId: string]: string } = {};
+    Object.entries(split?.weights ?? {}).forEach(([personId, weight]) => { weights[personId] = String(weight); });
+    setSplitWeights(weights);
+    setLineItems((split?.items ?? []).map(item => ({ ...item, amount: MoneyService.toInput(item.amount) })));
+    setTaxAmount(split?.tax && !MoneyService.isZero(split.tax) ? MoneyService.toInput(split.tax) : '');
+    setTipAmount(split?.tip && !MoneyService.isZero(split.tip) ? MoneyService.toInput(split.tip) : '');
+  };
+
+  const addLineItem = () => {
+    const namedIds = people.filter(person => person.name.trim()).map(person => person.id);
+    setLineItems([...lineItems, { id: Date.now().toString(), description: '', amount: '', personIds: namedIds }]);
+  };
+
+  const updateLineItem = (id: string, changes: Partial<LineItemInput>) => {
+    setLineItems(lineItems.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const toggleLineItemPerson = (item: LineItemInput, personId: string) => {
+    const personIds = item.personIds.includes(personId)
+      ? item.personIds.filter(id => id !== personId)
+      : [...item.personIds, personId];
+    updateLineItem(item.id, { personIds });
+  };
+
+  const parseAmount = (input: string) =>
+    input.trim() ? MoneyService.parse(input, expenseCurrency) : MoneyService.zero(expenseCurrency);
+
+  // The split as entered, with typed numbers parsed (unreadable ones count as zero)
+  const buildSplit = (): ExpenseSplit => {
+    const split: ExpenseSplit = { mode: splitMode };
+    if (splitMode === 'percentage' || splitMode === 'shares') {
+      split.weights = {};
+      people.filter(person => person.name.trim()).forEach(person => {
+        split.weights![person.id] = parseFloat((splitWeights[person.id] || '0').replace(',', '.')) || 0;
+      });
+    }
+    if (splitMode === 'itemized') {
+      split.items = lineItems.map(item => ({
+        ...item,
+        description: item.description.trim(),
+        amount: parseAmount(item.amount) ?? MoneyService.zero(expenseCurrency),
+      }));
+      split.tax = parseAmount(taxAmount) ?? MoneyService.zero(expenseCurrency);
+      split.tip = parseAmount(tipAmount) ?? MoneyService.zero(expenseCurrency);
+    }
+    return split;
+  };
+
+  const computeSplit = (total: Money): SplitResult => {
+    const namedPeople = people.filter(person => person.name.trim());
+    const exactAmounts: { [personId: string]: Money } = {};
+    namedPeople.forEach(person => {
+      exactAmounts[person.id] = parseAmount(person.amount) ?? MoneyService.zero(expenseCurrency);
+    });
+    return SplitService.compute(total, namedPeople.map(person => person.id), buildSplit(), exactAmounts);
+  };
+
+  // Work out each person's amount for saving; shows why and returns null if the split doesn't balance
+  const resolveSplit = (total: Money): { people: Person[]; split: ExpenseSplit | null } | null => {
+    const namedPeople = people.filter(person => person.name.trim());
+    if (namedPeople.length === 0) {
+      return { people: [], split: null };
+    }
+
+    const unreadable = splitMode === 'exact'
+      ? namedPeople.find(person => !parseAmount(person.amount))
+      : splitMode === 'itemized' ? lineItems.find(item => !parseAmount(item.amount)) : undefined;
+    if (unreadable || (splitMode === 'itemized' && (!parseAmount(taxAmount) || !parseAmount(tipAmount)))) {
+      showNotification('Invalid Amount', 'Please enter amounts as numbers, e.g. 12.50', 'error');
+      return null;
+    }
+
+    const result = computeSplit(total);
+    if (result.error) {
+      showNotification('Split Doesn\'t Balance', result.error, 'error');
+      return null;
+    }
+    return {
+      people: namedPeople.map(person => ({ ...person, amount: result.amounts[person.id] })),
+      split: buildSplit(),
+    };
   };
 
+  // The chosen payer, if they're still on the expense; otherwise you paid
+  const payerIdFor = (namedPeople: { id: string }[]): string | null =>
+    paidBy && namedPeople.some(person => person.id === paidBy) ? paidBy : null;
+
   const openAddModal = async () => {
     // Check if there's a draft
     try {
@@ -303,9 +496,24 @@ export default function ExpenseScreen() {
           setTitle(draft.title || '');
           setTotalAmount(draft.totalAmount || '');
           setDescription(draft.description || '');
+          setSpentOn(draft.spentOn ? new Date(draft.spentOn) : new Date());
           setDueDate(draft.dueDate ? new Date(draft.dueDate) : null);
           setDueTime(draft.dueTime ? new Date(draft.dueTime) : null);
-          setPeople(draft.people || [{ id: '1', name: '', amount: '', paid: false }]);
+          // Drafts are only kept for new expenses, which have no payments yet
+          setPeople(draft.people
+            ? draft.people.map((person: PersonInput) => ({ ...person, payments: [], paid: false }))
+            : [{ id: '1', name: '', amount: '', payments: [], paid: false }]);
+          setPaidBy(draft.paidBy || null);
+          setCategoryId(draft.categoryId || null);
+          setExpenseCurrency(draft.currency || homeCurrency);
+          setSplitMode(draft.splitMode || 'exact');
+          setSplitWeights(draft.splitWeights || {});
+          setLineItems(draft.lineItems || []);
+          setTaxAmount(draft.taxAmount || '');
+          setTipAmount(draft.tipAmount || '');
+          setRepeatPeriod(draft.repeatPeriod || null);
+          setRepeatEndDate(draft.repeatEndDate ? new Date(draft.repeatEndDate) : null);
+          setShowRepeatEndPicker(false);
           setShowDatePicker(false);
           setEditingExpense(null);
           setDraftRestored(true);
@@ -320,9 +528,18 @@ export default function ExpenseScreen() {
     setTitle('');
     setTotalAmount('');
     setDescription('');
+    setSpentOn(new Date());
+    setShowSpentOnPicker(false);
     setDueDate(null);
     setDueTime(null);
-    setPeople([{ id: '1', name: '', amount: '', paid: false }]);
+    setPeople([{ id: '1', name: '', amount: '', payments: [], paid: false }]);
+    setPaidBy(null);
+    setCategoryId(null);
+    setExpenseCurrency(homeCurrency);
+    resetSplit();
+    setRepeatPeriod(null);
+    setRepeatEndDate(null);
+    setShowRepeatEndPicker(false);
     setShowDatePicker(false);
     setEditingExpense(null);
     setDraftRestored(false);
@@ -331,8 +548,11 @@ export default function ExpenseScreen() {
 
   const openEditModal = (expense: Expense) => {
     setTitle(expense.title);
-    setTotalAmount(expense.totalAmount.toString());
+    setTotalAmount(MoneyService.toInput(expense.totalAmount));
+    setExpenseCurrency(expense.totalAmount.currency);
     setDescription(expense.description || '');
+    setSpentOn(expense.spentOn);
+    setShowSpentOnPicker(false);
     setDueDate(expense.dueDate || null);
     // Extract time from dueDate if it exists
     if (expense.dueDate) {
@@ -345,63 +565,125 @@ export default function ExpenseScreen() {
     } else {
       setDueTime(null);
     }
-    // Ensure all people have paid property
-    const peopleWithPaid = expense.people.map(person => ({
-      ...person,
-      paid: person.paid !== undefined ? person.paid : false
-    }));
-    setPeople(peopleWithPaid.length > 0 ? peopleWithPaid : [{ id: '1', name: '', amount: '', paid: false }]);
+    const personInputs = toPersonInputs(expense.people);
+    setPeople(personInputs.length > 0 ? personInputs : [{ id: '1', name: '', amount: '', payments: [], paid: false }]);
+    setPaidBy(expense.paidBy ?? null);
+    setCategoryId(expense.categoryId ?? null);
+    resetSplit(expense.split);
+    setRepeatPeriod(expense.recurrence ? expense.recurrence.rule.frequency as ExpensePeriod : null);
+    setRepeatEndDate(expense.recurrence?.endDate || null);
+    setShowRepeatEndPicker(false);
     setShowDatePicker(false);
     setShowTimePicker(false);
     setEditingExpense(expense);
     setModalVisible(true);
   };
 
-  const handleTogglePriority = async (id: string, priority: boolean) => {
+  const handleSetPriority = async (id: string, priority: Priority) => {
     try {
-      await updateDoc(doc(db, 'expenses', id), {
+      await expenseRepository.update(id, {
         priority,
         updatedAt: new Date(),
-      });
+      }, expenses.find(e => e.id === id));
     } catch (error: any) {
       showNotification('Update Failed', 'Failed to update priority', 'error');
     }
   };
 
-  const handleTogglePayerPaid = async (expenseId: string, expense: Expense, payerId: string) => {
+  const updateFilter = (changes: Partial<ExpenseFilter>) => {
+    setFilter(current => ({ ...current, ...changes }));
+  };
+
+  const openFilterModal = () => {
+    setMinAmountInput(filter.minAmount ? MoneyService.toInput(filter.minAmount) : '');
+    setMaxAmountInput(filter.maxAmount ? MoneyService.toInput(filter.maxAmount) : '');
+    setShowFilterFromPicker(false);
+    setShowFilterToPicker(false);
+    setFilterModalVisible(true);
+  };
+
+  // Amount bounds are typed in the home currency; an empty or unreadable bound is no bound
+  const updateAmountBound = (bound: 'minAmount' | 'maxAmount', input: string) => {
+    (bound === 'minAmount' ? setMinAmountInput : setMaxAmountInput)(input);
+    updateFilter({ [bound]: (input.trim() && MoneyService.parse(input, homeCurrency)) || undefined });
+  };
+
+  // Keep the search text, clear everything else
+  const clearFilters = () => {
+    setFilter(current => ({ ...DEFAULT_EXPENSE_FILTER, query: current.query }));
+    setMinAmountInput('');
+    setMaxAmountInput('');
+  };
+
+  const openPaymentModal = (expenseId: string, personId: string) => {
+    setPaymentTarget({ expenseId, personId });
+    setPaymentAmount('');
+    setPaymentMethod('cash');
+    setPaymentNote('');
+    setPaymentDate(new Date());
+    setShowPaymentDatePicker(false);
+  };
+
+  // Record a payment towards someone's share; `inFull` pays whatever is left
+  const handleRecordPayment = async (inFull: boolean) => {
+    if (!paymentExpense || !paymentPerson) return;
+
+    const remaining = PaymentService.remaining(paymentPerson);
+    const amount = inFull ? remaining : MoneyService.parse(paymentAmount, remaining.currency);
+    if (!amount || amount.minorUnits <= 0) {
+      showNotification('Invalid Amount', 'Please enter the payment as a number, e.g. 12.50', 'error');
+      return;
+    }
+    if (amount.minorUnits > remaining.minorUnits) {
+      showNotification('Invalid Amount', `${paymentPerson.name} only has ${MoneyService.format(remaining)} left to pay`, 'error');
+      return;
+    }
+
+    const payment: Payment = { id: PaymentService.createPaymentId(), amount, paidAt: paymentDate, method: paymentMethod };
+    if (paymentNote.trim()) payment.note = paymentNote.trim();
+
     try {
-      const updatedPeople = expense.people.map(person => 
-        person.id === payerId 
-          ? { ...person, paid: !person.paid }
-          : person
-      );
-      
-      // Check if all payers have paid
-      const allPaid = updatedPeople.every(person => person.paid);
-      
-      await updateDoc(doc(db, 'expenses', expenseId), {
-        people: updatedPeople,
-        settled: allPaid,
-        updatedAt: new Date(),
-      });
+      await PaymentService.recordPayment(paymentExpense, paymentPerson.id, payment);
+      setPaymentAmount('');
+      setPaymentNote('');
+      if (MoneyService.equals(amount, remaining)) {
+        setPaymentTarget(null);
+      }
+    } catch (error: any) {
+      showNotification('Update Failed', 'Failed to record payment', 'error');
+    }
+  };
+
+  const handleRemovePayment = async (paymentId: string) => {
+    if (!paymentExpense || !paymentPerson) return;
+    try {
+      await PaymentService.removePayment(paymentExpense, paymentPerson.id, paymentId);
     } catch (error: any) {
-      showNotification('Update Failed', 'Failed to update payment status', 'error');
+      showNotification('Update Failed', 'Failed to remove payment', 'error');
     }
   };
 
   const handleToggleSettled = async (id: string, settled: boolean, expense: Expense) => {
     try {
-      // When toggling the main checkbox, update all people's paid status
-      const updatedPeople = expense.people.map(person => ({
-        ...person,
-        paid: settled
-      }));
-      
-      await updateDoc(doc(db, 'expenses', id), {
+      // Settling records whatever each person has left as paid; unsettling takes back only those
+      // payments, so payments recorded by hand aren't lost
+      const debtors = PaymentService.debtorsOf(expense.people, expense.paidBy);
+      const updatedPeople = expense.people.map(person => {
+        if (!settled) return PaymentService.withoutSettlingPayments(person);
+        return debtors.includes(person) ? PaymentService.payBySettling(person) : person;
+      });
+
+      if (!settled && debtors.length > 0 && PaymentService.debtorsOf(updatedPeople, expense.paidBy).every(person => person.paid)) {
+        showNotification('Still Paid in Full', 'Everyone has paid their share. Remove a payment to reopen this expense.', 'info');
+        return;
+      }
+
+      await expenseRepository.update(id, {
         settled,
+        settledAt: settled ? new Date() : null,
         people: updatedPeople,
         updatedAt: new Date(),
-      });
+      }, expense);
     } catch (error: any) {
       showNotification('Update Failed', 'Failed to update settled status', 'error');
     }
@@ -413,7 +695,14 @@ export default function ExpenseScreen() {
       return;
     }
 
-    const validPeople = people.filter(person => person.name.trim());
+    const total = MoneyService.parse(totalAmount, expenseCurrency);
+    if (!total) {
+      showNotification('Invalid Amount', 'Please enter the total as a number, e.g. 12.50', 'error');
+      return;
+    }
+
+    const resolved = resolveSplit(total);
+    if (!resolved) return;
 
     try {
       // Combine date and time if both are set
@@ -423,14 +712,26 @@ export default function ExpenseScreen() {
         finalDueDate.setHours(dueTime.getHours(), dueTime.getMinutes(), 0, 0);
       }
 
-      await addDoc(collection(db, 'expenses'), {
+      const linkedPeople = currentUser
+        ? await ContactService.linkPeople(currentUser.uid, resolved.people, contacts)
+        : resolved.people;
+
+      await expenseRepository.add({
         title: title.trim(),
-        totalAmount: parseFloat(totalAmount),
-        people: validPeople,
+        totalAmount: total,
+        people: linkedPeople,
+        paidBy: payerIdFor(resolved.people),
+        categoryId,
+        split: resolved.split,
+        spentOn,
         dueDate: finalDueDate || null,
         description: description.trim(),
-        priority: false,
+        priority: 'none',
         settled: false,
+        // This expense is the first bill; the next one is generated a period after its due date
+        recurrence: repeatPeriod
+          ? RecurringExpenseService.createRecurrence(repeatPeriod, finalDueDate || new Date(), repeatEndDate)
+          : null,
         createdAt: new Date(),
         updatedAt: new Date(),
         userId: currentUser?.uid,
@@ -438,9 +739,15 @@ export default function ExpenseScreen() {
       setTitle('');
       setTotalAmount('');
       setDescription('');
+      setSpentOn(new Date());
       setDueDate(null);
       setDueTime(null);
-      setPeople([{ id: '1', name: '', amount: '', paid: false }]);
+      setPeople([{ id: '1', name: '', amount: '', payments: [], paid: false }]);
+      setPaidBy(null);
+      setCategoryId(null);
+      resetSplit();
+      setRepeatPeriod(null);
+      setRepeatEndDate(null);
       setModalVisible(false);
       await clearDraft(); // Clear draft after successful save
     } catch (error: any) {
@@ -454,7 +761,14 @@ export default function ExpenseScreen() {
       return;
     }
 
-    const validPeople = people.filter(person => person.name.trim());
+    const total = MoneyService.parse(totalAmount, expenseCurrency);
+    if (!total) {
+      showNotification('Invalid Amount', 'Please enter the total as a number, e.g. 12.50', 'error');
+      return;
+    }
+
+    const resolved = resolveSplit(total);
+    if (!resolved) return;
 
     try {
       // Combine date and time if both are set
@@ -464,20 +778,57 @@ export default function ExpenseScreen() {
         finalDueDate.setHours(dueTime.getHours(), dueTime.getMinutes(), 0, 0);
       }
 
-      await updateDoc(doc(db, 'expenses', editingExpense.id), {
+      // Keep the existing schedule unless the period changed; a new period starts from the next future cycle
+      let recurrence: ExpenseRecurrence | null = null;
+      if (repeatPeriod) {
+        const existing = editingExpense.recurrence;
+        if (existing && existing.rule.frequency === repeatPeriod) {
+          recurrence = { ...existing, endDate: repeatEndDate };
+        } else {
+          const base = finalDueDate || editingExpense.createdAt;
+          const rule = RecurrenceService.createRule(repeatPeriod, base);
+          recurrence = { rule, endDate: repeatEndDate, nextOccurrence: RecurrenceService.getNextFutureOccurrence(rule, base) };
+        }
+      }
+
+      const linkedPeople = currentUser
+        ? await ContactService.linkPeople(currentUser.uid, resolved.people, contacts)
+        : resolved.people;
+      // Shares may have changed, so check again who has paid theirs off. Payments in the old
+      // currency no longer apply once the currency changes.
+      const currencyChanged = total.currency !== editingExpense.totalAmount.currency;
+      const payerId = payerIdFor(resolved.people);
+      const settlement = PaymentService.settlement(
+        linkedPeople.map(person => currencyChanged ? PaymentService.clearPayments(person) : PaymentService.refresh(person)),
+        editingExpense,
+        payerId
+      );
+
+      await expenseRepository.update(editingExpense.id, {
         title: title.trim(),
-        totalAmount: parseFloat(totalAmount),
-        people: validPeople,
+        totalAmount: total,
+        ...settlement,
+        paidBy: payerId,
+        categoryId,
+        split: resolved.split,
+        spentOn,
         dueDate: finalDueDate || null,
         description: description.trim(),
+        recurrence,
         updatedAt: new Date(),
-      });
+      }, editingExpense);
       setTitle('');
       setTotalAmount('');
       setDescription('');
+      setSpentOn(new Date());
       setDueDate(null);
       setDueTime(null);
-      setPeople([{ id: '1', name: '', amount: '', paid: false }]);
+      setPeople([{ id: '1', name: '', amount: '', payments: [], paid: false }]);
+      setPaidBy(null);
+      setCategoryId(null);
+      resetSplit();
+      setRepeatPeriod(null);
+      setRepeatEndDate(null);
       setEditingExpense(null);
       setModalVisible(false);
       await clearDraft(); // Clear draft after successful save
@@ -493,11 +844,21 @@ export default function ExpenseScreen() {
     }
   };
 
+  // Remove an expense that couldn't be read
+  const handleDeleteInvalidExpense = async (id: string) => {
+    try {
+      await expenseRepository.remove(id);
+      showNotification('Deleted', 'Damaged expense removed', 'success');
+    } catch (error: any) {
+      showNotification('Delete Failed', 'Failed to delete expense', 'error');
+    }
+  };
+
   const confirmDeleteExpense = async () => {
     if (!deleteConfirm) return;
     
     try {
-      await deleteDoc(doc(db, 'expenses', deleteConfirm.id));
+      await expenseRepository.remove(deleteConfirm.id);
       showNotification('Deleted', 'Expense removed successfully', 'success');
       setDeleteConfirm(null);
     } catch (error: any) {
@@ -515,20 +876,39 @@ export default function ExpenseScreen() {
     }
   };
 
-  // Calculate total amount owed to user
-  const totalOwedAmount = expenses.reduce((sum, expense) => 
-    sum + expense.people.reduce((peopleSum, person) => 
-      peopleSum + (parseFloat(person.amount) || 0), 0
-    ), 0
-  );
+  // Recurring series that will generate more bills, soonest first
+  const upcomingBills = expenses
+    .filter(expense => expense.recurrence && RecurringExpenseService.isActive(expense.recurrence))
+    .sort((a, b) => a.recurrence!.nextOccurrence.getTime() - b.recurrence!.nextOccurrence.getTime());
+
+  // What others owe you and what you owe others, in the home currency
+  const balanceSummary = BalanceService.computeBalances(expenses, homeCurrency, toHome);
 
   // Calculate this month's expenses
-  const thisMonthExpenses = expenses.filter(expense => {
-    const expenseDate = new Date(expense.createdAt);
+  const thisMonth = totalInHome(expenses.filter(expense => {
+    const expenseDate = new Date(expense.spentOn);
     const now = new Date();
     return expenseDate.getMonth() === now.getMonth() && 
            expenseDate.getFullYear() === now.getFullYear();
-  }).reduce((sum, expense) => sum + expense.totalAmount, 0);
+  }).map(expense => ({ amount: expense.totalAmount, date: expense.spentOn })));
+
+  const missingRates = [...new Set([...balanceSummary.missingCurrencies, ...thisMonth.missingCurrencies])];
+
+  // The list as searched, filtered and sorted
+  const visibleExpenses = ExpenseFilterService.apply(expenses, filter, toHome);
+  const activeFilterCount = ExpenseFilterService.activeCount(filter);
+
+  // Currencies offered in the form, with the home currency and the current choice first
+  const currencyOptions = [...new Set([homeCurrency, expenseCurrency, ...COMMON_CURRENCIES])];
+
+  // Live check of the split while the form is open
+  const namedPeople = people.filter(person => person.name.trim());
+  const previewTotal = modalVisible ? MoneyService.parse(totalAmount, expenseCurrency) : null;
+  const splitPreview = previewTotal && namedPeople.length > 0 ? computeSplit(previewTotal) : null;
+
+  // The share the payment modal is open for, kept current as payments sync
+  const paymentExpense = paymentTarget ? expenses.find(expense => expense.id === paymentTarget.expenseId) : undefined;
+  const paymentPerson = paymentExpense?.people.find(person => person.id === paymentTarget?.personId);
 
 
 
@@ -551,27 +931,60 @@ export default function ExpenseScreen() {
         <View style={styles.contentArea}>
           <View style={styles.statsContainer}>
             <View style={styles.statItem}>
-              <Text style={[styles.statNumber, dynamicStyles.statNumber]}>${Math.round(thisMonthExpenses)}</Text>
+              <Text style={[styles.statNumber, dynamicStyles.statNumber]}>{MoneyService.format(thisMonth.total, { wholeUnits: true })}</Text>
               <Text style={[styles.statLabel, dynamicStyles.statLabel]}>Spent This Month</Text>
             </View>
-            <View style={styles.statItem}>
-              <Text style={[styles.statNumber, dynamicStyles.statNumber]}>${Math.round(totalOwedAmount)}</Text>
-              <Text style={[styles.statLabel, dynamicStyles.statLabel]}>Left to Receive</Text>
-            </View>
+            <TouchableOpacity style={styles.statItem} onPress={() => navigation.navigate('Balances')}>
+              <Text style={[styles.statNumber, dynamicStyles.statNumber]}>{MoneyService.format(balanceSummary.owedToYou, { wholeUnits: true })}</Text>
+              <Text style={[styles.statLabel, dynamicStyles.statLabel]}>Left to Receive ›</Text>
+              {!MoneyService.isZero(balanceSummary.youOwe) && (
+                <Text style={[styles.youOweText, dynamicStyles.statLabel]}>
+                  You owe {MoneyService.format(balanceSummary.youOwe, { wholeUnits: true })}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+          {missingRates.length > 0 && (
+            <Text style={[styles.missingRatesText, dynamicStyles.statLabel]}>
+              ⚠️ No exchange rate for {missingRates.join(', ')} - those amounts aren't in the totals
+            </Text>
+          )}
+
+
+
+          <View style={styles.searchRow}>
+            <TextInput
+              style={[styles.searchInput, dynamicStyles.modalInput]}
+              placeholder="🔍 Search title, notes or people"
+              placeholderTextColor="#8B7BA8"
+              value={filter.query}
+              onChangeText={(query) => updateFilter({ query })}
+              clearButtonMode="while-editing"
+            />
+            <TouchableOpacity
+              style={[styles.filterButton, (activeFilterCount > 0 || filter.sort !== DEFAULT_EXPENSE_FILTER.sort) && styles.filterButtonActive]}
+              onPress={openFilterModal}
+            >
+              <Text style={[styles.filterButtonText, dynamicStyles.statLabel]}>
+                ⚙️ Filter{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+              </Text>
+            </TouchableOpacity>
           </View>
-
-
 
           <FlatList
-            data={expenses}
+            data={visibleExpenses}
             renderItem={({ item }) => (
-              <View style={[styles.expenseItem, item.priority && styles.expenseItemPriority]}>
+              <View style={[
+                styles.expenseItem,
+                item.priority !== 'none' && [styles.expenseItemPriority, { borderLeftColor: PriorityService.color(item.priority) }],
+              ]}>
                 <TouchableOpacity 
-                  onPress={() => handleTogglePriority(item.id, !item.priority)} 
-                  style={[styles.priorityButton, item.priority && styles.priorityButtonActive]}
+                  onPress={() => handleSetPriority(item.id, PriorityService.next(item.priority))} 
+                  style={[styles.priorityButton, item.priority !== 'none' && styles.priorityButtonActive]}
+                  accessibilityLabel={`Priority: ${PRIORITY_LABELS[item.priority]}`}
                 >
-                  <Text style={[styles.priorityButtonText, item.priority && styles.priorityButtonTextActive, { fontSize: 20 * fontScale }]}>
-                    {item.priority ? '★' : '☆'}
+                  <Text style={[styles.priorityButtonText, { color: PriorityService.color(item.priority), fontSize: 20 * fontScale }]}>
+                    {PriorityService.symbol(item.priority)}
                   </Text>
                 </TouchableOpacity>
                 <View style={styles.expenseHeader}>
@@ -584,32 +997,72 @@ export default function ExpenseScreen() {
                     </View>
                     <View style={styles.expenseTextContainer}>
                       <Text style={[styles.expenseTitle, item.settled && styles.expenseTitleSettled, dynamicStyles.expenseTitle]}>{item.title}</Text>
-                      <Text style={[styles.expenseAmount, item.settled && styles.expenseAmountSettled, dynamicStyles.expenseTotal]}>${item.totalAmount.toFixed(2)}</Text>
+                      <Text style={[styles.expenseAmount, item.settled && styles.expenseAmountSettled, dynamicStyles.expenseTotal]}>{MoneyService.format(item.totalAmount)}</Text>
+                      {item.totalAmount.currency !== homeCurrency && (() => {
+                        const converted = toHome(item.totalAmount, item.spentOn);
+                        return (
+                          <Text style={[styles.convertedAmount, dynamicStyles.dueDateText]}>
+                            {converted ? `≈ ${MoneyService.format(converted)}` : `No ${item.totalAmount.currency} rate`}
+                          </Text>
+                        );
+                      })()}
+                      {(() => {
+                        const category = CategoryService.find(categories, item.categoryId);
+                        return (
+                          <Text style={[styles.recurrenceText, dynamicStyles.dueDateText]}>
+                            🧾 {item.spentOn.toLocaleDateString()}
+                            {category ? ` · ${category.icon} ${category.name}` : ''}
+                          </Text>
+                        );
+                      })()}
                       {item.description && (
                         <Text style={[styles.expenseDescription, item.settled && styles.expenseDescriptionSettled, dynamicStyles.expenseDescription]}>{item.description}</Text>
                       )}
+                      {item.recurrence && (
+                        <Text style={[styles.recurrenceText, dynamicStyles.dueDateText]}>
+                          🔁 {RecurrenceService.describe(item.recurrence.rule)}
+                          {item.recurrence.endDate ? ` until ${item.recurrence.endDate.toLocaleDateString()}` : ''}
+                        </Text>
+                      )}
+                      {item.recurringSourceId && (
+                        <Text style={[styles.recurrenceText, dynamicStyles.dueDateText]}>🔁 Recurring bill</Text>
+                      )}
                       <View style={styles.expensePeople}>
-                        {item.people.map((person, index) => (
-                          <View key={index} style={styles.personRowWithCheckbox}>
-                            <Text style={[styles.personText, person.paid && styles.personTextPaid, dynamicStyles.personAmount]}>
-                              {person.name}: ${person.amount}
-                            </Text>
-                            <TouchableOpacity 
-                              onPress={() => handleTogglePayerPaid(item.id, item, person.id)}
-                              style={styles.personCheckboxButton}
-                            >
-                              <View style={[styles.personCheckbox, person.paid && styles.checkboxSettled]}>
-                                {person.paid && <Text style={{ fontSize: 14 * fontScale }}>✓</Text>}
-                              </View>
-                            </TouchableOpacity>
-                          </View>
-                        ))}
+                        {item.people.map((person, index) => {
+                          const isPayer = PaymentService.payerOf(item.people, item.paidBy) === person;
+                          return (
+                            <View key={index} style={styles.personRowWithCheckbox}>
+                              <Text style={[styles.personText, (person.paid || isPayer) && styles.personTextPaid, dynamicStyles.personAmount]}>
+                                {person.name}: {MoneyService.format(person.amount)}
+                                {isPayer && ' · paid the bill'}
+                                {!isPayer && !person.paid && person.payments.length > 0 && ` · ${MoneyService.format(PaymentService.remaining(person))} left`}
+                              </Text>
+                              {isPayer ? (
+                                <Text style={[styles.payerBadge, { fontSize: 14 * fontScale }]}>💳</Text>
+                              ) : (
+                                <TouchableOpacity 
+                                  onPress={() => openPaymentModal(item.id, person.id)}
+                                  style={styles.personCheckboxButton}
+                                >
+                                  <View style={[styles.personCheckbox, person.paid && styles.checkboxSettled]}>
+                                    {person.paid && <Text style={{ fontSize: 14 * fontScale }}>✓</Text>}
+                                  </View>
+                                </TouchableOpacity>
+                              )}
+                            </View>
+                          );
+                        })}
                       </View>
                     </View>
                   </TouchableOpacity>
                 </View>
                 <View style={styles.expenseActions}>
                   <View style={styles.actionButtons}>
+                    {isPending('expenses', item.id) && (
+                      <View style={styles.pendingBadge}>
+                        <Text style={[styles.pendingBadgeText, { fontSize: 11 * fontScale }]}>⏳ Pending sync</Text>
+                      </View>
+                    )}
                     {item.dueDate && !item.settled && (() => {
                       const due = new Date(item.dueDate);
                       const today = new Date();
@@ -639,14 +1092,76 @@ export default function ExpenseScreen() {
                 </View>
               </View>
             )}
+            ListHeaderComponent={
+              <>
+                <NeedsRepairBanner items={invalidExpenses} itemLabel="expense" onDelete={handleDeleteInvalidExpense} />
+                {budgetProgress.length > 0 && (
+                  <TouchableOpacity style={styles.upcomingSection} onPress={() => navigation.navigate('Categories')}>
+                    <Text style={[styles.upcomingTitle, dynamicStyles.upcomingTitle]}>📊 Budgets This Month ›</Text>
+                    {budgetProgress.map(({ category, spent, budget, percent }) => (
+                      <View key={category.id} style={styles.budgetRow}>
+                        <View style={styles.budgetLabels}>
+                          <Text style={[styles.upcomingBillTitle, dynamicStyles.upcomingBillTitle]}>{category.icon} {category.name}</Text>
+                          <Text style={[styles.upcomingBillDetails, dynamicStyles.upcomingBillDetails, percent >= 100 && styles.budgetOverText]}>
+                            {MoneyService.format(spent, { wholeUnits: true })} of {MoneyService.format(budget, { wholeUnits: true })}
+                          </Text>
+                        </View>
+                        <View style={styles.budgetTrack}>
+                          <View
+                            style={[
+                              styles.budgetFill,
+                              { width: `${Math.min(percent, 100)}%` },
+                              percent >= 80 && styles.budgetFillWarning,
+                              percent >= 100 && styles.budgetFillOver,
+                            ]}
+                          />
+                        </View>
+                      </View>
+                    ))}
+                  </TouchableOpacity>
+                )}
+                {upcomingBills.length > 0 ? (
+                  <View style={styles.upcomingSection}>
+                    <Text style={[styles.upcomingTitle, dynamicStyles.upcomingTitle]}>🔁 Upcoming Bills</Text>
+                    {upcomingBills.map((bill) => (
+                      <TouchableOpacity key={bill.id} style={styles.upcomingRow} onPress={() => openEditModal(bill)}>
+                        <View style={styles.upcomingInfo}>
+                          <Text style={[styles.upcomingBillTitle, dynamicStyles.upcomingBillTitle]}>{bill.title}</Text>
+                          <Text style={[styles.upcomingBillDetails, dynamicStyles.upcomingBillDetails]}>
+                            {RecurrenceService.describe(bill.recurrence!.rule)} · next {bill.recurrence!.nextOccurrence.toLocaleDateString()}
+                          </Text>
+                        </View>
+                        <Text style={[styles.upcomingBillAmount, dynamicStyles.upcomingBillTitle]}>{MoneyService.format(bill.totalAmount)}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                ) : null}
+              </>
+            }
             keyExtractor={(item) => item.id}
             style={styles.expenseList}
-            contentContainerStyle={expenses.length === 0 ? styles.emptyListContainer : undefined}
+            contentContainerStyle={visibleExpenses.length === 0 ? styles.emptyListContainer : undefined}
             ListEmptyComponent={
-              <View style={styles.emptyContainer}>
-                <Text style={[styles.emptyTitle, dynamicStyles.emptyTitle]}>No expenses to chase yet!</Text>
-                <Text style={[styles.emptyDescription, dynamicStyles.emptyDescription]}>Add one and start tracking your spending</Text>
-              </View>
+              expenses.length > 0 ? (
+                <View style={styles.emptyContainer}>
+                  <Text style={[styles.emptyTitle, dynamicStyles.emptyTitle]}>No matching expenses</Text>
+                  <Text style={[styles.emptyDescription, dynamicStyles.emptyDescription]}>Try a different search or filter</Text>
+                  <TouchableOpacity
+                    style={styles.clearFiltersButton}
+                    onPress={() => {
+                      clearFilters();
+                      updateFilter({ query: '' });
+                    }}
+                  >
+                    <Text style={styles.clearFiltersText}>Clear Search & Filters</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <View style={styles.emptyContainer}>
+                  <Text style={[styles.emptyTitle, dynamicStyles.emptyTitle]}>No expenses to chase yet!</Text>
+                  <Text style={[styles.emptyDescription, dynamicStyles.emptyDescription]}>Add one and start tracking your spending</Text>
+                </View>
+              )
             }
           />
 
@@ -701,52 +1216,285 @@ export default function ExpenseScreen() {
 
                   <TextInput
                     style={[styles.modalInput, dynamicStyles.modalInput]}
-                    placeholder="Total amount ($)"
+                    placeholder={`Total amount (${expenseCurrency})`}
                     placeholderTextColor="#8B7BA8"
                     value={totalAmount}
                     onChangeText={setTotalAmount}
                     keyboardType="numeric"
                   />
 
-                  <Text style={[styles.sectionLabel, dynamicStyles.sectionTitle]}>Who owes you money?</Text>
-                  
-                  {people.map((person, index) => (
-                    <View key={person.id} style={styles.personContainer}>
-                      <TextInput
-                        style={[styles.modalInput, styles.personNameInput]}
-                        placeholder="Name"
-                        placeholderTextColor="#8B7BA8"
-                        value={person.name}
-                        onChangeText={(value) => updatePerson(person.id, 'name', value)}
-                      />
-                      <TextInput
-                        style={[styles.modalInput, styles.personAmountInput]}
-                        placeholder="Amount"
-                        placeholderTextColor="#8B7BA8"
-                        value={person.amount}
-                        onChangeText={(value) => updatePerson(person.id, 'amount', value)}
-                        keyboardType="numeric"
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.currencyRow}>
+                    {currencyOptions.map((code) => {
+                      const selected = expenseCurrency === code;
+                      return (
+                        <TouchableOpacity
+                          key={code}
+                          style={[styles.chip, selected && styles.chipSelected]}
+                          onPress={() => setExpenseCurrency(code)}
+                        >
+                          <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{code}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </ScrollView>
+
+                  <TouchableOpacity
+                    style={styles.datePickerButton}
+                    onPress={() => setShowSpentOnPicker(true)}
+                  >
+                    <Text style={styles.datePickerButtonText}>🧾 Spent on {spentOn.toLocaleDateString()}</Text>
+                  </TouchableOpacity>
+
+                  {showSpentOnPicker && (
+                    <View style={styles.datePickerContainer}>
+                      <DateTimePicker
+                        value={spentOn}
+                        mode="date"
+                        display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                        onChange={(event: any, selectedDate?: Date) => {
+                          if (Platform.OS === 'android') {
+                            setShowSpentOnPicker(false);
+                          }
+                          if (selectedDate) {
+                            setSpentOn(selectedDate);
+                          }
+                        }}
+                        maximumDate={new Date()}
+                        textColor="#6C55BE"
+                        themeVariant="light"
                       />
-                      {people.length > 1 && (
-                        <TouchableOpacity 
-                          onPress={() => removePerson(person.id)}
-                          style={styles.removePersonButton}
+                      <TouchableOpacity
+                        style={styles.dateTimePickerSaveButton}
+                        onPress={() => setShowSpentOnPicker(false)}
+                      >
+                        <Text style={styles.dateTimePickerSaveText}>Save Date</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+
+                  <Text style={[styles.sectionLabel, dynamicStyles.sectionTitle]}>Category</Text>
+                  <View style={styles.chipRow}>
+                    <TouchableOpacity
+                      style={[styles.chip, !categoryId && styles.chipSelected]}
+                      onPress={() => setCategoryId(null)}
+                    >
+                      <Text style={[styles.chipText, !categoryId && styles.chipTextSelected]}>None</Text>
+                    </TouchableOpacity>
+                    {CategoryService.sortByName(categories).map((category) => {
+                      const selected = categoryId === category.id;
+                      return (
+                        <TouchableOpacity
+                          key={category.id}
+                          style={[styles.chip, selected && styles.chipSelected]}
+                          onPress={() => setCategoryId(category.id)}
+                        >
+                          <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{category.icon} {category.name}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
+                  <Text style={[styles.sectionLabel, dynamicStyles.sectionTitle]}>Who's splitting it?</Text>
+
+                  <View style={styles.chipRow}>
+                    {SPLIT_MODES.map((mode) => {
+                      const selected = splitMode === mode;
+                      return (
+                        <TouchableOpacity
+                          key={mode}
+                          style={[styles.chip, selected && styles.chipSelected]}
+                          onPress={() => setSplitMode(mode)}
                         >
-                          <Text style={styles.removePersonText}>✕</Text>
+                          <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{SPLIT_MODE_LABELS[mode]}</Text>
                         </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  
+                  {people.map((person, index) => (
+                    <React.Fragment key={person.id}>
+                      <View style={styles.personContainer}>
+                        {person.isSelf ? (
+                          <Text style={[styles.modalInput, styles.personNameInput, styles.selfName]}>You</Text>
+                        ) : (
+                          <TextInput
+                            style={[styles.modalInput, styles.personNameInput]}
+                            placeholder="Name"
+                            placeholderTextColor="#8B7BA8"
+                            value={person.name}
+                            onChangeText={(value) => updatePerson(person.id, 'name', value)}
+                            onFocus={() => setFocusedPersonId(person.id)}
+                          />
+                        )}
+                        {splitMode === 'exact' && (
+                          <TextInput
+                            style={[styles.modalInput, styles.personAmountInput]}
+                            placeholder="Amount"
+                            placeholderTextColor="#8B7BA8"
+                            value={person.amount}
+                            onChangeText={(value) => updatePerson(person.id, 'amount', value)}
+                            keyboardType="numeric"
+                          />
+                        )}
+                        {(splitMode === 'percentage' || splitMode === 'shares') && (
+                          <TextInput
+                            style={[styles.modalInput, styles.splitWeightInput]}
+                            placeholder={splitMode === 'percentage' ? '%' : 'Shares'}
+                            placeholderTextColor="#8B7BA8"
+                            value={splitWeights[person.id] ?? ''}
+                            onChangeText={(value) => setSplitWeights({ ...splitWeights, [person.id]: value })}
+                            keyboardType="numeric"
+                          />
+                        )}
+                        {splitMode !== 'exact' && (
+                          <Text style={[styles.splitShareText, dynamicStyles.personAmount]}>
+                            {splitPreview?.amounts[person.id] ? MoneyService.format(splitPreview.amounts[person.id]) : '–'}
+                          </Text>
+                        )}
+                        {people.length > 1 && (
+                          <TouchableOpacity 
+                            onPress={() => removePerson(person.id)}
+                            style={styles.removePersonButton}
+                          >
+                            <Text style={styles.removePersonText}>✕</Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                      {focusedPersonId === person.id && !person.contactId && (
+                        <View style={styles.suggestionRow}>
+                          {ContactService.suggest(
+                            contacts,
+                            person.name,
+                            people.map(p => p.contactId).filter((contactId): contactId is string => !!contactId)
+                          ).map((contact) => (
+                            <TouchableOpacity
+                              key={contact.id}
+                              style={styles.suggestionChip}
+                              onPress={() => selectContact(person.id, contact)}
+                            >
+                              <Text style={styles.suggestionText}>👤 {contact.name}</Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
                       )}
-                    </View>
+                    </React.Fragment>
                   ))}
 
                   <View style={styles.personActions}>
                     <TouchableOpacity onPress={addPerson} style={styles.addPersonButton}>
                       <Text style={styles.addPersonText}>+ Add Person</Text>
                     </TouchableOpacity>
-                    <TouchableOpacity onPress={splitAmountEqually} style={styles.splitButton}>
-                      <Text style={styles.splitButtonText}>Split Equally</Text>
-                    </TouchableOpacity>
+                    {!people.some(person => person.isSelf) && (
+                      <TouchableOpacity onPress={addSelf} style={styles.addPersonButton}>
+                        <Text style={styles.addPersonText}>+ Add Me</Text>
+                      </TouchableOpacity>
+                    )}
+                    {splitMode === 'itemized' && (
+                      <TouchableOpacity onPress={addLineItem} style={styles.splitButton}>
+                        <Text style={styles.splitButtonText}>+ Add Item</Text>
+                      </TouchableOpacity>
+                    )}
                   </View>
 
+                  {namedPeople.some(person => !person.isSelf) && (
+                    <>
+                      <Text style={[styles.sectionLabel, dynamicStyles.sectionTitle]}>Paid by</Text>
+                      <View style={styles.chipRow}>
+                        {[null, ...namedPeople.filter(person => !person.isSelf).map(person => person.id)].map((personId) => {
+                          const selected = payerIdFor(namedPeople) === personId;
+                          return (
+                            <TouchableOpacity
+                              key={personId ?? 'self'}
+                              style={[styles.chip, selected && styles.chipSelected]}
+                              onPress={() => setPaidBy(personId)}
+                            >
+                              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                                {personId ? namedPeople.find(person => person.id === personId)?.name.trim() : 'You'}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    </>
+                  )}
+
+                  {splitMode === 'itemized' && (
+                    <>
+                      {lineItems.map((item) => (
+                        <View key={item.id} style={styles.lineItemContainer}>
+                          <View style={styles.personContainer}>
+                            <TextInput
+                              style={[styles.modalInput, styles.personNameInput]}
+                              placeholder="Item"
+                              placeholderTextColor="#8B7BA8"
+                              value={item.description}
+                              onChangeText={(value) => updateLineItem(item.id, { description: value })}
+                            />
+                            <TextInput
+                              style={[styles.modalInput, styles.personAmountInput]}
+                              placeholder="Amount"
+                              placeholderTextColor="#8B7BA8"
+                              value={item.amount}
+                              onChangeText={(value) => updateLineItem(item.id, { amount: value })}
+                              keyboardType="numeric"
+                            />
+                            <TouchableOpacity
+                              onPress={() => setLineItems(lineItems.filter(i => i.id !== item.id))}
+                              style={styles.removePersonButton}
+                            >
+                              <Text style={styles.removePersonText}>✕</Text>
+                            </TouchableOpacity>
+                          </View>
+                          <View style={styles.chipRow}>
+                            {namedPeople.map((person) => {
+                              const selected = item.personIds.includes(person.id);
+                              return (
+                                <TouchableOpacity
+                                  key={person.id}
+                                  style={[styles.chip, selected && styles.chipSelected]}
+                                  onPress={() => toggleLineItemPerson(item, person.id)}
+                                >
+                                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{person.name.trim()}</Text>
+                                </TouchableOpacity>
+                              );
+                            })}
+                          </View>
+                        </View>
+                      ))}
+                      <View style={styles.personContainer}>
+                        <TextInput
+                          style={[styles.modalInput, styles.personAmountInput]}
+                          placeholder="Tax"
+                          placeholderTextColor="#8B7BA8"
+                          value={taxAmount}
+                          onChangeText={setTaxAmount}
+                          keyboardType="numeric"
+                        />
+                        <TextInput
+                          style={[styles.modalInput, styles.personAmountInput]}
+                          placeholder="Tip"
+                          placeholderTextColor="#8B7BA8"
+                          value={tipAmount}
+                          onChangeText={setTipAmount}
+                          keyboardType="numeric"
+                        />
+                      </View>
+                    </>
+                  )}
+
+                  {splitPreview && (
+                    <View style={styles.splitStatus}>
+                      {(splitMode === 'exact' || splitMode === 'itemized') && (
+                        <Text style={[styles.splitStatusText, dynamicStyles.totalSplitText]}>
+                          Left to assign: {MoneyService.format(splitPreview.remaining)}
+                        </Text>
+                      )}
+                      <Text style={[styles.splitStatusText, dynamicStyles.totalSplitText, splitPreview.error ? styles.splitStatusError : styles.splitStatusOk]}>
+                        {splitPreview.error ? `⚠️ ${splitPreview.error}` : '✓ Adds up to the total'}
+                      </Text>
+                    </View>
+                  )}
+
                   <Text style={styles.sectionLabel}>Due Date</Text>
                   
                   <TouchableOpacity
@@ -839,20 +1587,87 @@ export default function ExpenseScreen() {
                     </>
                   )}
 
-                  <TextInput
-                    style={[styles.modalInput, styles.descriptionInput]}
-                    placeholder="Description"
-                    placeholderTextColor="#8B7BA8"
-                    value={description}
-                    onChangeText={setDescription}
-                    multiline
-                    numberOfLines={3}
-                  />
-                  </ScrollView>
+                  <Text style={styles.sectionLabel}>Repeat</Text>
 
-                  <View style={styles.modalActions}>
-                    <TouchableOpacity
-                      style={[styles.modalButton, styles.cancelButton]}
+                  <View style={styles.chipRow}>
+                    {REPEAT_OPTIONS.map((option) => {
+                      const selected = (repeatPeriod ?? 'never') === option.value;
+                      return (
+                        <TouchableOpacity
+                          key={option.value}
+                          style={[styles.chip, selected && styles.chipSelected]}
+                          onPress={() => setRepeatPeriod(option.value === 'never' ? null : option.value)}
+                        >
+                          <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
+                  {repeatPeriod && (
+                    <>
+                      <TouchableOpacity
+                        style={styles.datePickerButton}
+                        onPress={() => setShowRepeatEndPicker(true)}
+                      >
+                        <Text style={styles.datePickerButtonText}>
+                          {repeatEndDate ? `🏁 Ends ${repeatEndDate.toLocaleDateString()}` : '🏁 No End Date'}
+                        </Text>
+                      </TouchableOpacity>
+
+                      {repeatEndDate && (
+                        <TouchableOpacity
+                          style={styles.clearDateButton}
+                          onPress={() => setRepeatEndDate(null)}
+                        >
+                          <Text style={styles.clearDateText}>Clear End Date</Text>
+                        </TouchableOpacity>
+                      )}
+
+                      {showRepeatEndPicker && (
+                        <View style={styles.datePickerContainer}>
+                          <DateTimePicker
+                            value={repeatEndDate || dueDate || new Date()}
+                            mode="date"
+                            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                            onChange={(event, selectedDate) => {
+                              setShowRepeatEndPicker(Platform.OS === 'ios');
+                              if (selectedDate) {
+                                // Bills due any time on the end date are still generated
+                                const endOfDay = new Date(selectedDate);
+                                endOfDay.setHours(23, 59, 59, 999);
+                                setRepeatEndDate(endOfDay);
+                              }
+                            }}
+                            minimumDate={new Date()}
+                            textColor="#6C55BE"
+                            themeVariant="light"
+                          />
+                          <TouchableOpacity
+                            style={styles.dateTimePickerSaveButton}
+                            onPress={() => setShowRepeatEndPicker(false)}
+                          >
+                            <Text style={styles.dateTimePickerSaveText}>Save End Date</Text>
+                          </TouchableOpacity>
+                        </View>
+                      )}
+                    </>
+                  )}
+
+                  <TextInput
+                    style={[styles.modalInput, styles.descriptionInput]}
+                    placeholder="Description"
+                    placeholderTextColor="#8B7BA8"
+                    value={description}
+                    onChangeText={setDescription}
+                    multiline
+                    numberOfLines={3}
+                  />
+                  </ScrollView>
+
+                  <View style={styles.modalActions}>
+                    <TouchableOpacity
+                      style={[styles.modalButton, styles.cancelButton]}
                       onPress={() => {
                         // Clear any active notifications first
                         if (currentNotification) {
@@ -864,6 +1679,7 @@ export default function ExpenseScreen() {
                         setTimeout(() => {
                           setShowDatePicker(false);
                           setShowTimePicker(false);
+                          setShowRepeatEndPicker(false);
                         }, 0);
                       }}
                     >
@@ -883,6 +1699,390 @@ export default function ExpenseScreen() {
             </View>
           </TouchableWithoutFeedback>
         </Modal>
+
+        <Modal
+          animationType="fade"
+          transparent={true}
+          visible={filterModalVisible}
+          onRequestClose={() => setFilterModalVisible(false)}
+        >
+          <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+            <View style={styles.modalOverlay}>
+              <TouchableWithoutFeedback onPress={() => {}}>
+                <View style={styles.modalContainer}>
+                  <View style={styles.modalHeader}>
+                    <Text style={[styles.modalTitle, dynamicStyles.modalTitle]}>Filter & Sort</Text>
+                  </View>
+
+                  <ScrollView style={styles.modalScrollView} keyboardShouldPersistTaps="handled">
+                    <Text style={[styles.sectionLabel, dynamicStyles.sectionTitle]}>Sort by</Text>
+                    <View style={styles.chipRow}>
+                      {SORT_OPTIONS.map((sort) => {
+                        const selected = filter.sort === sort;
+                        return (
+                          <TouchableOpacity
+                            key={sort}
+                            style={[styles.chip, selected && styles.chipSelected]}
+                            onPress={() => updateFilter({ sort })}
+                          >
+                            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{EXPENSE_SORT_LABELS[sort]}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+
+                    <Text style={[styles.sectionLabel, dynamicStyles.sectionTitle]}>Status</Text>
+                    <View style={styles.chipRow}>
+                      {STATUS_FILTERS.map((status) => {
+                        const selected = filter.status === status;
+                        return (
+                          <TouchableOpacity
+                            key={status}
+                            style={[styles.chip, selected && styles.chipSelected]}
+                            onPress={() => updateFilter({ status })}
+                          >
+                            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{EXPENSE_STATUS_LABELS[status]}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+
+                    <Text style={[styles.sectionLabel, dynamicStyles.sectionTitle]}>Priority</Text>
+                    <View style={styles.chipRow}>
+                      <TouchableOpacity
+                        style={[styles.chip, !filter.priority && styles.chipSelected]}
+                        onPress={() => updateFilter({ priority: undefined })}
+                      >
+                        <Text style={[styles.chipText, !filter.priority && styles.chipTextSelected]}>Any</Text>
+                      </TouchableOpacity>
+                      {[...PRIORITY_LEVELS].reverse().map((priority) => {
+                        const selected = filter.priority === priority;
+                        return (
+                          <TouchableOpacity
+                            key={priority}
+                            style={[styles.chip, selected && styles.chipSelected]}
+                            onPress={() => updateFilter({ priority })}
+                          >
+                            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{PRIORITY_LABELS[priority]}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+
+                    {categories.length > 0 && (
+                      <>
+                        <Text style={[styles.sectionLabel, dynamicStyles.sectionTitle]}>Category</Text>
+                        <View style={styles.chipRow}>
+                          <TouchableOpacity
+                            style={[styles.chip, !filter.categoryId && styles.chipSelected]}
+                            onPress={() => updateFilter({ categoryId: undefined })}
+                          >
+                            <Text style={[styles.chipText, !filter.categoryId && styles.chipTextSelected]}>Any</Text>
+                          </TouchableOpacity>
+                          {CategoryService.sortByName(categories).map((category) => {
+                            const selected = filter.categoryId === category.id;
+                            return (
+                              <TouchableOpacity
+                                key={category.id}
+                                style={[styles.chip, selected && styles.chipSelected]}
+                                onPress={() => updateFilter({ categoryId: category.id })}
+                              >
+                                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{category.icon} {category.name}</Text>
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </View>
+                      </>
+                    )}
+
+                    {contacts.length > 0 && (
+                      <>
+                        <Text style={[styles.sectionLabel, dynamicStyles.sectionTitle]}>Person</Text>
+                        <View style={styles.chipRow}>
+                          <TouchableOpacity
+                            style={[styles.chip, !filter.contactId && styles.chipSelected]}
+                            onPress={() => updateFilter({ contactId: undefined })}
+                          >
+                            <Text style={[styles.chipText, !filter.contactId && styles.chipTextSelected]}>Anyone</Text>
+                          </TouchableOpacity>
+                          {[...contacts].sort((a, b) => a.name.localeCompare(b.name)).map((contact) => {
+                            const selected = filter.contactId === contact.id;
+                            return (
+                              <TouchableOpacity
+                                key={contact.id}
+                                style={[styles.chip, selected && styles.chipSelected]}
+                                onPress={() => updateFilter({ contactId: contact.id })}
+                              >
+                                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{contact.name}</Text>
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </View>
+                      </>
+                    )}
+
+                    <Text style={[styles.sectionLabel, dynamicStyles.sectionTitle]}>Amount ({homeCurrency})</Text>
+                    <View style={styles.filterRangeRow}>
+                      <TextInput
+                        style={[styles.modalInput, styles.filterRangeInput, dynamicStyles.modalInput]}
+                        placeholder="Min"
+                        placeholderTextColor="#8B7BA8"
+                        value={minAmountInput}
+                        onChangeText={(value) => updateAmountBound('minAmount', value)}
+                        keyboardType="numeric"
+                      />
+                      <Text style={styles.filterRangeDash}>–</Text>
+                      <TextInput
+                        style={[styles.modalInput, styles.filterRangeInput, dynamicStyles.modalInput]}
+                        placeholder="Max"
+                        placeholderTextColor="#8B7BA8"
+                        value={maxAmountInput}
+                        onChangeText={(value) => updateAmountBound('maxAmount', value)}
+                        keyboardType="numeric"
+                      />
+                    </View>
+
+                    <Text style={[styles.sectionLabel, dynamicStyles.sectionTitle]}>Spent between</Text>
+                    <View style={styles.filterRangeRow}>
+                      <TouchableOpacity
+                        style={[styles.datePickerButton, styles.filterRangeInput]}
+                        onPress={() => {
+                          setShowFilterToPicker(false);
+                          setShowFilterFromPicker(true);
+                        }}
+                      >
+                        <Text style={styles.datePickerButtonText}>{filter.from ? filter.from.toLocaleDateString() : 'Any start'}</Text>
+                      </TouchableOpacity>
+                      <Text style={styles.filterRangeDash}>–</Text>
+                      <TouchableOpacity
+                        style={[styles.datePickerButton, styles.filterRangeInput]}
+                        onPress={() => {
+                          setShowFilterFromPicker(false);
+                          setShowFilterToPicker(true);
+                        }}
+                      >
+                        <Text style={styles.datePickerButtonText}>{filter.to ? filter.to.toLocaleDateString() : 'Any end'}</Text>
+                      </TouchableOpacity>
+                    </View>
+
+                    {(showFilterFromPicker || showFilterToPicker) && (
+                      <View style={styles.datePickerContainer}>
+                        <DateTimePicker
+                          value={(showFilterFromPicker ? filter.from : filter.to) || new Date()}
+                          mode="date"
+                          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                          onChange={(event: any, selectedDate?: Date) => {
+                            const bound = showFilterFromPicker ? 'from' : 'to';
+                            if (Platform.OS === 'android') {
+                              setShowFilterFromPicker(false);
+                              setShowFilterToPicker(false);
+                            }
+                            if (selectedDate) {
+                              updateFilter({ [bound]: selectedDate });
+                            }
+                          }}
+                          textColor="#6C55BE"
+                          themeVariant="light"
+                        />
+                        <TouchableOpacity
+                          style={styles.dateTimePickerSaveButton}
+                          onPress={() => {
+                            setShowFilterFromPicker(false);
+                            setShowFilterToPicker(false);
+                          }}
+                        >
+                          <Text style={styles.dateTimePickerSaveText}>Save Date</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+
+                    {(filter.from || filter.to) && (
+                      <TouchableOpacity
+                        style={styles.clearDateButton}
+                        onPress={() => updateFilter({ from: undefined, to: undefined })}
+                      >
+                        <Text style={styles.clearDateText}>Clear Dates</Text>
+                      </TouchableOpacity>
+                    )}
+                  </ScrollView>
+
+                  <View style={styles.modalActions}>
+                    <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={clearFilters}>
+                      <Text style={styles.cancelButtonText}>Clear All</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.modalButton, styles.saveButton]} onPress={() => setFilterModalVisible(false)}>
+                      <Text style={styles.saveButtonText}>
+                        Show {visibleExpenses.length} expense{visibleExpenses.length === 1 ? '' : 's'}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              </TouchableWithoutFeedback>
+            </View>
+          </TouchableWithoutFeedback>
+        </Modal>
+
+        <Modal
+          animationType="fade"
+          transparent={true}
+          visible={!!paymentTarget}
+          onRequestClose={() => setPaymentTarget(null)}
+        >
+          <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+            <View style={styles.modalOverlay}>
+              <TouchableWithoutFeedback onPress={() => {}}>
+                <View style={styles.modalContainer}>
+                  {currentNotification && currentNotification.type === 'error' && (
+                    <View style={styles.errorAlert}>
+                      <Text style={styles.errorAlertText}>⚠️ {currentNotification.message}</Text>
+                      <TouchableOpacity onPress={hideNotification} style={styles.dismissButton}>
+                        <Text style={styles.dismissText}>✕</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                  {paymentExpense && paymentPerson && (() => {
+                    const remaining = PaymentService.remaining(paymentPerson);
+                    return (
+                      <>
+                        <View style={styles.modalHeader}>
+                          <Text style={[styles.modalTitle, dynamicStyles.modalTitle]}>
+                            {paymentPerson.name} · {paymentExpense.title}
+                          </Text>
+                        </View>
+
+                        <ScrollView style={styles.modalScrollView} keyboardShouldPersistTaps="handled">
+                          <View style={styles.paymentSummary}>
+                            <Text style={[styles.personText, dynamicStyles.personAmount]}>
+                              Share: {MoneyService.format(paymentPerson.amount)}
+                            </Text>
+                            <Text style={[styles.personText, dynamicStyles.personAmount]}>
+                              Paid: {MoneyService.format(PaymentService.paidAmount(paymentPerson))}
+                            </Text>
+                            <Text style={[styles.paymentRemaining, dynamicStyles.personAmount]}>
+                              {MoneyService.isZero(remaining) ? '✓ Paid in full' : `Left to pay: ${MoneyService.format(remaining)}`}
+                            </Text>
+                          </View>
+
+                          {paymentPerson.payments.length > 0 && (
+                            <>
+                              <Text style={styles.sectionLabel}>Payments</Text>
+                              {paymentPerson.payments.map((payment) => (
+                                <View key={payment.id} style={styles.paymentRow}>
+                                  <View style={styles.paymentInfo}>
+                                    <Text style={[styles.personText, dynamicStyles.personAmount]}>
+                                      {MoneyService.format(payment.amount)} · {PAYMENT_METHOD_LABELS[payment.method]}
+                                    </Text>
+                                    <Text style={[styles.paymentDetail, dynamicStyles.dueDateText]}>
+                                      {payment.paidAt.toLocaleDateString()}{payment.note ? ` · ${payment.note}` : ''}
+                                    </Text>
+                                  </View>
+                                  <TouchableOpacity onPress={() => handleRemovePayment(payment.id)} style={styles.removePersonButton}>
+                                    <Text style={styles.removePersonText}>✕</Text>
+                                  </TouchableOpacity>
+                                </View>
+                              ))}
+                            </>
+                          )}
+
+                          {!MoneyService.isZero(remaining) && (
+                            <>
+                              <Text style={styles.sectionLabel}>Record Payment</Text>
+                              <TextInput
+                                style={[styles.modalInput, dynamicStyles.modalInput]}
+                                placeholder={`Amount (${MoneyService.toInput(remaining)} left)`}
+                                placeholderTextColor="#8B7BA8"
+                                value={paymentAmount}
+                                onChangeText={setPaymentAmount}
+                                keyboardType="numeric"
+                              />
+                              <View style={styles.chipRow}>
+                                {PAYMENT_METHODS.map((method) => {
+                                  const selected = paymentMethod === method;
+                                  return (
+                                    <TouchableOpacity
+                                      key={method}
+                                      style={[styles.chip, selected && styles.chipSelected]}
+                                      onPress={() => setPaymentMethod(method)}
+                                    >
+                                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{PAYMENT_METHOD_LABELS[method]}</Text>
+                                    </TouchableOpacity>
+                                  );
+                                })}
+                              </View>
+                              <TextInput
+                                style={[styles.modalInput, dynamicStyles.modalInput]}
+                                placeholder="Note (optional)"
+                                placeholderTextColor="#8B7BA8"
+                                value={paymentNote}
+                                onChangeText={setPaymentNote}
+                              />
+                              <TouchableOpacity
+                                style={styles.datePickerButton}
+                                onPress={() => setShowPaymentDatePicker(true)}
+                              >
+                                <Text style={styles.datePickerButtonText}>📅 Paid {paymentDate.toLocaleDateString()}</Text>
+                              </TouchableOpacity>
+                              {showPaymentDatePicker && (
+                                <View style={styles.datePickerContainer}>
+                                  <DateTimePicker
+                                    value={paymentDate}
+                                    mode="date"
+                                    display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                                    onChange={(event: any, selectedDate?: Date) => {
+                                      if (Platform.OS === 'android') {
+                                        setShowPaymentDatePicker(false);
+                                      }
+                                      if (selectedDate) {
+                                        setPaymentDate(selectedDate);
+                                      }
+                                    }}
+                                    maximumDate={new Date()}
+                                    textColor="#6C55BE"
+                                    themeVariant="light"
+                                  />
+                                  <TouchableOpacity
+                                    style={styles.dateTimePickerSaveButton}
+                                    onPress={() => setShowPaymentDatePicker(false)}
+                                  >
+                                    <Text style={styles.dateTimePickerSaveText}>Save Date</Text>
+                                  </TouchableOpacity>
+                                </View>
+                              )}
+                            </>
+                          )}
+                        </ScrollView>
+
+                        <View style={styles.modalActions}>
+                          <TouchableOpacity
+                            style={[styles.modalButton, styles.cancelButton]}
+                            onPress={() => {
+                              if (currentNotification) {
+                                hideNotification();
+                              }
+                              setPaymentTarget(null);
+                            }}
+                          >
+                            <Text style={styles.cancelButtonText}>Close</Text>
+                          </TouchableOpacity>
+                          {!MoneyService.isZero(remaining) && (
+                            <TouchableOpacity
+                              style={[styles.modalButton, styles.saveButton]}
+                              onPress={() => handleRecordPayment(!paymentAmount.trim())}
+                            >
+                              <Text style={styles.saveButtonText}>
+                                {paymentAmount.trim() ? 'Record' : 'Paid in Full'}
+                              </Text>
+                            </TouchableOpacity>
+                          )}
+                        </View>
+                      </>
+                    );
+                  })()}
+                </View>
+              </TouchableWithoutFeedback>
+            </View>
+          </TouchableWithoutFeedback>
+        </Modal>
         
         {/* Delete confirmation popup - outside Modal so it can overlay everything */}
         {deleteConfirm && (
@@ -891,6 +2091,7 @@ export default function ExpenseScreen() {
               <Text style={styles.deleteTitle}>Delete Expense</Text>
               <Text style={styles.deleteMessage}>
                 Are you sure you want to delete "{deleteConfirm.title}"?
+                {expenses.find(e => e.id === deleteConfirm.id)?.recurrence ? ' No more bills will be created for it.' : ''}
               </Text>
               <View style={styles.deleteButtons}>
                 <TouchableOpacity
@@ -956,6 +2157,11 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingBottom: 20,
   },
+  youOweText: {
+    color: '#E65100',
+    fontWeight: '600',
+    marginTop: 2,
+  },
   statItem: {
     alignItems: 'center',
     backgroundColor: '#F3F4F6',
@@ -1089,6 +2295,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
+  selfName: {
+    backgroundColor: '#F0EDF7',
+    fontWeight: '600',
+  },
   personNameInput: {
     flex: 2,
     marginRight: 8,
@@ -1141,6 +2351,231 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  splitWeightInput: {
+    width: 70,
+    marginRight: 8,
+    marginBottom: 0,
+  },
+  splitShareText: {
+    flex: 1,
+    color: '#6C55BE',
+    fontWeight: '600',
+    textAlign: 'right',
+    marginRight: 8,
+  },
+  lineItemContainer: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#CEE476',
+    paddingLeft: 8,
+    marginBottom: 4,
+  },
+  splitStatus: {
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 16,
+  },
+  splitStatusText: {
+    color: '#6C55BE',
+    fontSize: 14,
+  },
+  splitStatusOk: {
+    color: '#2E7D32',
+    fontWeight: '600',
+  },
+  splitStatusError: {
+    color: '#E65100',
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: '#F3F4F6',
+    borderWidth: 2,
+    borderColor: '#CEE476',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#CEE476',
+  },
+  chipText: {
+    color: '#8B7BA8',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#6C55BE',
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  suggestionChip: {
+    backgroundColor: '#F0EDF7',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  suggestionText: {
+    color: '#6C55BE',
+    fontSize: 13,
+  },
+  currencyRow: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  convertedAmount: {
+    color: '#8B7BA8',
+    marginTop: 2,
+  },
+  missingRatesText: {
+    color: '#E65100',
+    textAlign: 'center',
+    paddingHorizontal: 20,
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  upcomingSection: {
+    backgroundColor: '#F3F4F6',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#CEE476',
+    padding: 12,
+    marginBottom: 12,
+  },
+  upcomingTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#6C55BE',
+    marginBottom: 8,
+  },
+  upcomingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  upcomingInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  upcomingBillTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6C55BE',
+  },
+  upcomingBillDetails: {
+    fontSize: 12,
+    color: '#8B7BA8',
+    marginTop: 2,
+  },
+  upcomingBillAmount: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#6C55BE',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#6C55BE',
+  },
+  filterButton: {
+    backgroundColor: '#F3F4F6',
+    borderWidth: 2,
+    borderColor: '#CEE476',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  filterButtonActive: {
+    backgroundColor: '#CEE476',
+  },
+  filterButtonText: {
+    color: '#6C55BE',
+    fontWeight: '600',
+  },
+  filterRangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  filterRangeInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  filterRangeDash: {
+    color: '#8B7BA8',
+    fontSize: 16,
+  },
+  clearFiltersButton: {
+    marginTop: 16,
+    backgroundColor: '#CEE476',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  clearFiltersText: {
+    color: '#6C55BE',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  budgetRow: {
+    paddingVertical: 6,
+  },
+  budgetLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  budgetTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+  },
+  budgetFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: '#CEE476',
+  },
+  budgetFillWarning: {
+    backgroundColor: '#FF9800',
+  },
+  budgetFillOver: {
+    backgroundColor: '#ff6b6b',
+  },
+  budgetOverText: {
+    color: '#E65100',
+    fontWeight: '600',
+  },
+  recurrenceText: {
+    fontSize: 12,
+    color: '#8B7BA8',
+    fontWeight: '600',
+    marginTop: 4,
+  },
   datePickerButton: {
     backgroundColor: '#F3F4F6',
     paddingVertical: 12,
@@ -1194,6 +2629,30 @@ const styles = StyleSheet.create({
     height: 80,
     textAlignVertical: 'top',
   },
+  paymentSummary: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    gap: 4,
+  },
+  paymentRemaining: {
+    color: '#6C55BE',
+    fontWeight: '700',
+  },
+  paymentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  paymentInfo: {
+    flex: 1,
+  },
+  paymentDetail: {
+    color: '#8B7BA8',
+  },
   modalActions: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1291,15 +2750,13 @@ const styles = StyleSheet.create({
     zIndex: 1,
   },
   priorityButtonActive: {
-    backgroundColor: '#CEE476',
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
   },
   priorityButtonText: {
-    color: '#8B7BA8',
     fontSize: 20,
-    fontWeight: '600',
-  },
-  priorityButtonTextActive: {
-    color: '#6C55BE',
+    fontWeight: '700',
   },
   expenseTitle: {
     fontSize: 18,
@@ -1367,6 +2824,9 @@ const styles = StyleSheet.create({
     color: '#B0A3C6',
     textDecorationLine: 'line-through',
   },
+  payerBadge: {
+    padding: 4,
+  },
   personCheckboxButton: {
     padding: 4,
   },
@@ -1387,6 +2847,19 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 8,
   },
+  pendingBadge: {
+    backgroundColor: '#FFF3E0',
+    borderWidth: 1,
+    borderColor: '#FF9800',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  pendingBadgeText: {
+    color: '#E65100',
+    fontSize: 11,
+    fontWeight: '600',
+  },
   editButton: {
     backgroundColor: 'transparent',
     paddingHorizontal: 4,
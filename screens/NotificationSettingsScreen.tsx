@@ -12,11 +12,10 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAuth } from '../contexts/AuthContext';
 import { useAccessibility } from '../contexts/AccessibilityContext';
 import { useNotification } from '../contexts/NotificationContext';
-import { doc, setDoc, getDoc } from 'firebase/firestore';
-import { db } from '../firebaseConfig';
-import { NotificationService } from '../services/NotificationService';
+import { getRepositories } from '../repositories';
+import { NotificationFrequency } from '../types';
+import { NotificationService, REMINDER_OFFSET_PRESETS, DEFAULT_REMINDER_OFFSETS } from '../services/NotificationService';
 
-type NotificationFrequency = 'none' | 'daily' | 'weekly' | 'once';
 
 const DAYS_OF_WEEK = [
   { label: 'Sunday', value: 1 },
@@ -39,6 +38,7 @@ export default function NotificationSettingsScreen({ navigation }: any) {
   const [oneTimeDate, setOneTimeDate] = useState(new Date());
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [pendingSync, setPendingSync] = useState(false);
+  const [defaultReminderOffsets, setDefaultReminderOffsets] = useState<number[]>(DEFAULT_REMINDER_OFFSETS);
 
   useEffect(() => {
     loadNotificationSettings();
@@ -58,8 +58,8 @@ export default function NotificationSettingsScreen({ navigation }: any) {
           if (cachedSettings) {
             const settings = JSON.parse(cachedSettings);
             console.log('📤 Syncing settings to Firestore:', settings);
-            await setDoc(
-              doc(db, 'users', currentUser.uid),
+            await getRepositories().userProfiles.save(
+              currentUser.uid,
               {
                 notificationFrequency: settings.frequency,
                 notificationsEnabled: settings.notificationsEnabled,
@@ -67,8 +67,8 @@ export default function NotificationSettingsScreen({ navigation }: any) {
                 reminderMinute: settings.reminderMinute,
                 selectedDays: settings.selectedDays,
                 oneTimeDate: settings.oneTimeDate,
-              },
-              { merge: true }
+                defaultReminderOffsets: settings.defaultReminderOffsets ?? DEFAULT_REMINDER_OFFSETS,
+              }
             );
             setPendingSync(false);
             await AsyncStorage.removeItem('@notification_settings_pending');
@@ -109,6 +109,9 @@ export default function NotificationSettingsScreen({ navigation }: any) {
         if (settings.oneTimeDate) {
           setOneTimeDate(new Date(settings.oneTimeDate));
         }
+        if (settings.defaultReminderOffsets) {
+          setDefaultReminderOffsets(settings.defaultReminderOffsets);
+        }
         console.log('📱 Loaded notification settings from cache');
       }
 
@@ -122,9 +125,8 @@ export default function NotificationSettingsScreen({ navigation }: any) {
       if (hasPending !== 'true') {
         try {
           console.log('☁️ No pending changes, loading from Firestore...');
-          const userDoc = await getDoc(doc(db, 'users', currentUser.uid));
-          if (userDoc.exists()) {
-            const data = userDoc.data();
+          const data = await getRepositories().userProfiles.get(currentUser.uid);
+          if (data) {
             
             const firestoreSettings = {
               frequency: data.notificationFrequency || 'none',
@@ -132,6 +134,7 @@ export default function NotificationSettingsScreen({ navigation }: any) {
               reminderMinute: data.reminderMinute,
               selectedDays: data.selectedDays || [2, 3, 4, 5, 6],
               oneTimeDate: data.oneTimeDate,
+              defaultReminderOffsets: data.defaultReminderOffsets || DEFAULT_REMINDER_OFFSETS,
             };
 
             // Load frequency
@@ -156,6 +159,11 @@ export default function NotificationSettingsScreen({ navigation }: any) {
               setOneTimeDate(new Date(data.oneTimeDate));
             }
 
+            // Load default task reminder offsets
+            if (data.defaultReminderOffsets) {
+              setDefaultReminderOffsets(data.defaultReminderOffsets);
+            }
+
             // Update AsyncStorage cache
             await AsyncStorage.setItem('@notification_settings', JSON.stringify(firestoreSettings));
             console.log('✓ Notification settings synced from Firestore');
@@ -243,10 +251,11 @@ export default function NotificationSettingsScreen({ navigation }: any) {
     }
   };
 
-  const saveSettings = async (freq?: NotificationFrequency) => {
+  const saveSettings = async (freq?: NotificationFrequency, reminderOffsets?: number[]) => {
     if (!currentUser) return;
 
     const currentFreq = freq || frequency;
+    const currentReminderOffsets = reminderOffsets || defaultReminderOffsets;
 
     const settings = {
       frequency: currentFreq,
@@ -255,6 +264,7 @@ export default function NotificationSettingsScreen({ navigation }: any) {
       reminderMinute: reminderTime.getMinutes(),
       selectedDays: selectedDays,
       oneTimeDate: oneTimeDate.toISOString(),
+      defaultReminderOffsets: currentReminderOffsets,
       timestamp: Date.now(), // Add timestamp to track which is newer
     };
 
@@ -269,8 +279,8 @@ export default function NotificationSettingsScreen({ navigation }: any) {
     // Try to sync to Firestore if online
     if (isOnline) {
       try {
-        await setDoc(
-          doc(db, 'users', currentUser.uid),
+        await getRepositories().userProfiles.save(
+          currentUser.uid,
           {
             notificationFrequency: currentFreq,
             notificationsEnabled: currentFreq !== 'none',
@@ -278,8 +288,8 @@ export default function NotificationSettingsScreen({ navigation }: any) {
             reminderMinute: reminderTime.getMinutes(),
             selectedDays: selectedDays,
             oneTimeDate: oneTimeDate.toISOString(),
-          },
-          { merge: true }
+            defaultReminderOffsets: currentReminderOffsets,
+          }
         );
         console.log('✓ Notification settings synced to Firestore');
         setPendingSync(false);
@@ -336,6 +346,15 @@ export default function NotificationSettingsScreen({ navigation }: any) {
     });
   };
 
+  const toggleDefaultReminderOffset = async (minutes: number) => {
+    const newOffsets = defaultReminderOffsets.includes(minutes)
+      ? defaultReminderOffsets.filter(m => m !== minutes)
+      : [...defaultReminderOffsets, minutes].sort((a, b) => b - a);
+
+    setDefaultReminderOffsets(newOffsets);
+    await saveSettings(undefined, newOffsets);
+  };
+
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
   };
@@ -496,6 +515,33 @@ export default function NotificationSettingsScreen({ navigation }: any) {
           </View>
         )}
 
+        {/* Default reminders for new tasks */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Task Reminder Defaults</Text>
+          <Text style={styles.sectionSubtitle}>
+            New tasks with a due date start with these reminders. You can change them per task.
+          </Text>
+          {REMINDER_OFFSET_PRESETS.map((preset) => (
+            <TouchableOpacity
+              key={preset.minutes}
+              style={[
+                styles.frequencyOption,
+                defaultReminderOffsets.includes(preset.minutes) && styles.frequencyOptionSelected,
+              ]}
+              onPress={() => toggleDefaultReminderOffset(preset.minutes)}
+            >
+              <View style={styles.frequencyContent}>
+                <Text style={styles.frequencyLabel}>{preset.label}</Text>
+              </View>
+              {defaultReminderOffsets.includes(preset.minutes) && (
+                <View style={styles.checkmark}>
+                  <Text style={styles.checkmarkText}>✓</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+
         {/* Info Section */}
         <View style={styles.infoSection}>
           <Text style={styles.infoText}>
@@ -558,6 +604,13 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     paddingHorizontal: 4,
   },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: '#8B7BA8',
+    marginTop: -8,
+    marginBottom: 16,
+    paddingHorizontal: 4,
+  },
   frequencyOption: {
     backgroundColor: '#F9FAFB',
     borderWidth: 2,
@@ -0,0 +1,378 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotification } from '../contexts/NotificationContext';
+import { useAccessibility } from '../contexts/AccessibilityContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { getRepositories } from '../repositories';
+import { BalanceService } from '../services/BalanceService';
+import { ContactService } from '../services/ContactService';
+import { MoneyService } from '../services/MoneyService';
+import { PaymentService, PAYMENT_METHOD_LABELS } from '../services/PaymentService';
+import { Contact, Expense } from '../types';
+
+export default function PersonDetailScreen({ navigation, route }: any) {
+  const contactId: string = route.params?.contactId;
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [mergeSource, setMergeSource] = useState<Contact | null>(null);
+  const [merging, setMerging] = useState(false);
+  const { currentUser } = useAuth();
+  const { showNotification } = useNotification();
+  const { fontScale } = useAccessibility();
+  const { homeCurrency, toHome } = useCurrency();
+
+  // Dynamic styles based on font scale
+  const dynamicStyles = {
+    sectionTitle: { fontSize: 18 * fontScale },
+    sectionDescription: { fontSize: 14 * fontScale },
+    rowTitle: { fontSize: 16 * fontScale },
+    rowDetail: { fontSize: 13 * fontScale },
+    balance: { fontSize: 32 * fontScale },
+  };
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const { contacts: contactRepository, expenses: expenseRepository } = getRepositories();
+    const unsubscribeContacts = contactRepository.subscribe(currentUser.uid, (contactsData) => {
+      setContacts(contactsData.sort((a, b) => a.name.localeCompare(b.name)));
+    });
+    const unsubscribeExpenses = expenseRepository.subscribe(currentUser.uid, setExpenses);
+    return () => {
+      unsubscribeContacts();
+      unsubscribeExpenses();
+    };
+  }, [currentUser]);
+
+  const contact = contacts.find(c => c.id === contactId);
+  const entries = ContactService.expensesFor(contactId, expenses);
+  const payments = entries
+    .flatMap(({ expense, share }) => share.payments.map(payment => ({ expense, payment })))
+    .sort((a, b) => b.payment.paidAt.getTime() - a.payment.paidAt.getTime());
+  const { balances, missingCurrencies } = BalanceService.computeBalances(expenses, homeCurrency, toHome);
+  const balance = balances.find(b => b.contactId === contactId);
+  const withYou = balance && !MoneyService.isZero(balance.withYou) ? balance.withYou : null;
+  const otherContacts = contacts.filter(c => c.id !== contactId);
+
+  const confirmMerge = async () => {
+    if (!mergeSource || !contact) return;
+    setMerging(true);
+    try {
+      const count = await ContactService.mergeContacts([mergeSource], contact, expenses);
+      showNotification('Merged', `${mergeSource.name} merged into ${contact.name} (${count} expense${count === 1 ? '' : 's'})`, 'success');
+    } catch (error) {
+      showNotification('Merge Failed', 'Failed to merge people', 'error');
+    } finally {
+      setMerging(false);
+      setMergeSource(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{contact?.name || 'Person'}</Text>
+      </View>
+
+      <ScrollView style={styles.content}>
+        {!contact ? (
+          <Text style={[styles.emptyText, dynamicStyles.sectionDescription]}>
+            This person was merged or removed
+          </Text>
+        ) : (
+          <>
+            {missingCurrencies.length > 0 && (
+              <View style={styles.warningBox}>
+                <Text style={styles.warningText}>
+                  ⚠️ No exchange rate for {missingCurrencies.join(', ')} - those shares aren't included
+                </Text>
+              </View>
+            )}
+
+            <View style={[styles.section, styles.balanceSection]}>
+              <Text style={[styles.sectionDescription, dynamicStyles.sectionDescription]}>
+                {!withYou ? 'Outstanding' : withYou.minorUnits > 0 ? `${contact.name} owes you` : `You owe ${contact.name}`}
+              </Text>
+              <Text style={[styles.balanceAmount, dynamicStyles.balance, withYou && withYou.minorUnits < 0 && styles.amountOwed]}>
+                {MoneyService.format(withYou ? MoneyService.abs(withYou) : MoneyService.zero(homeCurrency))}
+              </Text>
+              {!withYou && <Text style={[styles.rowDetail, dynamicStyles.rowDetail]}>🎉 All settled up</Text>}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, dynamicStyles.sectionTitle]}>Expenses</Text>
+              {entries.length === 0 ? (
+                <Text style={[styles.emptyText, dynamicStyles.sectionDescription]}>No expenses yet</Text>
+              ) : (
+                entries.map(({ expense, share }) => (
+                  <View key={expense.id} style={styles.row}>
+                    <View style={styles.rowInfo}>
+                      <Text style={[styles.rowTitle, dynamicStyles.rowTitle]}>{expense.title}</Text>
+                      <Text style={[styles.rowDetail, dynamicStyles.rowDetail]}>
+                        {expense.spentOn.toLocaleDateString()} · {expense.paidBy === share.id
+                          ? '💳 Paid the bill'
+                          : share.paid
+                            ? '✓ Paid'
+                            : share.payments.length > 0 ? `${MoneyService.format(PaymentService.remaining(share))} left` : 'Unpaid'}
+                      </Text>
+                    </View>
+                    <Text style={[styles.amount, dynamicStyles.rowTitle, share.paid && styles.amountPaid]}>
+                      {MoneyService.format(share.amount)}
+                    </Text>
+                  </View>
+                ))
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, dynamicStyles.sectionTitle]}>Payments</Text>
+              {payments.length === 0 ? (
+                <Text style={[styles.emptyText, dynamicStyles.sectionDescription]}>No payments yet</Text>
+              ) : (
+                payments.map(({ expense, payment }) => (
+                  <View key={`${expense.id}-${payment.id}`} style={styles.row}>
+                    <View style={styles.rowInfo}>
+                      <Text style={[styles.rowTitle, dynamicStyles.rowDetail]}>For {expense.title}</Text>
+                      <Text style={[styles.rowDetail, dynamicStyles.rowDetail]}>
+                        {payment.paidAt.toLocaleDateString()} · {PAYMENT_METHOD_LABELS[payment.method]}
+                        {payment.note ? ` · ${payment.note}` : ''}
+                      </Text>
+                    </View>
+                    <Text style={[styles.amount, dynamicStyles.rowDetail]}>{MoneyService.format(payment.amount)}</Text>
+                  </View>
+                ))
+              )}
+            </View>
+
+            {otherContacts.length > 0 && (
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, dynamicStyles.sectionTitle]}>Merge</Text>
+                <Text style={[styles.sectionDescription, dynamicStyles.sectionDescription]}>
+                  Same person saved under another name? Pick them to move their expenses to {contact.name}.
+                </Text>
+                <View style={styles.chipRow}>
+                  {otherContacts.map((other) => (
+                    <TouchableOpacity key={other.id} style={styles.chip} onPress={() => setMergeSource(other)}>
+                      <Text style={styles.chipText}>{other.name}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      {/* Merge confirmation popup */}
+      {mergeSource && contact && (
+        <View style={styles.confirmOverlay}>
+          <View style={styles.confirmPopup}>
+            <Text style={styles.confirmTitle}>Merge People</Text>
+            <Text style={styles.confirmMessage}>
+              Merge {mergeSource.name} into {contact.name}? Their expenses will be listed under {contact.name} and {mergeSource.name} will be removed.
+            </Text>
+            <View style={styles.confirmButtons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setMergeSource(null)} disabled={merging}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.confirmButton} onPress={confirmMerge} disabled={merging}>
+                <Text style={styles.confirmButtonText}>{merging ? 'Merging...' : 'Merge'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    backgroundColor: '#6C55BE',
+    paddingTop: 50,
+    paddingBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  backButton: {
+    position: 'absolute',
+    left: 20,
+    top: 50,
+  },
+  backButtonText: {
+    color: '#FFFFFF',
+    fontSize: 36,
+    fontWeight: '300',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  warningBox: {
+    backgroundColor: '#FFF3E0',
+    borderWidth: 2,
+    borderColor: '#FF9800',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  warningText: {
+    color: '#E65100',
+    fontSize: 14,
+    fontWeight: '500',
+    textAlign: 'center',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+  },
+  balanceSection: {
+    alignItems: 'center',
+  },
+  balanceAmount: {
+    color: '#6C55BE',
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#6C55BE',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#8B7BA8',
+    marginBottom: 16,
+  },
+  emptyText: {
+    color: '#8B7BA8',
+    fontStyle: 'italic',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  rowDetail: {
+    color: '#8B7BA8',
+    marginTop: 2,
+  },
+  amount: {
+    color: '#6C55BE',
+    fontWeight: 'bold',
+  },
+  amountOwed: {
+    color: '#E65100',
+  },
+  amountPaid: {
+    color: '#8B7BA8',
+    textDecorationLine: 'line-through',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: '#F3F4F6',
+    borderWidth: 2,
+    borderColor: '#CEE476',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    color: '#6C55BE',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  confirmOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 999999,
+    elevation: 999999,
+  },
+  confirmPopup: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    marginHorizontal: 30,
+    minWidth: 280,
+    borderWidth: 2,
+    borderColor: '#9b59b6',
+  },
+  confirmTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#9b59b6',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  confirmMessage: {
+    fontSize: 16,
+    color: '#555',
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  confirmButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: '#6C55BE',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
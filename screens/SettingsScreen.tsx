@@ -3,8 +3,13 @@ import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-nati
 import { useAuth } from '../contexts/AuthContext';
 import { useNotification } from '../contexts/NotificationContext';
 import { useAccessibility } from '../contexts/AccessibilityContext';
-import { collection, query, where, onSnapshot, doc, getDoc } from 'firebase/firestore';
-import { db } from '../firebaseConfig';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { getRepositories } from '../repositories';
+import { MoneyService } from '../services/MoneyService';
+import { BalanceService } from '../services/BalanceService';
+import { CategoryService } from '../services/CategoryService';
+import { TaskListService } from '../services/TaskListService';
+import { Todo, Expense, Category, TaskList, NotificationFrequency } from '../types';
 import { useFocusEffect } from '@react-navigation/native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
@@ -12,6 +17,7 @@ export default function SettingsScreen({ navigation }: any) {
   const { currentUser, logout, userName, weeklyGoal, monthlyGoal } = useAuth();
   const { showNotification } = useNotification();
   const { fontScale, isOnline, isConnected, offlineMode, toggleOfflineMode } = useAccessibility();
+  const { homeCurrency, totalInHome, toHome } = useCurrency();
   const deleteTimeouts = useRef<{ [key: string]: NodeJS.Timeout }>({});
 
   // Dynamic styles based on font scale
@@ -40,13 +46,19 @@ export default function SettingsScreen({ navigation }: any) {
 
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
   const [dailyRemindersEnabled, setDailyRemindersEnabled] = useState(false);
-  const [frequency, setFrequency] = useState<'none' | 'daily' | 'weekly' | 'once'>('none');
-  const [todos, setTodos] = useState<any[]>([]);
-  const [expenses, setExpenses] = useState<any[]>([]);
+  const [frequency, setFrequency] = useState<NotificationFrequency>('none');
+  const [todos, setTodos] = useState<Todo[]>([]);
+  const [taskLists, setTaskLists] = useState<TaskList[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
   const [logoutConfirm, setLogoutConfirm] = useState(false);
   const [deleteAccountConfirm, setDeleteAccountConfirm] = useState(false);
 
+  // Total spent in the home currency, converting each expense at the rate for the day it was spent
+  const spendingTotal = (list: Expense[]) =>
+    totalInHome(list.map(expense => ({ amount: expense.totalAmount, date: expense.spentOn }))).total;
+
   // Calculate expense analytics
   const getWeeklySpending = () => {
     const now = new Date();
@@ -57,15 +69,15 @@ export default function SettingsScreen({ navigation }: any) {
     const lastWeekStart = new Date(currentWeekStart);
     lastWeekStart.setDate(currentWeekStart.getDate() - 7);
     
-    const thisWeekExpenses = expenses.filter(expense => {
-      const expenseDate = new Date(expense.createdAt);
+    const thisWeekExpenses = spendingTotal(expenses.filter(expense => {
+      const expenseDate = new Date(expense.spentOn);
       return expenseDate >= currentWeekStart && expenseDate <= now;
-    }).reduce((sum, expense) => sum + expense.totalAmount, 0);
+    }));
     
-    const lastWeekExpenses = expenses.filter(expense => {
-      const expenseDate = new Date(expense.createdAt);
+    const lastWeekExpenses = spendingTotal(expenses.filter(expense => {
+      const expenseDate = new Date(expense.spentOn);
       return expenseDate >= lastWeekStart && expenseDate < currentWeekStart;
-    }).reduce((sum, expense) => sum + expense.totalAmount, 0);
+    }));
     
     return { thisWeek: thisWeekExpenses, lastWeek: lastWeekExpenses };
   };
@@ -78,14 +90,22 @@ export default function SettingsScreen({ navigation }: any) {
       const monthDate = new Date(now.getFullYear(), now.getMonth() - i, 1);
       const nextMonth = new Date(now.getFullYear(), now.getMonth() - i + 1, 1);
       
-      const monthExpenses = expenses.filter(expense => {
-        const expenseDate = new Date(expense.createdAt);
+      const monthExpenses = spendingTotal(expenses.filter(expense => {
+        const expenseDate = new Date(expense.spentOn);
         return expenseDate >= monthDate && expenseDate < nextMonth;
-      }).reduce((sum, expense) => sum + expense.totalAmount, 0);
+      }));
       
+      // Biggest categories first; uncategorized spending is left out of the breakdown
+      const byCategory = [...CategoryService.spendingByCategory(expenses, categories, homeCurrency, toHome, monthDate)]
+        .filter(([categoryId, amount]) => categoryId && amount.minorUnits > 0)
+        .map(([categoryId, amount]) => ({ category: CategoryService.find(categories, categoryId)!, amount }))
+        .sort((a, b) => b.amount.minorUnits - a.amount.minorUnits)
+        .slice(0, 3);
+
       months.push({
         month: monthDate.toLocaleString('default', { month: 'short' }),
-        amount: monthExpenses
+        amount: monthExpenses,
+        byCategory
       });
     }
     
@@ -94,19 +114,19 @@ export default function SettingsScreen({ navigation }: any) {
 
   const getSeasonalComparison = () => {
     const now = new Date();
-    const thisMonthExpenses = expenses.filter(expense => {
-      const expenseDate = new Date(expense.createdAt);
+    const thisMonthExpenses = spendingTotal(expenses.filter(expense => {
+      const expenseDate = new Date(expense.spentOn);
       return expenseDate.getMonth() === now.getMonth() && 
              expenseDate.getFullYear() === now.getFullYear();
-    }).reduce((sum, expense) => sum + expense.totalAmount, 0);
+    }));
     
     const lastYearStart = new Date(now.getFullYear() - 1, now.getMonth(), 1);
     const lastYearEnd = new Date(now.getFullYear() - 1, now.getMonth() + 1, 1);
     
-    const lastYearSameMonth = expenses.filter(expense => {
-      const expenseDate = new Date(expense.createdAt);
+    const lastYearSameMonth = spendingTotal(expenses.filter(expense => {
+      const expenseDate = new Date(expense.spentOn);
       return expenseDate >= lastYearStart && expenseDate < lastYearEnd;
-    }).reduce((sum, expense) => sum + expense.totalAmount, 0);
+    }));
     
     return { thisYear: thisMonthExpenses, lastYear: lastYearSameMonth };
   };
@@ -114,6 +134,7 @@ export default function SettingsScreen({ navigation }: any) {
   const weeklyTrend = getWeeklySpending();
   const monthlyPattern = getMonthlyPattern();
   const seasonalComparison = getSeasonalComparison();
+  const { owedToYou, youOwe } = BalanceService.computeBalances(expenses, homeCurrency, toHome);
 
   // Load notification preferences from AsyncStorage first (faster and works offline)
   const loadNotificationPreferences = async () => {
@@ -135,9 +156,8 @@ export default function SettingsScreen({ navigation }: any) {
       // Only load from Firestore if no pending changes (to avoid showing old data)
       if (hasPending !== 'true') {
         try {
-          const userDoc = await getDoc(doc(db, 'users', currentUser.uid));
-          if (userDoc.exists()) {
-            const data = userDoc.data();
+          const data = await getRepositories().userProfiles.get(currentUser.uid);
+          if (data) {
             setNotificationsEnabled(data.notificationsEnabled ?? false);
             setDailyRemindersEnabled(data.dailyRemindersEnabled ?? false);
             setFrequency(data.notificationFrequency ?? 'none');
@@ -166,23 +186,32 @@ export default function SettingsScreen({ navigation }: any) {
 
     loadNotificationPreferences();
 
+    const {
+      todos: todoRepository,
+      expenses: expenseRepository,
+      categories: categoryRepository,
+      taskLists: taskListRepository,
+    } = getRepositories();
+
     // Load todos
-    const todosQuery = query(collection(db, 'todos'), where('userId', '==', currentUser.uid));
-    const unsubscribeTodos = onSnapshot(todosQuery, (snapshot) => {
-      const todosData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-      setTodos(todosData);
+    const unsubscribeTodos = todoRepository.subscribe(currentUser.uid, setTodos);
+
+    // Load task lists for the per-list completion counts
+    const unsubscribeTaskLists = taskListRepository.subscribe(currentUser.uid, (listsData) => {
+      setTaskLists(TaskListService.sortByName(listsData));
     });
 
     // Load expenses
-    const expensesQuery = query(collection(db, 'expenses'), where('userId', '==', currentUser.uid));
-    const unsubscribeExpenses = onSnapshot(expensesQuery, (snapshot) => {
-      const expensesData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-      setExpenses(expensesData);
-    });
+    const unsubscribeExpenses = expenseRepository.subscribe(currentUser.uid, setExpenses);
+
+    // Load categories for the spending breakdown
+    const unsubscribeCategories = categoryRepository.subscribe(currentUser.uid, setCategories);
 
     return () => {
       unsubscribeTodos();
+      unsubscribeTaskLists();
       unsubscribeExpenses();
+      unsubscribeCategories();
     };
   }, [currentUser]);
 
@@ -233,24 +262,19 @@ export default function SettingsScreen({ navigation }: any) {
   // Calculate task completion rates
   const completedTodos = todos.filter(todo => todo.completed).length;
   const completionRate = todos.length > 0 ? Math.round((completedTodos / todos.length) * 100) : 0;
+  const listStats = TaskListService.stats(todos, taskLists);
 
   // Calculate weekly completion rate
   const weekStart = new Date();
   weekStart.setDate(weekStart.getDate() - weekStart.getDay());
-  const weeklyTodos = todos.filter(todo => {
-    const todoDate = new Date(todo.createdAt?.seconds * 1000 || todo.createdAt);
-    return todoDate >= weekStart;
-  });
+  const weeklyTodos = todos.filter(todo => todo.createdAt >= weekStart);
   const weeklyCompleted = weeklyTodos.filter(todo => todo.completed).length;
   const weeklyCompletionRate = weeklyTodos.length > 0 ? Math.round((weeklyCompleted / weeklyTodos.length) * 100) : 0;
 
   // Calculate monthly completion rate
   const monthStart = new Date();
   monthStart.setDate(1);
-  const monthlyTodos = todos.filter(todo => {
-    const todoDate = new Date(todo.createdAt?.seconds * 1000 || todo.createdAt);
-    return todoDate >= monthStart;
-  });
+  const monthlyTodos = todos.filter(todo => todo.createdAt >= monthStart);
   const monthlyCompleted = monthlyTodos.filter(todo => todo.completed).length;
   const monthlyCompletionRate = monthlyTodos.length > 0 ? Math.round((monthlyCompleted / monthlyTodos.length) * 100) : 0;
 
@@ -388,6 +412,31 @@ export default function SettingsScreen({ navigation }: any) {
             </Text>
           </View>
 
+          {/* Completion by List */}
+          {taskLists.length > 0 && (
+            <View style={styles.statCard}>
+              <Text style={styles.statTitle}>Completion by List</Text>
+              {listStats.map((entry) => {
+                const list = TaskListService.find(taskLists, entry.listId);
+                return (
+                  <View key={entry.listId || 'none'} style={styles.listStatRow}>
+                    <View style={styles.listStatLabels}>
+                      <Text style={styles.listStatName}>
+                        {list ? `${list.icon} ${list.name}` : '📥 No List'}
+                      </Text>
+                      <Text style={styles.listStatCount}>
+                        {entry.completed}/{entry.total}
+                      </Text>
+                    </View>
+                    <View style={styles.listStatTrack}>
+                      <View style={[styles.listStatFill, { width: `${entry.percent}%`, backgroundColor: list?.color ?? '#8B7BA8' }]} />
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
           {/* Weekly Goal Progress */}
           <View style={styles.statCard}>
             <Text style={styles.statTitle}>Weekly Goal Progress</Text>
@@ -466,23 +515,35 @@ export default function SettingsScreen({ navigation }: any) {
             <View style={styles.trendItem}>
               <Text style={[styles.trendLabel, dynamicStyles.trendLabel]}>This Week vs Last Week</Text>
               <View style={styles.trendComparison}>
-                <Text style={[styles.trendValue, dynamicStyles.trendValue]}>${Math.round(weeklyTrend.thisWeek)}</Text>
+                <Text style={[styles.trendValue, dynamicStyles.trendValue]}>{MoneyService.format(weeklyTrend.thisWeek, { wholeUnits: true })}</Text>
                 <Text style={[styles.trendVs, dynamicStyles.trendVs]}>vs</Text>
-                <Text style={[styles.trendValue, dynamicStyles.trendValue]}>${Math.round(weeklyTrend.lastWeek)}</Text>
-                {weeklyTrend.thisWeek !== 0 && weeklyTrend.lastWeek !== 0 && (
+                <Text style={[styles.trendValue, dynamicStyles.trendValue]}>{MoneyService.format(weeklyTrend.lastWeek, { wholeUnits: true })}</Text>
+                {weeklyTrend.thisWeek.minorUnits !== 0 && weeklyTrend.lastWeek.minorUnits !== 0 && (
                   <Text style={[
                     styles.trendPercentage, 
                     dynamicStyles.trendPercentage,
-                    weeklyTrend.thisWeek > weeklyTrend.lastWeek ? styles.trendUp : styles.trendDown
+                    weeklyTrend.thisWeek.minorUnits > weeklyTrend.lastWeek.minorUnits ? styles.trendUp : styles.trendDown
                   ]}>
-                    {weeklyTrend.lastWeek > 0 ? 
-                      `${Math.round(((weeklyTrend.thisWeek - weeklyTrend.lastWeek) / weeklyTrend.lastWeek) * 100)}%` : 
+                    {weeklyTrend.lastWeek.minorUnits > 0 ? 
+                      `${Math.round(((weeklyTrend.thisWeek.minorUnits - weeklyTrend.lastWeek.minorUnits) / weeklyTrend.lastWeek.minorUnits) * 100)}%` : 
                       'New spending'}
                   </Text>
                 )}
               </View>
             </View>
 
+            {/* Balances in both directions */}
+            <TouchableOpacity style={styles.trendItem} onPress={() => navigation.navigate('Balances')}>
+              <Text style={[styles.trendLabel, dynamicStyles.trendLabel]}>Owed to Me vs I Owe ›</Text>
+              <View style={styles.trendComparison}>
+                <Text style={[styles.trendValue, dynamicStyles.trendValue]}>{MoneyService.format(owedToYou, { wholeUnits: true })}</Text>
+                <Text style={[styles.trendVs, dynamicStyles.trendVs]}>vs</Text>
+                <Text style={[styles.trendValue, dynamicStyles.trendValue, youOwe.minorUnits > 0 && styles.trendUp]}>
+                  {MoneyService.format(youOwe, { wholeUnits: true })}
+                </Text>
+              </View>
+            </TouchableOpacity>
+
             {/* Monthly Pattern */}
             <View style={styles.trendItem}>
               <Text style={[styles.trendLabel, dynamicStyles.trendLabel]}>3-Month Pattern</Text>
@@ -490,28 +551,33 @@ export default function SettingsScreen({ navigation }: any) {
                 {monthlyPattern.map((month, index) => (
                   <View key={index} style={styles.monthItem}>
                     <Text style={[styles.monthLabel, dynamicStyles.monthLabel]}>{month.month}</Text>
-                    <Text style={[styles.monthValue, dynamicStyles.monthValue]}>${Math.round(month.amount)}</Text>
+                    <Text style={[styles.monthValue, dynamicStyles.monthValue]}>{MoneyService.format(month.amount, { wholeUnits: true })}</Text>
+                    {month.byCategory.map(({ category, amount }) => (
+                      <Text key={category.id} style={[styles.monthCategory, dynamicStyles.monthLabel]}>
+                        {category.icon} {MoneyService.format(amount, { wholeUnits: true })}
+                      </Text>
+                    ))}
                   </View>
                 ))}
               </View>
             </View>
 
             {/* Seasonal Comparison */}
-            {seasonalComparison.lastYear > 0 && (
+            {seasonalComparison.lastYear.minorUnits > 0 && (
               <View style={styles.trendItem}>
                 <Text style={[styles.trendLabel, dynamicStyles.trendLabel]}>Year-over-Year</Text>
                 <View style={styles.trendComparison}>
-                  <Text style={[styles.trendValue, dynamicStyles.trendValue]}>${Math.round(seasonalComparison.thisYear)}</Text>
+                  <Text style={[styles.trendValue, dynamicStyles.trendValue]}>{MoneyService.format(seasonalComparison.thisYear, { wholeUnits: true })}</Text>
                   <Text style={[styles.trendVs, dynamicStyles.trendVs]}>vs</Text>
-                  <Text style={[styles.trendValue, dynamicStyles.trendValue]}>${Math.round(seasonalComparison.lastYear)}</Text>
+                  <Text style={[styles.trendValue, dynamicStyles.trendValue]}>{MoneyService.format(seasonalComparison.lastYear, { wholeUnits: true })}</Text>
                   <Text style={[styles.trendPeriod, dynamicStyles.trendPeriod]}>(same month last year)</Text>
-                  {seasonalComparison.thisYear !== 0 && seasonalComparison.lastYear !== 0 && (
+                  {seasonalComparison.thisYear.minorUnits !== 0 && seasonalComparison.lastYear.minorUnits !== 0 && (
                     <Text style={[
                       styles.trendPercentage, 
                       dynamicStyles.trendPercentage,
-                      seasonalComparison.thisYear > seasonalComparison.lastYear ? styles.trendUp : styles.trendDown
+                      seasonalComparison.thisYear.minorUnits > seasonalComparison.lastYear.minorUnits ? styles.trendUp : styles.trendDown
                     ]}>
-                      {Math.round(((seasonalComparison.thisYear - seasonalComparison.lastYear) / seasonalComparison.lastYear) * 100)}%
+                      {Math.round(((seasonalComparison.thisYear.minorUnits - seasonalComparison.lastYear.minorUnits) / seasonalComparison.lastYear.minorUnits) * 100)}%
                     </Text>
                   )}
                 </View>
@@ -560,6 +626,50 @@ export default function SettingsScreen({ navigation }: any) {
             <Text style={styles.chevron}>›</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity 
+            style={styles.settingItem} 
+            onPress={() => navigation.navigate('CurrencySettings')}
+          >
+            <View>
+              <Text style={styles.settingLabel}>Currency</Text>
+              <Text style={styles.settingSubtext}>Home currency {homeCurrency} & exchange rates</Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.settingItem} 
+            onPress={() => navigation.navigate('Contacts')}
+          >
+            <View>
+              <Text style={styles.settingLabel}>People</Text>
+              <Text style={styles.settingSubtext}>Everyone you split expenses with</Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.settingItem} 
+            onPress={() => navigation.navigate('TaskLists')}
+          >
+            <View>
+              <Text style={styles.settingLabel}>Task Lists</Text>
+              <Text style={styles.settingSubtext}>Work, Home, Groceries and more</Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.settingItem} 
+            onPress={() => navigation.navigate('Categories')}
+          >
+            <View>
+              <Text style={styles.settingLabel}>Categories & Budgets</Text>
+              <Text style={styles.settingSubtext}>Sort expenses and set monthly limits</Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity 
             style={styles.settingItem} 
             onPress={() => navigation.navigate('DataManagement')}
@@ -808,6 +918,33 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#6C55BE',
   },
+  listStatRow: {
+    alignSelf: 'stretch',
+    marginBottom: 10,
+  },
+  listStatLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  listStatName: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  listStatCount: {
+    color: '#6C55BE',
+    fontWeight: 'bold',
+  },
+  listStatTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+  },
+  listStatFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
   settingItem: {
     backgroundColor: '#F9FAFB',
     borderWidth: 2,
@@ -1051,6 +1188,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#CEE476',
   },
+  monthCategory: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
   deleteOverlay: {
     position: 'absolute',
     top: 0,
@@ -0,0 +1,460 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput } from 'react-native';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotification } from '../contexts/NotificationContext';
+import { useAccessibility } from '../contexts/AccessibilityContext';
+import { getRepositories } from '../repositories';
+import { TaskListService, DEFAULT_TASK_LIST_ICON, TASK_LIST_COLORS } from '../services/TaskListService';
+import { TaskList, Todo } from '../types';
+
+export default function TaskListsScreen({ navigation }: any) {
+  const [lists, setLists] = useState<TaskList[]>([]);
+  const [todos, setTodos] = useState<Todo[]>([]);
+  const [editingList, setEditingList] = useState<TaskList | null>(null);
+  const [icon, setIcon] = useState('');
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(TASK_LIST_COLORS[0]);
+  const [deleteConfirm, setDeleteConfirm] = useState<TaskList | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const { currentUser } = useAuth();
+  const { showNotification } = useNotification();
+  const { fontScale } = useAccessibility();
+
+  // Dynamic styles based on font scale
+  const dynamicStyles = {
+    sectionTitle: { fontSize: 18 * fontScale },
+    sectionDescription: { fontSize: 14 * fontScale },
+    rowTitle: { fontSize: 16 * fontScale },
+    rowDetail: { fontSize: 13 * fontScale },
+  };
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const { taskLists: taskListRepository, todos: todoRepository } = getRepositories();
+    const unsubscribeLists = taskListRepository.subscribe(currentUser.uid, (listsData) => {
+      setLists(TaskListService.sortByName(listsData));
+    });
+    const unsubscribeTodos = todoRepository.subscribe(currentUser.uid, setTodos);
+    return () => {
+      unsubscribeLists();
+      unsubscribeTodos();
+    };
+  }, [currentUser]);
+
+  const stats = TaskListService.stats(todos, lists);
+
+  const resetForm = () => {
+    setEditingList(null);
+    setIcon('');
+    setName('');
+    setColor(TASK_LIST_COLORS[0]);
+  };
+
+  const startEditing = (list: TaskList) => {
+    setEditingList(list);
+    setIcon(list.icon);
+    setName(list.name);
+    setColor(list.color);
+  };
+
+  const handleSaveList = async () => {
+    const trimmedName = name.trim();
+    if (!trimmedName || !currentUser) {
+      showNotification('Missing Name', 'Please enter a list name', 'error');
+      return;
+    }
+    const duplicate = lists.find(list =>
+      list.id !== editingList?.id && list.name.toLowerCase() === trimmedName.toLowerCase()
+    );
+    if (duplicate) {
+      showNotification('Already Added', `${trimmedName} is already a list`, 'warning');
+      return;
+    }
+
+    try {
+      const taskListRepository = getRepositories().taskLists;
+      const fields = { name: trimmedName, icon: icon.trim() || DEFAULT_TASK_LIST_ICON, color, updatedAt: new Date() };
+      if (editingList) {
+        await taskListRepository.update(editingList.id, fields, editingList);
+      } else {
+        await taskListRepository.add({ ...fields, createdAt: new Date(), userId: currentUser.uid });
+      }
+      resetForm();
+    } catch (error) {
+      showNotification('Error', 'Failed to save list', 'error');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteConfirm) return;
+    setDeleting(true);
+    try {
+      await TaskListService.removeList(deleteConfirm, todos);
+      if (editingList?.id === deleteConfirm.id) resetForm();
+      showNotification('Deleted', `${deleteConfirm.name} removed`, 'success');
+    } catch (error) {
+      showNotification('Delete Failed', 'Failed to delete list', 'error');
+    } finally {
+      setDeleting(false);
+      setDeleteConfirm(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Task Lists</Text>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, dynamicStyles.sectionTitle]}>Your Lists</Text>
+          <Text style={[styles.sectionDescription, dynamicStyles.sectionDescription]}>
+            Tap a list to rename it or change its icon and color. Switch between lists at the top of the Todos tab.
+          </Text>
+
+          {lists.length === 0 ? (
+            <Text style={[styles.emptyText, dynamicStyles.sectionDescription]}>No lists yet - add one below, e.g. Work or Groceries</Text>
+          ) : (
+            lists.map((list) => {
+              const listStats = stats.find(entry => entry.listId === list.id);
+              return (
+                <TouchableOpacity
+                  key={list.id}
+                  style={[styles.row, editingList?.id === list.id && styles.rowEditing]}
+                  onPress={() => startEditing(list)}
+                >
+                  <Text style={[styles.rowIcon, dynamicStyles.rowTitle]}>{list.icon}</Text>
+                  <View style={styles.rowInfo}>
+                    <View style={styles.rowTitleLine}>
+                      <View style={[styles.colorDot, { backgroundColor: list.color }]} />
+                      <Text style={[styles.rowTitle, dynamicStyles.rowTitle]}>{list.name}</Text>
+                    </View>
+                    <Text style={[styles.rowDetail, dynamicStyles.rowDetail]}>
+                      {listStats && listStats.total > 0
+                        ? `${listStats.completed} of ${listStats.total} done (${listStats.percent}%)`
+                        : 'No tasks yet'}
+                    </Text>
+                    {listStats && listStats.total > 0 && (
+                      <View style={styles.progressTrack}>
+                        <View style={[styles.progressFill, { width: `${listStats.percent}%`, backgroundColor: list.color }]} />
+                      </View>
+                    )}
+                  </View>
+                  <TouchableOpacity onPress={() => setDeleteConfirm(list)} style={styles.deleteButton}>
+                    <Text style={styles.deleteButtonText}>🗑️</Text>
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, dynamicStyles.sectionTitle]}>
+            {editingList ? 'Edit List' : 'Add List'}
+          </Text>
+          <View style={styles.formRow}>
+            <TextInput
+              style={[styles.input, styles.iconInput]}
+              placeholder={DEFAULT_TASK_LIST_ICON}
+              placeholderTextColor="#8B7BA8"
+              value={icon}
+              onChangeText={setIcon}
+              maxLength={4}
+            />
+            <TextInput
+              style={[styles.input, styles.nameInput]}
+              placeholder="Name"
+              placeholderTextColor="#8B7BA8"
+              value={name}
+              onChangeText={setName}
+            />
+          </View>
+          <View style={styles.colorRow}>
+            {TASK_LIST_COLORS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.colorSwatch, { backgroundColor: option }, color === option && styles.colorSwatchSelected]}
+                onPress={() => setColor(option)}
+              />
+            ))}
+          </View>
+          <View style={styles.formButtons}>
+            {editingList && (
+              <TouchableOpacity style={styles.cancelButton} onPress={resetForm}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.saveButton} onPress={handleSaveList}>
+              <Text style={styles.saveButtonText}>{editingList ? 'Update List' : 'Add List'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+
+      {/* Delete confirmation popup */}
+      {deleteConfirm && (
+        <View style={styles.confirmOverlay}>
+          <View style={styles.confirmPopup}>
+            <Text style={styles.confirmTitle}>Delete List</Text>
+            <Text style={styles.confirmMessage}>
+              Delete "{deleteConfirm.name}"? Its tasks are kept and will show under All Tasks.
+            </Text>
+            <View style={styles.confirmButtons}>
+              <TouchableOpacity style={styles.confirmCancelButton} onPress={() => setDeleteConfirm(null)} disabled={deleting}>
+                <Text style={styles.confirmCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.confirmButton} onPress={confirmDelete} disabled={deleting}>
+                <Text style={styles.confirmButtonText}>{deleting ? 'Deleting...' : 'Delete'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    backgroundColor: '#6C55BE',
+    paddingTop: 50,
+    paddingBottom: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  backButton: {
+    position: 'absolute',
+    left: 20,
+    top: 50,
+  },
+  backButtonText: {
+    color: '#FFFFFF',
+    fontSize: 36,
+    fontWeight: '300',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#6C55BE',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#8B7BA8',
+    marginBottom: 16,
+  },
+  emptyText: {
+    color: '#8B7BA8',
+    fontStyle: 'italic',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  rowEditing: {
+    backgroundColor: '#F0EDF7',
+  },
+  rowIcon: {
+    width: 32,
+    textAlign: 'center',
+    marginRight: 8,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  rowDetail: {
+    color: '#8B7BA8',
+    marginTop: 2,
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 6,
+  },
+  rowTitleLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+    marginTop: 6,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  deleteButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  deleteButtonText: {
+    fontSize: 20,
+  },
+  formRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#333',
+  },
+  iconInput: {
+    width: 56,
+    textAlign: 'center',
+  },
+  nameInput: {
+    flex: 1,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginBottom: 16,
+  },
+  colorSwatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 3,
+    borderColor: 'transparent',
+  },
+  colorSwatchSelected: {
+    borderColor: '#333',
+  },
+  formButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#8B7BA8',
+    fontWeight: '600',
+  },
+  saveButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#6C55BE',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  confirmOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 999999,
+    elevation: 999999,
+  },
+  confirmPopup: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    marginHorizontal: 30,
+    minWidth: 280,
+    borderWidth: 2,
+    borderColor: '#9b59b6',
+  },
+  confirmTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#9b59b6',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  confirmMessage: {
+    fontSize: 16,
+    color: '#555',
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  confirmButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  confirmCancelButton: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  confirmCancelText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: '#ff6b6b',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -4,7 +4,6 @@ import {
   Text,
   TextInput,
   TouchableOpacity,
-  FlatList,
   StyleSheet,
   Modal,
   SafeAreaView,
@@ -16,32 +15,79 @@ import {
 import DateTimePicker from '@react-native-community/datetimepicker';
 import ConfettiCannon from 'react-native-confetti-cannon';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { 
-  collection, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
-  doc, 
-  query, 
-  where, 
-  orderBy, 
-  onSnapshot 
-} from 'firebase/firestore';
-import { db } from '../firebaseConfig';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotification } from '../contexts/NotificationContext';
 import { useAccessibility } from '../contexts/AccessibilityContext';
-import { Todo } from '../types';
+import { useSync } from '../contexts/SyncContext';
+import { getRepositories, InvalidDocument } from '../repositories';
+import NeedsRepairBanner from '../components/NeedsRepairBanner';
+import DraggableList from '../components/DraggableList';
+import { NotificationService, REMINDER_OFFSET_PRESETS } from '../services/NotificationService';
+import { RecurrenceService } from '../services/RecurrenceService';
+import {
+  TodoFilterService,
+  TodoFilter,
+  TodoDueFilter,
+  TodoStatusFilter,
+  TodoSort,
+  SmartList,
+  DEFAULT_TODO_FILTER,
+  TODO_DUE_LABELS,
+  TODO_STATUS_LABELS,
+  TODO_SORT_LABELS,
+} from '../services/TodoFilterService';
+import { TaskListService } from '../services/TaskListService';
+import { PriorityService, PRIORITY_LEVELS, PRIORITY_LABELS } from '../services/PriorityService';
+import { OrderService } from '../services/OrderService';
+import { DependencyService } from '../services/DependencyService';
+import { SnoozeService, SNOOZE_OPTIONS, SNOOZE_LABELS } from '../services/SnoozeService';
+import { Todo, Subtask, TaskList, Priority, TaskReminder, RecurrenceFrequency, RecurrenceRule } from '../types';
+
+const REPEAT_OPTIONS: { value: RecurrenceFrequency | 'never'; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Weekdays' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+const INTERVAL_UNITS: { [key in RecurrenceFrequency]: string } = {
+  daily: 'day',
+  weekdays: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+const WEEKDAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const DUE_FILTERS: TodoDueFilter[] = ['any', 'overdue', 'today', 'upcoming', 'noDate'];
+const STATUS_FILTERS: TodoStatusFilter[] = ['all', 'active', 'snoozed', 'completed'];
+const SORT_OPTIONS: TodoSort[] = ['priority', 'dueDate', 'updated', 'manual'];
+
+// Todos saved before per-task reminders existed had a single reminder 1 hour before
+const LEGACY_REMINDERS: TaskReminder[] = [{ type: 'before', minutes: 60 }];
+
+// Longest wait before checking again for snoozed tasks that are due back (setTimeout can't go past ~24 days)
+const MAX_SNOOZE_REFRESH_MS = 24 * 60 * 60 * 1000;
 
 interface TodoItemProps {
   todo: Todo;
   onToggle: (id: string, completed: boolean) => void;
-  onTogglePriority: (id: string, priority: boolean) => void;
+  onSetPriority: (id: string, priority: Priority) => void;
   onEdit: (todo: Todo) => void;
   onDelete: (id: string) => void;
+  onTagPress: (tag: string) => void;
+  onSnooze: (todo: Todo) => void;
+  list?: TaskList; // Shown as a badge when viewing all lists
+  onLongPress: () => void;
+  isDragging: boolean;
+  blockers: Todo[]; // Open tasks this one is waiting on
+  pendingSync: boolean;
 }
 
-function TodoItem({ todo, onToggle, onTogglePriority, onEdit, onDelete }: TodoItemProps) {
+function TodoItem({ todo, onToggle, onSetPriority, onEdit, onDelete, onTagPress, onSnooze, list, onLongPress, isDragging, blockers, pendingSync }: TodoItemProps) {
   const [showSubtasks, setShowSubtasks] = useState(false);
   const { fontScale } = useAccessibility();
   const { showNotification } = useNotification();
@@ -79,10 +125,10 @@ function TodoItem({ todo, onToggle, onTogglePriority, onEdit, onDelete }: TodoIt
     );
     
     try {
-      await updateDoc(doc(db, 'todos', todo.id), {
+      await getRepositories().todos.update(todo.id, {
         subtasks: updatedSubtasks,
         updatedAt: new Date(),
-      });
+      }, todo);
     } catch (error) {
       showNotification('Error', 'Failed to update subtask', 'error');
     }
@@ -114,19 +160,28 @@ function TodoItem({ todo, onToggle, onTogglePriority, onEdit, onDelete }: TodoIt
   };
 
   return (
-    <View style={[styles.todoItem, todo.priority && styles.todoItemPriority, getUrgencyStyle()]}>
+    <View style={[
+      styles.todoItem,
+      todo.priority !== 'none' && [styles.todoItemPriority, { borderLeftColor: PriorityService.color(todo.priority) }],
+      getUrgencyStyle(),
+      blockers.length > 0 && !todo.completed && styles.todoItemBlocked,
+      isDragging && styles.todoItemDragging,
+    ]}>
       <TouchableOpacity 
-        onPress={() => onTogglePriority(todo.id, !todo.priority)} 
-        style={[styles.priorityButton, todo.priority && styles.priorityButtonActive]}
+        onPress={() => onSetPriority(todo.id, PriorityService.next(todo.priority))} 
+        style={[styles.priorityButton, todo.priority !== 'none' && styles.priorityButtonActive]}
+        accessibilityLabel={`Priority: ${PRIORITY_LABELS[todo.priority]}`}
       >
-        <Text style={[styles.priorityButtonText, todo.priority && styles.priorityButtonTextActive, { fontSize: 20 * fontScale }]}>
-          {todo.priority ? '★' : '☆'}
+        <Text style={[styles.priorityButtonText, { color: PriorityService.color(todo.priority), fontSize: 20 * fontScale }]}>
+          {PriorityService.symbol(todo.priority)}
         </Text>
       </TouchableOpacity>
       <View style={styles.todoHeader}>
         <TouchableOpacity 
           style={styles.todoContent}
           onPress={() => onToggle(todo.id, !todo.completed)}
+          onLongPress={onLongPress}
+          delayLongPress={300}
         >
           <View style={[styles.checkbox, todo.completed && styles.checkboxCompleted]}>
             {todo.completed && <Text style={[styles.checkmark, { fontSize: 24 * fontScale }]}>✓</Text>}
@@ -150,6 +205,39 @@ function TodoItem({ todo, onToggle, onTogglePriority, onEdit, onDelete }: TodoIt
                 {todo.description}
               </Text>
             )}
+            {todo.recurrence && (
+              <Text style={[
+                styles.recurrenceText,
+                isOverdue() && styles.recurrenceTextOverdue,
+                { fontSize: 12 * fontScale }
+              ]}>
+                🔁 {RecurrenceService.describe(todo.recurrence)}
+              </Text>
+            )}
+            {SnoozeService.isDeferred(todo) && (
+              <Text style={[styles.snoozedText, { fontSize: 12 * fontScale }]}>
+                💤 Snoozed until {SnoozeService.formatStart(todo.startDate!)}
+              </Text>
+            )}
+            {blockers.length > 0 && !todo.completed && (
+              <Text style={[styles.blockedText, { fontSize: 12 * fontScale }]}>
+                ⛔ Blocked by {blockers.map(blocker => `"${blocker.title}"`).join(', ')}
+              </Text>
+            )}
+            {(list || (todo.tags && todo.tags.length > 0)) && (
+              <View style={styles.tagRow}>
+                {list && (
+                  <View style={[styles.listBadge, { borderColor: list.color }]}>
+                    <Text style={[styles.listBadgeText, { color: list.color, fontSize: 11 * fontScale }]}>{list.icon} {list.name}</Text>
+                  </View>
+                )}
+                {(todo.tags || []).map((tag) => (
+                  <TouchableOpacity key={tag} style={styles.tagChip} onPress={() => onTagPress(tag)}>
+                    <Text style={[styles.tagChipText, { fontSize: 11 * fontScale }]}>#{tag}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
             {todo.subtasks && todo.subtasks.length > 0 && (
               <TouchableOpacity 
                 style={styles.subtasksToggle}
@@ -192,6 +280,11 @@ function TodoItem({ todo, onToggle, onTogglePriority, onEdit, onDelete }: TodoIt
       </View>
       <View style={styles.todoActions}>
         <View style={styles.actionButtons}>
+          {pendingSync && (
+            <View style={styles.pendingBadge}>
+              <Text style={[styles.pendingBadgeText, { fontSize: 11 * fontScale }]}>⏳ Pending sync</Text>
+            </View>
+          )}
           {todo.dueDate && !todo.completed && (
             <Text style={[
               styles.dueDateText,
@@ -203,6 +296,11 @@ function TodoItem({ todo, onToggle, onTogglePriority, onEdit, onDelete }: TodoIt
               {formatDueDate()}
             </Text>
           )}
+          {!todo.completed && (
+            <TouchableOpacity onPress={() => onSnooze(todo)} style={styles.editButton} accessibilityLabel="Snooze">
+              <Text style={[styles.editButtonText, { fontSize: 24 * fontScale }]}>💤</Text>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity onPress={() => onEdit(todo)} style={styles.editButton}>
             <Text style={[styles.editButtonText, { fontSize: 24 * fontScale }]}>✏️</Text>
           </TouchableOpacity>
@@ -218,8 +316,9 @@ function TodoItem({ todo, onToggle, onTogglePriority, onEdit, onDelete }: TodoIt
   );
 }
 
-export default function TodoScreen() {
+export default function TodoScreen({ navigation }: any) {
   const [todos, setTodos] = useState<Todo[]>([]);
+  const [invalidTodos, setInvalidTodos] = useState<InvalidDocument[]>([]);
   const [loading, setLoading] = useState(true);
   const [modalVisible, setModalVisible] = useState(false);
   const [editingTodo, setEditingTodo] = useState<Todo | null>(null);
@@ -229,17 +328,42 @@ export default function TodoScreen() {
   const [dueTime, setDueTime] = useState<Date | null>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
-  const [subtasks, setSubtasks] = useState<{id: string; text: string; completed: boolean}[]>([]);
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [showStartDatePicker, setShowStartDatePicker] = useState(false);
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
   const [newSubtaskText, setNewSubtaskText] = useState('');
+  const [reminders, setReminders] = useState<TaskReminder[]>([]);
+  const [reminderPickerDate, setReminderPickerDate] = useState<Date | null>(null);
+  const [reminderPickerMode, setReminderPickerMode] = useState<'date' | 'time' | null>(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [listId, setListId] = useState<string | null>(null);
+  const [tagsInput, setTagsInput] = useState('');
+  const [blockedBy, setBlockedBy] = useState<string[]>([]);
+  const [blockedConfirm, setBlockedConfirm] = useState<Todo | null>(null);
+  const [snoozeTarget, setSnoozeTarget] = useState<Todo | null>(null);
+  const [snoozePickerDate, setSnoozePickerDate] = useState<Date | null>(null);
+  const [snoozeClock, setSnoozeClock] = useState(0); // Bumped to re-render when a snoozed task comes back
   const [showConfetti, setShowConfetti] = useState(false);
   const [draftRestored, setDraftRestored] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<{id: string, title: string} | null>(null);
   const [logoutConfirm, setLogoutConfirm] = useState(false);
+  const [filter, setFilter] = useState<TodoFilter>(DEFAULT_TODO_FILTER);
+  const [filterLoaded, setFilterLoaded] = useState(false);
+  const [filterModalVisible, setFilterModalVisible] = useState(false);
+  const [smartLists, setSmartLists] = useState<SmartList[]>([]);
+  const [smartListName, setSmartListName] = useState('');
+  const [taskLists, setTaskLists] = useState<TaskList[]>([]);
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [draggingTodo, setDraggingTodo] = useState(false);
+  const [draggingSubtask, setDraggingSubtask] = useState(false);
   const confettiRef = useRef<any>(null);
   const deleteTimeouts = useRef<{[key: string]: NodeJS.Timeout}>({});
+  const previousTodos = useRef<Todo[] | null>(null); // Last snapshot, to spot tasks that were just unblocked
   const { currentUser, logout } = useAuth();
   const { showNotification, currentNotification, hideNotification } = useNotification();
   const { fontScale } = useAccessibility();
+  const { isPending } = useSync();
+  const todoRepository = getRepositories().todos;
 
   // Dynamic styles based on font scale
   const dynamicStyles = {
@@ -301,7 +425,13 @@ export default function TodoScreen() {
             description,
             dueDate: dueDate?.toISOString(),
             dueTime: dueTime?.toISOString(),
+            startDate: startDate?.toISOString(),
             subtasks,
+            reminders,
+            recurrence,
+            listId,
+            tags: TaskListService.parseTags(tagsInput),
+            blockedBy,
             editingTodoId: null, // Always null for new todos
           };
           await AsyncStorage.setItem('@todo_draft', JSON.stringify(draft));
@@ -315,7 +445,14 @@ export default function TodoScreen() {
     // Save draft after 1 second of changes, but only if modal is still visible
     const timeoutId = setTimeout(saveDraft, 1000);
     return () => clearTimeout(timeoutId);
-  }, [title, description, dueDate, dueTime, subtasks, modalVisible, editingTodo]);
+  }, [title, description, dueDate, dueTime, startDate, subtasks, reminders, recurrence, listId, tagsInput, blockedBy, modalVisible, editingTodo]);
+
+  // Keep the repeat rule's day of month / weekday in step with the chosen due date
+  useEffect(() => {
+    if (dueDate) {
+      setRecurrence(prev => prev && RecurrenceService.reanchor(prev, dueDate));
+    }
+  }, [dueDate]);
 
   // Handle keyboard dismissal when modal closes
   useEffect(() => {
@@ -345,47 +482,27 @@ export default function TodoScreen() {
       return;
     }
 
-    const q = query(
-      collection(db, 'todos'),
-      where('userId', '==', currentUser.uid)
-    );
+    previousTodos.current = null;
+    const unsubscribe = todoRepository.subscribe(currentUser.uid,
+      (todosData, invalid) => {
+        console.log('Query successful, todos:', todosData.length); // Debug line
+        setTodos(todosData); // Ordered for display by TodoFilterService.apply
+        setInvalidTodos(invalid);
+        setLoading(false);
 
-    const unsubscribe = onSnapshot(q, 
-      (querySnapshot) => {
-        console.log('Query successful, docs:', querySnapshot.size); // Debug line
-        const todosData: Todo[] = [];
-        querySnapshot.forEach((doc) => {
-          const data = doc.data();
-          todosData.push({
-            id: doc.id,
-            title: data.title,
-            description: data.description,
-            completed: data.completed,
-            priority: data.priority || false,
-            dueDate: data.dueDate ? data.dueDate.toDate() : undefined,
-            subtasks: data.subtasks || [],
-            createdAt: data.createdAt.toDate(),
-            updatedAt: data.updatedAt.toDate(),
-            userId: data.userId,
+        // Let the user know when finishing a task (here or on another device) frees up others
+        if (previousTodos.current) {
+          DependencyService.newlyUnblocked(previousTodos.current, todosData).forEach(todo => {
+            console.log('🔓 Task unblocked:', todo.title);
+            showNotification('🔓 Unblocked', `"${todo.title}" is ready to start`, 'success');
           });
-        });
-        
-        // Sort by priority first, then by creation date
-        todosData.sort((a, b) => {
-          if (a.priority !== b.priority) {
-            return b.priority ? 1 : -1;
-          }
-          return a.createdAt.getTime() - b.createdAt.getTime();
-        });
-        
-        setTodos(todosData);
-        setLoading(false);
+        }
+        previousTodos.current = todosData;
 
         // Check for upcoming and overdue tasks, show notifications
         checkForUrgentTasks(todosData);
       },
       (error) => {
-        console.error('Firestore query error:', error);
         console.error('User ID:', currentUser?.uid); // Debug line
         setLoading(false);
         setTodos([]);
@@ -395,10 +512,90 @@ export default function TodoScreen() {
     return () => unsubscribe();
   }, [currentUser]);
 
+  // Restore the user's last search, filters and smart lists
+  useEffect(() => {
+    if (!currentUser) return;
+    setFilterLoaded(false);
+    Promise.all([
+      TodoFilterService.loadFilter(currentUser.uid),
+      TodoFilterService.getSmartLists(currentUser.uid),
+    ]).then(([savedFilter, savedLists]) => {
+      setFilter(savedFilter);
+      setSmartLists(savedLists);
+      setFilterLoaded(true);
+    });
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (!currentUser || !filterLoaded) return;
+    TodoFilterService.saveFilter(currentUser.uid, filter).catch((error) => {
+      console.error('Failed to save todo filter:', error);
+    });
+  }, [filter, filterLoaded]);
+
+  // Task lists for the switcher, and the list that was open last time
+  useEffect(() => {
+    if (!currentUser) return;
+    TaskListService.loadSelectedList(currentUser.uid).then(setSelectedListId);
+    const unsubscribe = getRepositories().taskLists.subscribe(currentUser.uid, (listsData) => {
+      setTaskLists(TaskListService.sortByName(listsData));
+    });
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  const selectList = (id: string | null) => {
+    setSelectedListId(id);
+    if (currentUser) {
+      TaskListService.saveSelectedList(currentUser.uid, id).catch((error) => {
+        console.error('Failed to save selected task list:', error);
+      });
+    }
+  };
+
+  const updateFilter = (changes: Partial<TodoFilter>) => {
+    setFilter(current => ({ ...current, ...changes }));
+  };
+
+  // Keep the search text, clear everything else
+  const clearFilters = () => {
+    setFilter(current => ({ ...DEFAULT_TODO_FILTER, query: current.query }));
+  };
+
+  const handleSaveSmartList = async () => {
+    const name = smartListName.trim();
+    if (!name || !currentUser) {
+      showNotification('Missing Name', 'Please name the smart list', 'error');
+      return;
+    }
+
+    // Saving under an existing name replaces that list
+    const existing = smartLists.find(list => list.name.toLowerCase() === name.toLowerCase());
+    try {
+      setSmartLists(await TodoFilterService.saveSmartList(currentUser.uid, {
+        id: existing?.id || TodoFilterService.createSmartListId(),
+        name,
+        filter,
+      }));
+      setSmartListName('');
+      showNotification('Smart List Saved', `"${name}" added above your tasks`, 'success');
+    } catch (error) {
+      showNotification('Error', 'Failed to save smart list', 'error');
+    }
+  };
+
+  const handleRemoveSmartList = async (id: string) => {
+    if (!currentUser) return;
+    try {
+      setSmartLists(await TodoFilterService.removeSmartList(currentUser.uid, id));
+    } catch (error) {
+      showNotification('Error', 'Failed to delete smart list', 'error');
+    }
+  };
+
   // Check for urgent tasks and show notifications
   const checkForUrgentTasks = (tasks: Todo[]) => {
     const now = new Date();
-    const incompleteTasks = tasks.filter(t => !t.completed && t.dueDate);
+    const incompleteTasks = tasks.filter(t => !t.completed && t.dueDate && !SnoozeService.isDeferred(t, now));
 
     // Check for overdue tasks
     const overdueTasks = incompleteTasks.filter(t => {
@@ -429,6 +626,16 @@ export default function TodoScreen() {
     }
   };
 
+  // Bring snoozed tasks back into the list when their start date comes round
+  useEffect(() => {
+    const nextStart = SnoozeService.nextStart(todos);
+    if (!nextStart) return;
+
+    const delay = Math.min(nextStart.getTime() - Date.now() + 1000, MAX_SNOOZE_REFRESH_MS);
+    const timer = setTimeout(() => setSnoozeClock(clock => clock + 1), delay);
+    return () => clearTimeout(timer);
+  }, [todos, snoozeClock]);
+
   const handleAddTodo = async () => {
     console.log('🚀 handleAddTodo called - title:', `"${title}"`, 'trimmed:', `"${title.trim()}"`);
     if (!title.trim()) {
@@ -438,6 +645,7 @@ export default function TodoScreen() {
     }
     console.log('✅ Validation passed');
 
+    let reminderIds: string[] = [];
     try {
       // Combine date and time if both are set
       let finalDueDate = dueDate;
@@ -446,26 +654,47 @@ export default function TodoScreen() {
         finalDueDate.setHours(dueTime.getHours(), dueTime.getMinutes(), 0, 0);
       }
 
-      await addDoc(collection(db, 'todos'), {
-        title: title.trim(),
+      // Schedule the reminders first so their ids are saved with the new task
+      const trimmedTitle = title.trim();
+      const todoId = todoRepository.createId();
+      reminderIds = await NotificationService.rescheduleTaskReminders(todoId, trimmedTitle, finalDueDate, reminders, [], startDate);
+
+      await todoRepository.add({
+        title: trimmedTitle,
         description: description.trim(),
         completed: false,
-        priority: false,
+        priority: 'none',
+        order: OrderService.newTodoOrder(),
         dueDate: finalDueDate || null,
+        startDate: startDate,
         subtasks: subtasks,
+        reminders: reminders,
+        recurrence: recurrence,
+        listId: listId,
+        tags: TaskListService.parseTags(tagsInput),
+        blockedBy: blockedBy.filter(id => todos.some(t => t.id === id)),
+        reminderNotificationIds: reminderIds,
         createdAt: new Date(),
         updatedAt: new Date(),
         userId: currentUser?.uid,
-      });
+      }, todoId);
       setTitle('');
       setDescription('');
       setDueDate(null);
       setDueTime(null);
+      setStartDate(null);
       setSubtasks([]);
       setNewSubtaskText('');
+      setReminders([]);
+      setRecurrence(null);
+      setListId(null);
+      setTagsInput('');
+      setBlockedBy([]);
       setModalVisible(false);
       await clearDraft(); // Clear draft after successful save
     } catch (error: any) {
+      // Don't leave reminders behind for a task that was never saved
+      await NotificationService.cancelTaskReminders(reminderIds);
       showNotification('Error', 'Failed to add task', 'error');
     }
   };
@@ -484,19 +713,49 @@ export default function TodoScreen() {
         finalDueDate.setHours(dueTime.getHours(), dueTime.getMinutes(), 0, 0);
       }
 
-      await updateDoc(doc(db, 'todos', editingTodo.id), {
-        title: title.trim(),
+      const trimmedTitle = title.trim();
+      const updateData: any = {
+        title: trimmedTitle,
         description: description.trim(),
         dueDate: finalDueDate || null,
+        startDate: startDate,
         subtasks: subtasks,
+        reminders: reminders,
+        recurrence: recurrence,
+        listId: listId,
+        tags: TaskListService.parseTags(tagsInput),
+        blockedBy: blockedBy.filter(id => todos.some(t => t.id === id)), // Drop links to deleted tasks
         updatedAt: new Date(),
-      });
+      };
+
+      // Reschedule reminders if the due or start date, reminders or title (shown in the notification) changed
+      const dueDateChanged = (editingTodo.dueDate?.getTime() ?? null) !== (finalDueDate?.getTime() ?? null);
+      const startDateChanged = (editingTodo.startDate?.getTime() ?? null) !== (startDate?.getTime() ?? null);
+      const remindersChanged = JSON.stringify(editingTodo.reminders ?? LEGACY_REMINDERS) !== JSON.stringify(reminders);
+      if ((dueDateChanged || startDateChanged || remindersChanged || trimmedTitle !== editingTodo.title) && !editingTodo.completed) {
+        updateData.reminderNotificationIds = await NotificationService.rescheduleTaskReminders(
+          editingTodo.id,
+          trimmedTitle,
+          finalDueDate,
+          reminders,
+          editingTodo.reminderNotificationIds,
+          startDate
+        );
+      }
+
+      await todoRepository.update(editingTodo.id, updateData, editingTodo);
       setTitle('');
       setDescription('');
       setDueDate(null);
       setDueTime(null);
+      setStartDate(null);
       setSubtasks([]);
       setNewSubtaskText('');
+      setReminders([]);
+      setRecurrence(null);
+      setListId(null);
+      setTagsInput('');
+      setBlockedBy([]);
       setEditingTodo(null);
       setModalVisible(false);
       await clearDraft(); // Clear draft after successful save
@@ -505,7 +764,53 @@ export default function TodoScreen() {
     }
   };
 
-  const handleToggleTodo = async (id: string, completed: boolean) => {
+  // Move a recurring todo on to its next occurrence with a fresh checklist
+  const advanceRecurringTodo = async (todo: Todo, rule: RecurrenceRule) => {
+    const now = new Date();
+    const currentDue = todo.dueDate ?? now;
+    const nextDue = RecurrenceService.getNextFutureOccurrence(rule, currentDue, now);
+
+    // Reminders at a fixed time move along with the due date
+    const shift = nextDue.getTime() - currentDue.getTime();
+    const nextReminders: TaskReminder[] = (todo.reminders ?? LEGACY_REMINDERS).map(reminder =>
+      reminder.type === 'at' ? { type: 'at', date: new Date(reminder.date.getTime() + shift) } : reminder
+    );
+    // So does the start date, keeping the task out of the way until the same time before it's due
+    const nextStart = todo.startDate ? new Date(todo.startDate.getTime() + shift) : null;
+    const reminderIds = await NotificationService.rescheduleTaskReminders(
+      todo.id,
+      todo.title,
+      nextDue,
+      nextReminders,
+      todo.reminderNotificationIds,
+      nextStart
+    );
+
+    await todoRepository.update(todo.id, {
+      dueDate: nextDue,
+      startDate: nextStart,
+      completed: false,
+      completedAt: null,
+      lastCompletedAt: now,
+      subtasks: (todo.subtasks || []).map(st => ({ ...st, completed: false })),
+      reminders: nextReminders,
+      reminderNotificationIds: reminderIds,
+      updatedAt: now,
+    }, todo);
+
+    showNotification('🔁 Next Up', `"${todo.title}" is next due ${nextDue.toLocaleDateString()}`, 'success');
+  };
+
+  // `override` completes a task even though tasks it's blocked by are still open
+  const handleToggleTodo = async (id: string, completed: boolean, override: boolean = false) => {
+    if (completed && !override) {
+      const blocked = todos.find(t => t.id === id);
+      if (blocked && DependencyService.isBlocked(blocked, todos)) {
+        setBlockedConfirm(blocked);
+        return;
+      }
+    }
+
     try {
       // Only trigger confetti if completing a task (false -> true)
       if (completed) {
@@ -515,6 +820,12 @@ export default function TodoScreen() {
           setShowConfetti(true);
           setTimeout(() => setShowConfetti(false), 3000);
         }
+
+        // Recurring todos advance to the next occurrence instead of staying completed
+        if (currentTodo?.recurrence) {
+          await advanceRecurringTodo(currentTodo, currentTodo.recurrence);
+          return;
+        }
       }
       
       const updateData: any = {
@@ -529,24 +840,133 @@ export default function TodoScreen() {
         // Remove completedAt when uncompleting
         updateData.completedAt = null;
       }
+
+      // Completed tasks don't need reminders; bring them back if the task is reopened
+      const todo = todos.find(t => t.id === id);
+      if (todo) {
+        if (completed) {
+          await NotificationService.cancelTaskReminders(todo.reminderNotificationIds);
+          updateData.reminderNotificationIds = [];
+        } else {
+          updateData.reminderNotificationIds = await NotificationService.rescheduleTaskReminders(
+            todo.id,
+            todo.title,
+            todo.dueDate,
+            todo.reminders ?? LEGACY_REMINDERS,
+            todo.reminderNotificationIds,
+            todo.startDate
+          );
+        }
+      }
       
-      await updateDoc(doc(db, 'todos', id), updateData);
+      await todoRepository.update(id, updateData, todo);
     } catch (error: any) {
       showNotification('Update Failed', 'Failed to update task', 'error');
     }
   };
 
-  const handleTogglePriority = async (id: string, priority: boolean) => {
+  const handleSetPriority = async (id: string, priority: Priority) => {
     try {
-      await updateDoc(doc(db, 'todos', id), {
+      await todoRepository.update(id, {
         priority,
         updatedAt: new Date(),
-      });
+      }, todos.find(t => t.id === id));
     } catch (error: any) {
       showNotification('Update Failed', 'Failed to update priority', 'error');
     }
   };
 
+  // Defer a task until `until` (null brings it straight back), holding its reminders back to match
+  const handleSnooze = async (todo: Todo, until: Date | null) => {
+    setSnoozeTarget(null);
+    setSnoozePickerDate(null);
+
+    try {
+      const reminderIds = await NotificationService.rescheduleTaskReminders(
+        todo.id,
+        todo.title,
+        todo.dueDate,
+        todo.reminders ?? LEGACY_REMINDERS,
+        todo.reminderNotificationIds,
+        until
+      );
+      await todoRepository.update(todo.id, {
+        startDate: until,
+        reminderNotificationIds: reminderIds,
+        updatedAt: new Date(),
+      }, todo);
+
+      if (until) {
+        console.log('💤 Snoozed task:', todo.title, 'until', until.toISOString());
+        showNotification('💤 Snoozed', `"${todo.title}" is hidden until ${SnoozeService.formatStart(until)}`, 'success');
+      } else {
+        showNotification('▶️ Back on Your List', `"${todo.title}" is no longer snoozed`, 'success');
+      }
+    } catch (error: any) {
+      showNotification('Update Failed', 'Failed to snooze task', 'error');
+    }
+  };
+
+  const onSnoozePickerChange = (event: any, selected?: Date) => {
+    if (Platform.OS === 'android') {
+      // Android's picker closes itself; snooze straight away or go back to the options
+      if (selected && snoozeTarget) {
+        handleSnooze(snoozeTarget, SnoozeService.untilDay(selected));
+      } else {
+        setSnoozePickerDate(null);
+      }
+      return;
+    }
+    if (selected) {
+      setSnoozePickerDate(selected);
+    }
+  };
+
+  const onStartDateChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowStartDatePicker(false);
+    }
+    if (selectedDate) {
+      const start = new Date(selectedDate);
+      start.setHours(0, 0, 0, 0);
+      setStartDate(start);
+    }
+  };
+
+  // Dragging only makes sense when the list is shown in its manual order
+  const handleLongPressTodo = (startDrag: () => void) => {
+    if (filter.sort === 'manual') {
+      startDrag();
+      return;
+    }
+    updateFilter({ sort: 'manual' });
+    showNotification('Manual Order', 'Now sorted manually - hold a task again to drag it into place', 'info');
+  };
+
+  // Only the moved task is rewritten unless its neighbours need respacing
+  const handleReorderTodo = async (from: number, to: number) => {
+    // Move it within every task, not just the ones shown, so that respacing the order can't
+    // carry it past tasks hidden by the filter, list or snooze
+    const all = [...todos].sort(OrderService.compareTodos);
+    const moved = visibleTodos[from];
+    const others = visibleTodos.filter(todo => todo.id !== moved.id);
+    const allOthers = all.filter(todo => todo.id !== moved.id);
+    const target = others[to]
+      ? allOthers.findIndex(todo => todo.id === others[to].id)
+      : allOthers.findIndex(todo => todo.id === others[to - 1].id) + 1;
+
+    const moves = OrderService.move(all.map(todo => todo.order), all.indexOf(moved), target)
+      .filter(move => move.order !== all[move.index].order);
+    try {
+      for (const move of moves) {
+        const todo = all[move.index];
+        await todoRepository.update(todo.id, { order: move.order, updatedAt: new Date() }, todo);
+      }
+    } catch (error) {
+      showNotification('Update Failed', 'Failed to move task', 'error');
+    }
+  };
+
   const handleDeleteTodo = (id: string) => {
     console.log('🗑️ handleDeleteTodo called with id:', id);
     const todoToDelete = todos.find(t => t.id === id);
@@ -557,11 +977,25 @@ export default function TodoScreen() {
     }
   };
 
+  // Remove a task that couldn't be read
+  const handleDeleteInvalidTodo = async (id: string) => {
+    try {
+      await todoRepository.remove(id);
+      showNotification('Deleted', 'Damaged task removed', 'success');
+    } catch (error: any) {
+      showNotification('Delete Failed', 'Failed to delete task', 'error');
+    }
+  };
+
   const confirmDeleteTodo = async () => {
     if (!deleteConfirm) return;
     
     try {
-      await deleteDoc(doc(db, 'todos', deleteConfirm.id));
+      const todoToDelete = todos.find(t => t.id === deleteConfirm.id);
+      if (todoToDelete) {
+        await NotificationService.cancelTaskReminders(todoToDelete.reminderNotificationIds);
+      }
+      await todoRepository.remove(deleteConfirm.id);
       showNotification('Deleted', 'Task removed successfully', 'success');
       setDeleteConfirm(null);
     } catch (error: any) {
@@ -601,9 +1035,17 @@ export default function TodoScreen() {
           setDescription(draft.description || '');
           setDueDate(draft.dueDate ? new Date(draft.dueDate) : null);
           setDueTime(draft.dueTime ? new Date(draft.dueTime) : null);
+          setStartDate(draft.startDate ? new Date(draft.startDate) : null);
           setSubtasks(draft.subtasks || []);
           setNewSubtaskText('');
+          setReminders(draft.reminders ? NotificationService.parseTaskReminders(draft.reminders) : []);
+          setRecurrence(draft.recurrence || null);
+          setListId(TaskListService.find(taskLists, draft.listId)?.id ?? null);
+          setTagsInput((draft.tags || []).join(', '));
+          setBlockedBy(draft.blockedBy || []);
+          setReminderPickerMode(null);
           setShowDatePicker(false);
+          setShowStartDatePicker(false);
           setEditingTodo(null);
           setDraftRestored(true);
           setModalVisible(true);
@@ -614,14 +1056,23 @@ export default function TodoScreen() {
       console.error('Failed to check for draft:', error);
     }
 
-    // No draft or error - open fresh modal
+    // No draft or error - open fresh modal with the user's default reminders
+    const defaultOffsets = await NotificationService.getDefaultReminderOffsets();
     setTitle('');
     setDescription('');
     setDueDate(null);
     setDueTime(null);
+    setStartDate(null);
     setSubtasks([]);
     setNewSubtaskText('');
+    setReminders(defaultOffsets.map(minutes => ({ type: 'before', minutes })));
+    setRecurrence(null);
+    setListId(TaskListService.find(taskLists, selectedListId ?? undefined)?.id ?? null); // New tasks go in the open list
+    setTagsInput('');
+    setBlockedBy([]);
+    setReminderPickerMode(null);
     setShowDatePicker(false);
+    setShowStartDatePicker(false);
     setEditingTodo(null);
     setDraftRestored(false);
     setModalVisible(true);
@@ -631,8 +1082,15 @@ export default function TodoScreen() {
     setTitle(todo.title);
     setDescription(todo.description || '');
     setDueDate(todo.dueDate || null);
+    setStartDate(todo.startDate || null);
     setSubtasks(todo.subtasks || []);
     setNewSubtaskText('');
+    setReminders(todo.reminders ?? LEGACY_REMINDERS);
+    setRecurrence(todo.recurrence || null);
+    setListId(TaskListService.find(taskLists, todo.listId)?.id ?? null);
+    setTagsInput((todo.tags || []).join(', '));
+    setBlockedBy(todo.blockedBy || []);
+    setReminderPickerMode(null);
     // Extract time from dueDate if it exists
     if (todo.dueDate) {
       const hasTime = todo.dueDate.getHours() !== 0 || todo.dueDate.getMinutes() !== 0;
@@ -646,6 +1104,7 @@ export default function TodoScreen() {
     }
     setShowDatePicker(false);
     setShowTimePicker(false);
+    setShowStartDatePicker(false);
     setEditingTodo(todo);
     setModalVisible(true);
   };
@@ -655,16 +1114,107 @@ export default function TodoScreen() {
       setSubtasks([...subtasks, {
         id: Date.now().toString(),
         text: newSubtaskText.trim(),
-        completed: false
+        completed: false,
+        order: OrderService.nextSubtaskOrder(subtasks),
       }]);
       setNewSubtaskText('');
     }
   };
 
+  const toggleBlocker = (id: string) => {
+    setBlockedBy(current => current.includes(id) ? current.filter(blockerId => blockerId !== id) : [...current, id]);
+  };
+
   const removeSubtask = (id: string) => {
     setSubtasks(subtasks.filter(st => st.id !== id));
   };
 
+  const reorderSubtask = (from: number, to: number) => {
+    // Items from before ordering get their current position first
+    const ordered = subtasks.map((subtask, index) => ({ ...subtask, order: subtask.order ?? index }));
+    OrderService.move(ordered.map(subtask => subtask.order), from, to).forEach(move => {
+      ordered[move.index] = { ...ordered[move.index], order: move.order };
+    });
+    setSubtasks(OrderService.sortSubtasks(ordered));
+  };
+
+  const selectRepeatOption = (value: RecurrenceFrequency | 'never') => {
+    if (value === 'never') {
+      setRecurrence(null);
+    } else if (recurrence?.frequency !== value) {
+      setRecurrence(RecurrenceService.createRule(value, dueDate || new Date()));
+    }
+  };
+
+  const changeRepeatInterval = (delta: number) => {
+    if (!recurrence) return;
+    setRecurrence({ ...recurrence, interval: Math.max(1, Math.min(99, recurrence.interval + delta)) });
+  };
+
+  const toggleRepeatDay = (day: number) => {
+    if (!recurrence) return;
+    const days = recurrence.daysOfWeek || [];
+    const newDays = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort();
+    // A weekly rule needs at least one day
+    if (newDays.length > 0) {
+      setRecurrence({ ...recurrence, daysOfWeek: newDays });
+    }
+  };
+
+  const setMonthlyMode = (monthlyMode: 'dayOfMonth' | 'weekdayOfMonth', lastWeek = false) => {
+    if (!recurrence) return;
+    const anchored = RecurrenceService.reanchor({ ...recurrence, monthlyMode, weekOfMonth: undefined }, dueDate || new Date());
+    setRecurrence(lastWeek ? { ...anchored, weekOfMonth: -1 } : anchored);
+  };
+
+  const hasOffsetReminder = (minutes: number) =>
+    reminders.some(r => r.type === 'before' && r.minutes === minutes);
+
+  const toggleOffsetReminder = (minutes: number) => {
+    if (hasOffsetReminder(minutes)) {
+      setReminders(reminders.filter(r => !(r.type === 'before' && r.minutes === minutes)));
+    } else {
+      setReminders([...reminders, { type: 'before', minutes }]);
+    }
+  };
+
+  const removeReminder = (index: number) => {
+    setReminders(reminders.filter((_, i) => i !== index));
+  };
+
+  const openReminderPicker = () => {
+    // Start from the due date (or now) so the picker opens somewhere sensible
+    setReminderPickerDate(dueDate ? new Date(dueDate) : new Date());
+    setReminderPickerMode('date');
+  };
+
+  const onReminderPickerChange = (event: any, selected?: Date) => {
+    if (!selected || !reminderPickerDate) return;
+    const updated = new Date(reminderPickerDate);
+    if (reminderPickerMode === 'date') {
+      updated.setFullYear(selected.getFullYear(), selected.getMonth(), selected.getDate());
+    } else {
+      updated.setHours(selected.getHours(), selected.getMinutes(), 0, 0);
+    }
+    setReminderPickerDate(updated);
+  };
+
+  const confirmReminderPicker = () => {
+    if (reminderPickerMode === 'date') {
+      setReminderPickerMode('time');
+      return;
+    }
+    if (reminderPickerDate) {
+      if (reminderPickerDate <= new Date()) {
+        showNotification('Invalid Time', 'Reminder time must be in the future', 'error');
+        return;
+      }
+      setReminders([...reminders, { type: 'at', date: reminderPickerDate }]);
+    }
+    setReminderPickerMode(null);
+    setReminderPickerDate(null);
+  };
+
   const handleLogout = () => {
     setLogoutConfirm(true);
   };
@@ -689,6 +1239,21 @@ export default function TodoScreen() {
     }
   };
 
+  // A list that was deleted on another device falls back to all tasks
+  const selectedList = TaskListService.find(taskLists, selectedListId ?? undefined);
+  const listTodos = TaskListService.todosIn(todos, selectedList?.id ?? null);
+  const allTags = TaskListService.allTags(todos);
+
+  // Open tasks this one could wait on, plus any it already waits on
+  const blockerOptions = todos.filter(todo =>
+    blockedBy.includes(todo.id) || DependencyService.candidates(editingTodo?.id, todos).some(t => t.id === todo.id)
+  );
+
+  // The open list as searched, filtered and sorted
+  const visibleTodos = TodoFilterService.apply(listTodos, filter);
+  const activeFilterCount = TodoFilterService.activeCount(filter);
+  const isDefaultFilter = TodoFilterService.isSameFilter(filter, DEFAULT_TODO_FILTER);
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -720,43 +1285,150 @@ export default function TodoScreen() {
         </View>
 
         <View style={styles.contentArea}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.listSwitcher}>
+            <TouchableOpacity
+              style={[styles.listTab, !selectedList && styles.listTabSelected]}
+              onPress={() => selectList(null)}
+            >
+              <Text style={[styles.listTabText, dynamicStyles.statLabel, !selectedList && styles.listTabTextSelected]}>
+                📥 All Tasks
+              </Text>
+            </TouchableOpacity>
+            {taskLists.map((list) => {
+              const selected = selectedList?.id === list.id;
+              return (
+                <TouchableOpacity
+                  key={list.id}
+                  style={[styles.listTab, { borderColor: list.color }, selected && { backgroundColor: list.color }]}
+                  onPress={() => selectList(list.id)}
+                >
+                  <Text style={[styles.listTabText, dynamicStyles.statLabel, selected && styles.listTabTextSelected]}>
+                    {list.icon} {list.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity style={styles.listTab} onPress={() => navigation.navigate('TaskLists')}>
+              <Text style={[styles.listTabText, dynamicStyles.statLabel]}>
+                {taskLists.length === 0 ? '＋ New List' : '✏️ Lists'}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+
           <View style={styles.statsContainer}>
             <View style={styles.statItem}>
-              <Text style={[styles.statNumber, dynamicStyles.statNumber]}>{todos.length}</Text>
+              <Text style={[styles.statNumber, dynamicStyles.statNumber]}>{listTodos.length}</Text>
               <Text style={[styles.statLabel, dynamicStyles.statLabel]}>Total</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={[styles.statNumber, dynamicStyles.statNumber]}>{todos.filter(t => !t.completed).length}</Text>
+              <Text style={[styles.statNumber, dynamicStyles.statNumber]}>{listTodos.filter(t => !t.completed).length}</Text>
               <Text style={[styles.statLabel, dynamicStyles.statLabel]}>Active</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={[styles.statNumber, dynamicStyles.statNumber]}>{todos.filter(t => t.completed).length}</Text>
+              <Text style={[styles.statNumber, dynamicStyles.statNumber]}>{listTodos.filter(t => t.completed).length}</Text>
               <Text style={[styles.statLabel, dynamicStyles.statLabel]}>Completed</Text>
             </View>
           </View>
 
-          <FlatList
-            data={todos}
-            renderItem={({ item }) => (
-              <TodoItem
-                todo={item}
-                onToggle={handleToggleTodo}
-                onTogglePriority={handleTogglePriority}
-                onEdit={openEditModal}
-                onDelete={handleDeleteTodo}
-              />
-            )
-            }
-            keyExtractor={(item) => item.id}
+          <View style={styles.searchRow}>
+            <TextInput
+              style={[styles.searchInput, dynamicStyles.modalInput]}
+              placeholder="🔍 Search tasks, checklists and #tags"
+              placeholderTextColor="#8B7BA8"
+              value={filter.query}
+              onChangeText={(query) => updateFilter({ query })}
+              clearButtonMode="while-editing"
+            />
+            <TouchableOpacity
+              style={[styles.filterButton, (activeFilterCount > 0 || filter.sort !== 'priority') && styles.filterButtonActive]}
+              onPress={() => setFilterModalVisible(true)}
+            >
+              <Text style={[styles.filterButtonText, dynamicStyles.statLabel]}>
+                ⚙️ Filter{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {smartLists.length > 0 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.smartListRow}>
+              <TouchableOpacity
+                style={[styles.chip, isDefaultFilter && styles.chipSelected]}
+                onPress={() => setFilter(DEFAULT_TODO_FILTER)}
+              >
+                <Text style={[styles.chipText, isDefaultFilter && styles.chipTextSelected]}>No Filter</Text>
+              </TouchableOpacity>
+              {smartLists.map((list) => {
+                const selected = TodoFilterService.isSameFilter(filter, list.filter);
+                return (
+                  <TouchableOpacity
+                    key={list.id}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setFilter(list.filter)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{list.name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+
+          <ScrollView
             style={styles.todoList}
-            contentContainerStyle={todos.length === 0 ? styles.emptyListContainer : undefined}
-            ListEmptyComponent={
+            contentContainerStyle={visibleTodos.length === 0 ? styles.emptyListContainer : undefined}
+            scrollEnabled={!draggingTodo}
+          >
+            <NeedsRepairBanner items={invalidTodos} itemLabel="task" onDelete={handleDeleteInvalidTodo} />
+            {visibleTodos.length > 0 ? (
+              <DraggableList
+                items={visibleTodos}
+                keyExtractor={(todo) => todo.id}
+                onReorder={handleReorderTodo}
+                onDragStateChange={setDraggingTodo}
+                renderItem={(item, startDrag, isDragging) => (
+                  <TodoItem
+                    todo={item}
+                    onToggle={handleToggleTodo}
+                    onSetPriority={handleSetPriority}
+                    onEdit={openEditModal}
+                    onDelete={handleDeleteTodo}
+                    onTagPress={(tag) => updateFilter({ tag })}
+                    list={selectedList ? undefined : TaskListService.find(taskLists, item.listId)}
+                    onLongPress={() => handleLongPressTodo(startDrag)}
+                    isDragging={isDragging}
+                    onSnooze={setSnoozeTarget}
+                    blockers={DependencyService.openBlockers(item, todos)}
+                    pendingSync={isPending('todos', item.id)}
+                  />
+                )}
+              />
+            ) : isDefaultFilter && listTodos.some(todo => SnoozeService.isDeferred(todo)) ? (
+              <View style={styles.emptyContainer}>
+                <Text style={[styles.emptyTitle, dynamicStyles.emptyTitle]}>Nothing to do right now</Text>
+                <Text style={[styles.emptyDescription, dynamicStyles.emptyDescription]}>Your snoozed tasks will be back when they're due to start</Text>
+                <TouchableOpacity style={styles.clearFiltersButton} onPress={() => setFilter({ ...DEFAULT_TODO_FILTER, status: 'snoozed' })}>
+                  <Text style={styles.clearFiltersText}>Show Snoozed</Text>
+                </TouchableOpacity>
+              </View>
+            ) : listTodos.length > 0 ? (
+              <View style={styles.emptyContainer}>
+                <Text style={[styles.emptyTitle, dynamicStyles.emptyTitle]}>No matching tasks</Text>
+                <Text style={[styles.emptyDescription, dynamicStyles.emptyDescription]}>Try a different search or filter</Text>
+                <TouchableOpacity style={styles.clearFiltersButton} onPress={() => setFilter(DEFAULT_TODO_FILTER)}>
+                  <Text style={styles.clearFiltersText}>Show All Tasks</Text>
+                </TouchableOpacity>
+              </View>
+            ) : selectedList ? (
+              <View style={styles.emptyContainer}>
+                <Text style={[styles.emptyTitle, dynamicStyles.emptyTitle]}>Nothing in {selectedList.name} yet</Text>
+                <Text style={[styles.emptyDescription, dynamicStyles.emptyDescription]}>New tasks are added to the open list</Text>
+              </View>
+            ) : (
               <View style={styles.emptyContainer}>
                 <Text style={[styles.emptyTitle, dynamicStyles.emptyTitle]}>No tasks to organise yet!</Text>
                 <Text style={[styles.emptyDescription, dynamicStyles.emptyDescription]}>Write one and start ticking</Text>
               </View>
-            }
-          />
+            )}
+          </ScrollView>
 
           <TouchableOpacity style={styles.addButton} onPress={openAddModal}>
             <Text style={[styles.addButtonText, dynamicStyles.addButtonText]}>+</Text>
@@ -797,6 +1469,7 @@ export default function TodoScreen() {
                   
                   <ScrollView 
                     style={styles.modalScrollView}
+                    scrollEnabled={!draggingSubtask}
                     showsVerticalScrollIndicator={true}
                     keyboardShouldPersistTaps="handled"
                   >
@@ -819,6 +1492,42 @@ export default function TodoScreen() {
                     numberOfLines={3}
                   />
 
+                  {taskLists.length > 0 && (
+                    <>
+                      <Text style={[styles.sectionLabel, dynamicStyles.sectionLabel]}>List</Text>
+                      <View style={styles.chipRow}>
+                        <TouchableOpacity
+                          style={[styles.chip, !listId && styles.chipSelected]}
+                          onPress={() => setListId(null)}
+                        >
+                          <Text style={[styles.chipText, !listId && styles.chipTextSelected]}>None</Text>
+                        </TouchableOpacity>
+                        {taskLists.map((list) => {
+                          const selected = listId === list.id;
+                          return (
+                            <TouchableOpacity
+                              key={list.id}
+                              style={[styles.chip, selected && styles.chipSelected]}
+                              onPress={() => setListId(list.id)}
+                            >
+                              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{list.icon} {list.name}</Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    </>
+                  )}
+
+                  <Text style={[styles.sectionLabel, dynamicStyles.sectionLabel]}>Tags</Text>
+                  <TextInput
+                    style={[styles.modalInput, dynamicStyles.modalInput]}
+                    placeholder="e.g. errands, #urgent"
+                    placeholderTextColor="#8B7BA8"
+                    value={tagsInput}
+                    onChangeText={setTagsInput}
+                    autoCapitalize="none"
+                  />
+
                   <Text style={[styles.sectionLabel, dynamicStyles.sectionLabel]}>Due Date</Text>
                   
                   <TouchableOpacity
@@ -911,54 +1620,283 @@ export default function TodoScreen() {
                     </>
                   )}
 
-                  <Text style={styles.sectionLabel}>Checklist (Optional)</Text>
-                  
-                  {subtasks.length > 0 && (
-                    <View style={styles.modalSubtasksList}>
-                      {subtasks.map((subtask) => (
-                        <View key={subtask.id} style={styles.modalSubtaskItem}>
-                          <Text style={styles.modalSubtaskText}>• {subtask.text}</Text>
-                          <TouchableOpacity onPress={() => removeSubtask(subtask.id)}>
-                            <Text style={styles.removeSubtaskButton}>✕</Text>
-                          </TouchableOpacity>
-                        </View>
-                      ))}
-                    </View>
-                  )}
+                  <Text style={styles.sectionLabel}>Start Date (Optional)</Text>
+                  <Text style={styles.reminderHint}>The task stays out of your list until then</Text>
 
-                  <View style={styles.addSubtaskContainer}>
-                    <TextInput
-                      style={styles.subtaskInput}
-                      placeholder="Add checklist item"
-                      placeholderTextColor="#8B7BA8"
-                      value={newSubtaskText}
-                      onChangeText={setNewSubtaskText}
-                      onSubmitEditing={addSubtask}
-                      returnKeyType="done"
-                    />
-                    <TouchableOpacity 
-                      style={styles.addSubtaskButton}
-                      onPress={addSubtask}
+                  <TouchableOpacity
+                    style={styles.datePickerButton}
+                    onPress={() => setShowStartDatePicker(true)}
+                  >
+                    <Text style={styles.datePickerButtonText}>
+                      {startDate ? `💤 ${SnoozeService.formatStart(startDate)}` : '💤 Select Start Date'}
+                    </Text>
+                  </TouchableOpacity>
+
+                  {startDate && (
+                    <TouchableOpacity
+                      style={styles.clearDateButton}
+                      onPress={() => setStartDate(null)}
                     >
-                      <Text style={styles.addSubtaskButtonText}>+</Text>
+                      <Text style={styles.clearDateText}>Clear Start Date</Text>
                     </TouchableOpacity>
-                  </View>
-                  </ScrollView>
+                  )}
 
-                  <View style={styles.modalActions}>
-                    <TouchableOpacity
-                      style={[styles.modalButton, styles.cancelButton]}
-                      onPress={() => {
-                        // Clear any active notifications first
-                        if (currentNotification) {
-                          hideNotification();
-                        }
+                  {showStartDatePicker && (
+                    <View style={styles.datePickerContainer}>
+                      <DateTimePicker
+                        value={startDate || new Date()}
+                        mode="date"
+                        display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                        onChange={onStartDateChange}
+                        minimumDate={new Date()}
+                        textColor="#6C55BE"
+                        themeVariant="light"
+                      />
+                      <TouchableOpacity
+                        style={styles.dateTimePickerSaveButton}
+                        onPress={() => setShowStartDatePicker(false)}
+                      >
+                        <Text style={styles.dateTimePickerSaveText}>Save Date</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+
+                  <Text style={styles.sectionLabel}>Repeat</Text>
+
+                  <View style={styles.chipRow}>
+                    {REPEAT_OPTIONS.map((option) => {
+                      const selected = (recurrence?.frequency ?? 'never') === option.value;
+                      return (
+                        <TouchableOpacity
+                          key={option.value}
+                          style={[styles.chip, selected && styles.chipSelected]}
+                          onPress={() => selectRepeatOption(option.value)}
+                        >
+                          <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
+                  {recurrence && recurrence.frequency !== 'weekdays' && (
+                    <View style={styles.intervalRow}>
+                      <Text style={styles.intervalText}>Every</Text>
+                      <TouchableOpacity style={styles.intervalButton} onPress={() => changeRepeatInterval(-1)}>
+                        <Text style={styles.intervalButtonText}>−</Text>
+                      </TouchableOpacity>
+                      <Text style={styles.intervalValue}>{recurrence.interval}</Text>
+                      <TouchableOpacity style={styles.intervalButton} onPress={() => changeRepeatInterval(1)}>
+                        <Text style={styles.intervalButtonText}>+</Text>
+                      </TouchableOpacity>
+                      <Text style={styles.intervalText}>
+                        {INTERVAL_UNITS[recurrence.frequency]}{recurrence.interval === 1 ? '' : 's'}
+                      </Text>
+                    </View>
+                  )}
+
+                  {recurrence?.frequency === 'weekly' && (
+                    <View style={styles.chipRow}>
+                      {WEEKDAY_LETTERS.map((letter, day) => {
+                        const selected = recurrence.daysOfWeek?.includes(day);
+                        return (
+                          <TouchableOpacity
+                            key={day}
+                            style={[styles.chip, styles.dayChip, selected && styles.chipSelected]}
+                            onPress={() => toggleRepeatDay(day)}
+                          >
+                            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{letter}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  )}
+
+                  {recurrence?.frequency === 'monthly' && (() => {
+                    const anchor = dueDate || new Date();
+                    const nthRule = RecurrenceService.reanchor({ ...recurrence, monthlyMode: 'weekdayOfMonth', weekOfMonth: undefined }, anchor);
+                    const isDayMode = recurrence.monthlyMode !== 'weekdayOfMonth';
+                    const isLastMode = !isDayMode && recurrence.weekOfMonth === -1;
+                    return (
+                      <View style={styles.chipRow}>
+                        <TouchableOpacity
+                          style={[styles.chip, isDayMode && styles.chipSelected]}
+                          onPress={() => setMonthlyMode('dayOfMonth')}
+                        >
+                          <Text style={[styles.chipText, isDayMode && styles.chipTextSelected]}>On day {anchor.getDate()}</Text>
+                        </TouchableOpacity>
+                        {/* After the 28th the only weekday position is "last", offered below */}
+                        {nthRule.weekOfMonth !== -1 && (
+                          <TouchableOpacity
+                            style={[styles.chip, !isDayMode && !isLastMode && styles.chipSelected]}
+                            onPress={() => setMonthlyMode('weekdayOfMonth')}
+                          >
+                            <Text style={[styles.chipText, !isDayMode && !isLastMode && styles.chipTextSelected]}>
+                              On {RecurrenceService.describeWeekdayOfMonth(nthRule)}
+                            </Text>
+                          </TouchableOpacity>
+                        )}
+                        {RecurrenceService.isLastWeekdayOfMonth(anchor) && (
+                          <TouchableOpacity
+                            style={[styles.chip, isLastMode && styles.chipSelected]}
+                            onPress={() => setMonthlyMode('weekdayOfMonth', true)}
+                          >
+                            <Text style={[styles.chipText, isLastMode && styles.chipTextSelected]}>
+                              On {RecurrenceService.describeWeekdayOfMonth({ ...nthRule, weekOfMonth: -1 })}
+                            </Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    );
+                  })()}
+
+                  <Text style={styles.sectionLabel}>Reminders</Text>
+
+                  {dueDate ? (
+                    <View style={styles.chipRow}>
+                      {REMINDER_OFFSET_PRESETS.map((preset) => (
+                        <TouchableOpacity
+                          key={preset.minutes}
+                          style={[styles.chip, hasOffsetReminder(preset.minutes) && styles.chipSelected]}
+                          onPress={() => toggleOffsetReminder(preset.minutes)}
+                        >
+                          <Text style={[styles.chipText, hasOffsetReminder(preset.minutes) && styles.chipTextSelected]}>
+                            {preset.label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  ) : (
+                    <Text style={styles.reminderHint}>Set a due date to get reminders before it's due</Text>
+                  )}
+
+                  {reminders.some(r => r.type === 'at' || !REMINDER_OFFSET_PRESETS.some(p => p.minutes === r.minutes)) && (
+                    <View style={styles.modalSubtasksList}>
+                      {reminders.map((reminder, index) => (
+                        reminder.type === 'at' || !REMINDER_OFFSET_PRESETS.some(p => p.minutes === reminder.minutes) ? (
+                          <View key={index} style={styles.modalSubtaskItem}>
+                            <Text style={styles.modalSubtaskText}>🔔 {NotificationService.formatTaskReminder(reminder)}</Text>
+                            <TouchableOpacity onPress={() => removeReminder(index)}>
+                              <Text style={styles.removeSubtaskButton}>✕</Text>
+                            </TouchableOpacity>
+                          </View>
+                        ) : null
+                      ))}
+                    </View>
+                  )}
+
+                  {reminderPickerMode && reminderPickerDate ? (
+                    <View style={styles.datePickerContainer}>
+                      <DateTimePicker
+                        value={reminderPickerDate}
+                        mode={reminderPickerMode}
+                        is24Hour={false}
+                        display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                        onChange={onReminderPickerChange}
+                        minimumDate={reminderPickerMode === 'date' ? new Date() : undefined}
+                        textColor="#6C55BE"
+                        themeVariant="light"
+                      />
+                      <TouchableOpacity
+                        style={styles.dateTimePickerSaveButton}
+                        onPress={confirmReminderPicker}
+                      >
+                        <Text style={styles.dateTimePickerSaveText}>
+                          {reminderPickerMode === 'date' ? 'Next: Pick Time' : 'Add Reminder'}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  ) : (
+                    <TouchableOpacity style={styles.datePickerButton} onPress={openReminderPicker}>
+                      <Text style={styles.datePickerButtonText}>🔔 Remind me at a specific time</Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {blockerOptions.length > 0 && (
+                    <>
+                      <Text style={styles.sectionLabel}>Blocked By</Text>
+                      <Text style={styles.reminderHint}>Tasks that have to be done before this one</Text>
+                      <View style={styles.chipRow}>
+                        {blockerOptions.map((blocker) => {
+                          const selected = blockedBy.includes(blocker.id);
+                          return (
+                            <TouchableOpacity
+                              key={blocker.id}
+                              style={[styles.chip, selected && styles.chipSelected]}
+                              onPress={() => toggleBlocker(blocker.id)}
+                            >
+                              <Text style={[styles.chipText, selected && styles.chipTextSelected]} numberOfLines={1}>
+                                {selected ? '⛔ ' : ''}{blocker.title}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                    </>
+                  )}
+
+                  <Text style={styles.sectionLabel}>Checklist (Optional)</Text>
+                  
+                  {subtasks.length > 1 && (
+                    <Text style={styles.reminderHint}>Hold an item and drag to reorder</Text>
+                  )}
+
+                  {subtasks.length > 0 && (
+                    <DraggableList
+                      items={subtasks}
+                      keyExtractor={(subtask) => subtask.id}
+                      onReorder={reorderSubtask}
+                      onDragStateChange={setDraggingSubtask}
+                      style={styles.modalSubtasksList}
+                      renderItem={(subtask, startDrag, isDragging) => (
+                        <TouchableOpacity
+                          style={[styles.modalSubtaskItem, isDragging && styles.modalSubtaskItemDragging]}
+                          onLongPress={startDrag}
+                          delayLongPress={200}
+                          activeOpacity={1}
+                        >
+                          <Text style={styles.modalSubtaskText}>≡ {subtask.text}</Text>
+                          <TouchableOpacity onPress={() => removeSubtask(subtask.id)}>
+                            <Text style={styles.removeSubtaskButton}>✕</Text>
+                          </TouchableOpacity>
+                        </TouchableOpacity>
+                      )}
+                    />
+                  )}
+
+                  <View style={styles.addSubtaskContainer}>
+                    <TextInput
+                      style={styles.subtaskInput}
+                      placeholder="Add checklist item"
+                      placeholderTextColor="#8B7BA8"
+                      value={newSubtaskText}
+                      onChangeText={setNewSubtaskText}
+                      onSubmitEditing={addSubtask}
+                      returnKeyType="done"
+                    />
+                    <TouchableOpacity 
+                      style={styles.addSubtaskButton}
+                      onPress={addSubtask}
+                    >
+                      <Text style={styles.addSubtaskButtonText}>+</Text>
+                    </TouchableOpacity>
+                  </View>
+                  </ScrollView>
+
+                  <View style={styles.modalActions}>
+                    <TouchableOpacity
+                      style={[styles.modalButton, styles.cancelButton]}
+                      onPress={() => {
+                        // Clear any active notifications first
+                        if (currentNotification) {
+                          hideNotification();
+                        }
                         // Close modal immediately, other cleanup will happen via useEffect
                         setModalVisible(false);
                         // Clean up other states after modal starts closing
                         setTimeout(() => {
                           setShowDatePicker(false);
                           setShowTimePicker(false);
+                          setReminderPickerMode(null);
                         }, 0);
                       }}
                     >
@@ -985,6 +1923,174 @@ export default function TodoScreen() {
             </View>
           </TouchableWithoutFeedback>
         </Modal>
+
+        <Modal
+          animationType="fade"
+          transparent={true}
+          visible={filterModalVisible}
+          onRequestClose={() => setFilterModalVisible(false)}
+        >
+          <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+            <View style={styles.modalOverlay}>
+              <TouchableWithoutFeedback onPress={() => {}}>
+                <View style={styles.modalContainer}>
+                  {currentNotification && currentNotification.type === 'error' && (
+                    <View style={styles.errorAlert}>
+                      <Text style={styles.errorAlertText}>⚠️ {currentNotification.message}</Text>
+                      <TouchableOpacity onPress={hideNotification} style={styles.dismissButton}>
+                        <Text style={styles.dismissText}>✕</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                  <View style={styles.modalHeader}>
+                    <Text style={[styles.modalTitle, dynamicStyles.modalTitle]}>Filter & Sort</Text>
+                  </View>
+
+                  <ScrollView style={styles.modalScrollView} keyboardShouldPersistTaps="handled">
+                    <Text style={[styles.sectionLabel, dynamicStyles.sectionLabel]}>Sort by</Text>
+                    <View style={styles.chipRow}>
+                      {SORT_OPTIONS.map((sort) => {
+                        const selected = filter.sort === sort;
+                        return (
+                          <TouchableOpacity
+                            key={sort}
+                            style={[styles.chip, selected && styles.chipSelected]}
+                            onPress={() => updateFilter({ sort })}
+                          >
+                            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{TODO_SORT_LABELS[sort]}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+
+                    <Text style={[styles.sectionLabel, dynamicStyles.sectionLabel]}>Due</Text>
+                    <View style={styles.chipRow}>
+                      {DUE_FILTERS.map((due) => {
+                        const selected = filter.due === due;
+                        return (
+                          <TouchableOpacity
+                            key={due}
+                            style={[styles.chip, selected && styles.chipSelected]}
+                            onPress={() => updateFilter({ due })}
+                          >
+                            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{TODO_DUE_LABELS[due]}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+
+                    <Text style={[styles.sectionLabel, dynamicStyles.sectionLabel]}>Status</Text>
+                    <View style={styles.chipRow}>
+                      {STATUS_FILTERS.map((status) => {
+                        const selected = filter.status === status;
+                        return (
+                          <TouchableOpacity
+                            key={status}
+                            style={[styles.chip, selected && styles.chipSelected]}
+                            onPress={() => updateFilter({ status })}
+                          >
+                            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{TODO_STATUS_LABELS[status]}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+
+                    <Text style={[styles.sectionLabel, dynamicStyles.sectionLabel]}>Priority</Text>
+                    <View style={styles.chipRow}>
+                      {(['any', ...[...PRIORITY_LEVELS].reverse()] as (Priority | 'any')[]).map((priority) => {
+                        const selected = filter.priority === priority;
+                        return (
+                          <TouchableOpacity
+                            key={priority}
+                            style={[styles.chip, selected && styles.chipSelected]}
+                            onPress={() => updateFilter({ priority })}
+                          >
+                            <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                              {priority === 'any' ? 'Any' : PRIORITY_LABELS[priority]}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+
+                    {allTags.length > 0 && (
+                      <>
+                        <Text style={[styles.sectionLabel, dynamicStyles.sectionLabel]}>Tag</Text>
+                        <View style={styles.chipRow}>
+                          <TouchableOpacity
+                            style={[styles.chip, !filter.tag && styles.chipSelected]}
+                            onPress={() => updateFilter({ tag: undefined })}
+                          >
+                            <Text style={[styles.chipText, !filter.tag && styles.chipTextSelected]}>Any</Text>
+                          </TouchableOpacity>
+                          {allTags.map((tag) => {
+                            const selected = filter.tag === tag;
+                            return (
+                              <TouchableOpacity
+                                key={tag}
+                                style={[styles.chip, selected && styles.chipSelected]}
+                                onPress={() => updateFilter({ tag })}
+                              >
+                                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>#{tag}</Text>
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </View>
+                      </>
+                    )}
+
+                    <Text style={[styles.sectionLabel, dynamicStyles.sectionLabel]}>Save as Smart List</Text>
+                    <View style={styles.addSubtaskContainer}>
+                      <TextInput
+                        style={[styles.subtaskInput, dynamicStyles.subtaskInput]}
+                        placeholder="e.g. Due this week"
+                        placeholderTextColor="#8B7BA8"
+                        value={smartListName}
+                        onChangeText={setSmartListName}
+                        onSubmitEditing={handleSaveSmartList}
+                      />
+                      <TouchableOpacity style={styles.addSubtaskButton} onPress={handleSaveSmartList}>
+                        <Text style={[styles.addSubtaskButtonText, dynamicStyles.addSubtaskButtonText]}>+</Text>
+                      </TouchableOpacity>
+                    </View>
+
+                    {smartLists.length > 0 && (
+                      <View style={styles.modalSubtasksList}>
+                        {smartLists.map((list) => (
+                          <View key={list.id} style={styles.modalSubtaskItem}>
+                            <Text style={[styles.modalSubtaskText, dynamicStyles.modalSubtaskText]}>{list.name}</Text>
+                            <TouchableOpacity onPress={() => handleRemoveSmartList(list.id)}>
+                              <Text style={[styles.removeSubtaskButton, dynamicStyles.removeSubtaskButton]}>✕</Text>
+                            </TouchableOpacity>
+                          </View>
+                        ))}
+                      </View>
+                    )}
+                  </ScrollView>
+
+                  <View style={styles.modalActions}>
+                    <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={clearFilters}>
+                      <Text style={styles.cancelButtonText}>Clear All</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.modalButton, styles.saveButton]}
+                      onPress={() => {
+                        if (currentNotification) {
+                          hideNotification();
+                        }
+                        setFilterModalVisible(false);
+                      }}
+                    >
+                      <Text style={styles.saveButtonText}>
+                        Show {visibleTodos.length} task{visibleTodos.length === 1 ? '' : 's'}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              </TouchableWithoutFeedback>
+            </View>
+          </TouchableWithoutFeedback>
+        </Modal>
         
         {/* Delete confirmation popup - outside Modal so it can overlay everything */}
         {deleteConfirm && (
@@ -1012,6 +2118,108 @@ export default function TodoScreen() {
           </View>
         )}
         
+        {/* Snooze options */}
+        {snoozeTarget && (
+          <View style={styles.deleteOverlay}>
+            <View style={styles.deletePopup}>
+              <Text style={styles.deleteTitle}>Snooze Task</Text>
+              <Text style={styles.deleteMessage}>
+                Hide "{snoozeTarget.title}" until later. Its reminders wait until it's back.
+              </Text>
+              {snoozePickerDate ? (
+                <View style={styles.datePickerContainer}>
+                  <DateTimePicker
+                    value={snoozePickerDate}
+                    mode="date"
+                    display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                    onChange={onSnoozePickerChange}
+                    minimumDate={new Date()}
+                    textColor="#6C55BE"
+                    themeVariant="light"
+                  />
+                  {Platform.OS === 'ios' && (
+                    <TouchableOpacity
+                      style={styles.dateTimePickerSaveButton}
+                      onPress={() => handleSnooze(snoozeTarget, SnoozeService.untilDay(snoozePickerDate))}
+                    >
+                      <Text style={styles.dateTimePickerSaveText}>Snooze</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ) : (
+                <>
+                  {SNOOZE_OPTIONS.map((option) => (
+                    <TouchableOpacity
+                      key={option}
+                      style={styles.snoozeOption}
+                      onPress={() => handleSnooze(snoozeTarget, SnoozeService.until(option))}
+                    >
+                      <Text style={styles.snoozeOptionText}>{SNOOZE_LABELS[option]}</Text>
+                    </TouchableOpacity>
+                  ))}
+                  <TouchableOpacity
+                    style={styles.snoozeOption}
+                    onPress={() => setSnoozePickerDate(SnoozeService.until('tomorrow'))}
+                  >
+                    <Text style={styles.snoozeOptionText}>🗓️ Pick Date…</Text>
+                  </TouchableOpacity>
+                  {SnoozeService.isDeferred(snoozeTarget) && (
+                    <TouchableOpacity
+                      style={styles.snoozeOption}
+                      onPress={() => handleSnooze(snoozeTarget, null)}
+                    >
+                      <Text style={styles.snoozeOptionText}>▶️ Unsnooze Now</Text>
+                    </TouchableOpacity>
+                  )}
+                </>
+              )}
+              <View style={styles.deleteButtons}>
+                <TouchableOpacity
+                  style={styles.cancelDeleteButton}
+                  onPress={() => {
+                    setSnoozeTarget(null);
+                    setSnoozePickerDate(null);
+                  }}
+                >
+                  <Text style={styles.cancelDeleteText}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        )}
+
+        {/* Completing a blocked task */}
+        {blockedConfirm && (
+          <View style={styles.deleteOverlay}>
+            <View style={styles.deletePopup}>
+              <Text style={styles.deleteTitle}>Task Is Blocked</Text>
+              <Text style={styles.deleteMessage}>
+                "{blockedConfirm.title}" is waiting on{' '}
+                {DependencyService.openBlockers(blockedConfirm, todos).map(blocker => `"${blocker.title}"`).join(', ')}.
+                Complete it anyway?
+              </Text>
+              <View style={styles.deleteButtons}>
+                <TouchableOpacity
+                  style={styles.cancelDeleteButton}
+                  onPress={() => setBlockedConfirm(null)}
+                >
+                  <Text style={styles.cancelDeleteText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.confirmOverrideButton}
+                  onPress={() => {
+                    const todo = blockedConfirm;
+                    setBlockedConfirm(null);
+                    handleToggleTodo(todo.id, true, true);
+                  }}
+                >
+                  <Text style={styles.confirmDeleteText}>Complete Anyway</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        )}
+
         {/* Logout confirmation popup */}
         {logoutConfirm && (
           <View style={styles.deleteOverlay}>
@@ -1156,6 +2364,26 @@ const styles = StyleSheet.create({
     padding: 16,
     marginBottom: 10,
   },
+  snoozedText: {
+    color: '#6C55BE',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  todoItemBlocked: {
+    opacity: 0.55,
+  },
+  blockedText: {
+    color: '#B91C1C',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  todoItemDragging: {
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 6 },
+    shadowOpacity: 0.2,
+    shadowRadius: 10,
+    elevation: 8,
+  },
   todoItemPriority: {
     backgroundColor: '#F9FAFB',
     borderLeftWidth: 4,
@@ -1231,6 +2459,39 @@ const styles = StyleSheet.create({
   todoDescriptionOverdue: {
     color: '#FFFFFF',
   },
+  recurrenceText: {
+    color: '#8B7BA8',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+  },
+  tagChip: {
+    backgroundColor: '#F0EDF7',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  tagChipText: {
+    color: '#6C55BE',
+    fontWeight: '600',
+  },
+  listBadge: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 1,
+  },
+  listBadgeText: {
+    fontWeight: '600',
+  },
+  recurrenceTextOverdue: {
+    color: '#FFFFFF',
+  },
   subtasksToggle: {
     marginTop: 8,
     paddingVertical: 4,
@@ -1302,15 +2563,26 @@ const styles = StyleSheet.create({
     zIndex: 1,
   },
   priorityButtonActive: {
-    backgroundColor: '#CEE476',
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
   },
   priorityButtonText: {
-    color: '#8B7BA8',
     fontSize: 20,
-    fontWeight: '600',
+    fontWeight: '700',
   },
-  priorityButtonTextActive: {
-    color: '#6C55BE',
+  pendingBadge: {
+    backgroundColor: '#FFF3E0',
+    borderWidth: 1,
+    borderColor: '#FF9800',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  pendingBadgeText: {
+    color: '#E65100',
+    fontSize: 11,
+    fontWeight: '600',
   },
   editButton: {
     backgroundColor: 'transparent',
@@ -1454,6 +2726,79 @@ const styles = StyleSheet.create({
   dueDateTextSoon: {
     color: '#F59E0B',
   },
+  listSwitcher: {
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  listTab: {
+    borderWidth: 2,
+    borderColor: '#CEE476',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    backgroundColor: '#FFFFFF',
+  },
+  listTabSelected: {
+    backgroundColor: '#6C55BE',
+    borderColor: '#6C55BE',
+  },
+  listTabText: {
+    color: '#6C55BE',
+    fontWeight: '600',
+  },
+  listTabTextSelected: {
+    color: '#FFFFFF',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#6C55BE',
+  },
+  filterButton: {
+    backgroundColor: '#F3F4F6',
+    borderWidth: 2,
+    borderColor: '#CEE476',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  filterButtonActive: {
+    backgroundColor: '#CEE476',
+  },
+  filterButtonText: {
+    color: '#6C55BE',
+    fontWeight: '600',
+  },
+  smartListRow: {
+    gap: 8,
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  clearFiltersButton: {
+    marginTop: 16,
+    alignSelf: 'center',
+    backgroundColor: '#CEE476',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  clearFiltersText: {
+    color: '#6C55BE',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   sectionLabel: {
     fontSize: 14,
     fontWeight: '600',
@@ -1461,6 +2806,72 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     marginTop: 8,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    backgroundColor: '#F3F4F6',
+    borderWidth: 2,
+    borderColor: '#CEE476',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#CEE476',
+  },
+  chipText: {
+    color: '#8B7BA8',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#6C55BE',
+  },
+  dayChip: {
+    width: 36,
+    paddingHorizontal: 0,
+    alignItems: 'center',
+  },
+  intervalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 12,
+  },
+  intervalText: {
+    color: '#6C55BE',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  intervalButton: {
+    backgroundColor: '#CEE476',
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  intervalButtonText: {
+    color: '#6C55BE',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  intervalValue: {
+    color: '#6C55BE',
+    fontSize: 16,
+    fontWeight: 'bold',
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  reminderHint: {
+    color: '#8B7BA8',
+    fontSize: 13,
+    marginBottom: 12,
+  },
   addSubtaskContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1504,6 +2915,11 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     borderRadius: 6,
   },
+  modalSubtaskItemDragging: {
+    backgroundColor: '#F0EDF7',
+    borderWidth: 1,
+    borderColor: '#6C55BE',
+  },
   modalSubtaskText: {
     fontSize: 14,
     color: '#6C55BE',
@@ -1683,4 +3099,23 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  snoozeOption: {
+    backgroundColor: '#F3F0FF',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  snoozeOptionText: {
+    color: '#6C55BE',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  confirmOverrideButton: {
+    flex: 1,
+    backgroundColor: '#6C55BE',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
 });
\ No newline at end of file
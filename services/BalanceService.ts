@@ -0,0 +1,300 @@
+import { getRepositories } from '../repositories';
+import { CurrencyCode, Expense, Money, Person } from '../types';
+import { MoneyService } from './MoneyService';
+import { ContactService } from './ContactService';
+import { PaymentService } from './PaymentService';
+
+// Key used for the current user
+export const SELF_KEY = 'self';
+
+// What's left of one share of an expense: `from` owes it to `to`, the person who paid
+export interface ShareRef {
+  expenseId: string;
+  personId: string;
+  expenseTitle: string;
+  from: string;
+  to: string;
+  amount: Money; // Remaining, in the expense's currency
+  homeAmount: Money; // The same, converted to the home currency
+}
+
+export interface PersonBalance {
+  key: string; // Identity across expenses (see personKey)
+  contactId?: string;
+  name: string;
+  net: Money; // Across everyone. Positive: they owe money. Negative: they're owed money.
+  withYou: Money; // Between them and you. Positive: they owe you. Negative: you owe them.
+  shares: ShareRef[]; // Shares they owe or are owed
+}
+
+// `from` owes `to` an amount in the home currency
+export interface Debt {
+  from: string;
+  to: string;
+  amount: Money;
+}
+
+// A payment that settles balances: `from` pays `to`. `legs` are the debts between people who
+// share expenses that the payment clears, e.g. A paying C for a chain A -> B -> C clears both.
+export interface Settlement extends Debt {
+  legs: Debt[];
+}
+
+export interface BalanceSummary {
+  balances: PersonBalance[]; // Everyone but you
+  settlements: Settlement[];
+  shares: ShareRef[];
+  owedToYou: Money;
+  youOwe: Money;
+  missingCurrencies: CurrencyCode[]; // Shares left out because there's no exchange rate
+}
+
+export class BalanceService {
+  // People are matched across expenses by contact, falling back to their name for unlinked people
+  static personKey(person: Person): string {
+    if (person.isSelf) return SELF_KEY;
+    return person.contactId || `name:${ContactService.normalizeName(person.name)}`;
+  }
+
+  // Balances over what's left of each share of unsettled expenses, converted with `toHome`. Every
+  // share is owed to whoever paid the bill.
+  static computeBalances(
+    expenses: Expense[],
+    homeCurrency: CurrencyCode,
+    toHome: (amount: Money, date: Date) => Money | null
+  ): BalanceSummary {
+    const zero = MoneyService.zero(homeCurrency);
+    const byKey = new Map<string, PersonBalance>();
+    const debts = new Map<string, number>(); // "from|to" -> minor units owed in the home currency
+    const shares: ShareRef[] = [];
+    const missingCurrencies: CurrencyCode[] = [];
+    let owedToYou = zero;
+    let youOwe = zero;
+
+    const balanceFor = (key: string, person?: Person): PersonBalance => {
+      const balance = byKey.get(key) || {
+        key,
+        contactId: person?.contactId,
+        name: key === SELF_KEY ? 'You' : person?.name.trim() || key,
+        net: zero,
+        withYou: zero,
+        shares: [],
+      };
+      byKey.set(key, balance);
+      return balance;
+    };
+
+    expenses.filter(expense => !expense.settled).forEach(expense => {
+      const payer = PaymentService.payerOf(expense.people, expense.paidBy);
+      if (expense.paidBy && !payer) return; // Payer was removed from the expense
+      const to = payer ? this.personKey(payer) : SELF_KEY;
+
+      PaymentService.debtorsOf(expense.people, expense.paidBy).forEach(person => {
+        const remaining = PaymentService.remaining(person);
+        const from = this.personKey(person);
+        if (!person.name.trim() || MoneyService.isZero(remaining) || from === to) return;
+
+        const converted = toHome(remaining, expense.spentOn);
+        if (!converted) {
+          if (!missingCurrencies.includes(remaining.currency)) missingCurrencies.push(remaining.currency);
+          return;
+        }
+
+        const share: ShareRef = {
+          expenseId: expense.id,
+          personId: person.id,
+          expenseTitle: expense.title,
+          from,
+          to,
+          amount: remaining,
+          homeAmount: converted,
+        };
+        shares.push(share);
+
+        const debtor = balanceFor(from, person);
+        const creditor = balanceFor(to, payer);
+        debtor.net = MoneyService.add(debtor.net, converted);
+        creditor.net = MoneyService.subtract(creditor.net, converted);
+        debtor.shares.push(share);
+        creditor.shares.push(share);
+        if (to === SELF_KEY) {
+          debtor.withYou = MoneyService.add(debtor.withYou, converted);
+          owedToYou = MoneyService.add(owedToYou, converted);
+        }
+        if (from === SELF_KEY) {
+          creditor.withYou = MoneyService.subtract(creditor.withYou, converted);
+          youOwe = MoneyService.add(youOwe, converted);
+        }
+        debts.set(`${from}|${to}`, (debts.get(`${from}|${to}`) || 0) + converted.minorUnits);
+      });
+    });
+
+    const balances = [...byKey.values()]
+      .filter(balance => balance.key !== SELF_KEY)
+      .sort((a, b) => b.net.minorUnits - a.net.minorUnits);
+
+    return {
+      balances,
+      settlements: this.simplifyDebts(debts, homeCurrency),
+      shares,
+      owedToYou,
+      youOwe,
+      missingCurrencies,
+    };
+  }
+
+  // Fewest payments that bring everyone to zero: repeatedly match the largest debtor with the
+  // largest creditor. A payment can only be recorded against the shares it clears, so debtors
+  // are matched with creditors they're connected to through what people owe each other (there's
+  // always one while anyone is still in debt).
+  static simplifyDebts(debts: Map<string, number>, currency: CurrencyCode): Settlement[] {
+    // What each person owes each other person, with debts between the same two people netted out
+    const owed = new Map<string, Map<string, number>>();
+    const net = new Map<string, number>();
+    debts.forEach((amount, pair) => {
+      const [from, to] = pair.split('|');
+      const difference = amount - (debts.get(`${to}|${from}`) || 0);
+      if (difference <= 0) return;
+      owed.set(from, (owed.get(from) || new Map()).set(to, difference));
+      net.set(from, (net.get(from) || 0) + difference);
+      net.set(to, (net.get(to) || 0) - difference);
+    });
+
+    // People reachable from `start` by following what they owe, each with the step that got there
+    const reachableFrom = (start: string): Map<string, string | null> => {
+      const previous = new Map<string, string | null>([[start, null]]);
+      const queue = [start];
+      while (queue.length > 0) {
+        const key = queue.shift()!;
+        (owed.get(key) || new Map<string, number>()).forEach((amount, to) => {
+          if (amount > 0 && !previous.has(to)) {
+            previous.set(to, key);
+            queue.push(to);
+          }
+        });
+      }
+      return previous;
+    };
+
+    const byAmount = (a: [string, number], b: [string, number]) => Math.abs(b[1]) - Math.abs(a[1]) || a[0].localeCompare(b[0]);
+    const settlements: Settlement[] = [];
+
+    for (;;) {
+      const debtor = [...net.entries()].filter(([, amount]) => amount > 0).sort(byAmount)[0];
+      if (!debtor) break;
+      const [from] = debtor;
+      const reachable = reachableFrom(from);
+      const creditor = [...net.entries()].filter(([key, amount]) => amount < 0 && reachable.has(key)).sort(byAmount)[0];
+      if (!creditor) break; // Can't happen while the debts add up
+      const [to] = creditor;
+
+      // Move the payment along chains of debts from the debtor to the creditor
+      let amount = Math.min(debtor[1], -creditor[1]);
+      const legs = new Map<string, number>();
+      let paid = 0;
+      while (amount > 0) {
+        const previous = reachableFrom(from);
+        if (!previous.has(to)) break;
+        const path: [string, string][] = [];
+        for (let key = to; previous.get(key) !== null; key = previous.get(key)!) {
+          path.unshift([previous.get(key)!, key]);
+        }
+        const step = Math.min(amount, ...path.map(([a, b]) => owed.get(a)!.get(b)!));
+        path.forEach(([a, b]) => {
+          owed.get(a)!.set(b, owed.get(a)!.get(b)! - step);
+          legs.set(`${a}|${b}`, (legs.get(`${a}|${b}`) || 0) + step);
+        });
+        amount -= step;
+        paid += step;
+      }
+      net.set(from, net.get(from)! - paid);
+      net.set(to, net.get(to)! + paid);
+
+      const legDebts = [...legs.entries()].map(([pair, legAmount]) => {
+        const [legFrom, legTo] = pair.split('|');
+        return { from: legFrom, to: legTo, amount: MoneyService.fromMinor(legAmount, currency) };
+      });
+      const existing = settlements.find(settlement => settlement.from === from && settlement.to === to);
+      if (existing) {
+        existing.amount = MoneyService.add(existing.amount, MoneyService.fromMinor(paid, currency));
+        existing.legs.push(...legDebts);
+      } else {
+        settlements.push({ from, to, amount: MoneyService.fromMinor(paid, currency), legs: legDebts });
+      }
+    }
+
+    return settlements.sort((a, b) => b.amount.minorUnits - a.amount.minorUnits || a.from.localeCompare(b.from));
+  }
+
+  // Record a suggested payment against the shares behind it. For each debt it clears, anything
+  // owed back the other way is netted out (paid in full) and the shares it's owed on are paid,
+  // oldest first, the last one partly if the payment doesn't cover all of it.
+  static async recordSettlement(settlement: Settlement, shares: ShareRef[], expenses: Expense[]): Promise<number> {
+    const payments = new Map<ShareRef, Money>(); // Share -> amount paid, in the expense's currency
+
+    // Oldest expense first, so a partial payment clears old debts before recent ones
+    const byId = new Map(expenses.map(expense => [expense.id, expense]));
+    const oldestFirst = (a: ShareRef, b: ShareRef) => {
+      const expenseA = byId.get(a.expenseId);
+      const expenseB = byId.get(b.expenseId);
+      if (!expenseA || !expenseB) return 0;
+      return expenseA.spentOn.getTime() - expenseB.spentOn.getTime() ||
+        expenseA.createdAt.getTime() - expenseB.createdAt.getTime();
+    };
+
+    // A payment can pass through the same two people more than once
+    const legs = new Map<string, number>();
+    settlement.legs.forEach(leg => legs.set(`${leg.from}|${leg.to}`, (legs.get(`${leg.from}|${leg.to}`) || 0) + leg.amount.minorUnits));
+
+    legs.forEach((amount, pair) => {
+      const [from, to] = pair.split('|');
+      const owedBack = shares.filter(share => share.from === to && share.to === from);
+      owedBack.forEach(share => payments.set(share, share.amount));
+
+      let budget = amount + owedBack.reduce((total, share) => total + share.homeAmount.minorUnits, 0);
+      shares
+        .filter(share => share.from === from && share.to === to)
+        .sort(oldestFirst)
+        .forEach(share => {
+          if (budget <= 0) return;
+          const paying = Math.min(budget, share.homeAmount.minorUnits);
+          budget -= paying;
+          payments.set(share, paying === share.homeAmount.minorUnits
+            ? share.amount
+            : MoneyService.fromMinor(Math.round(share.amount.minorUnits * paying / share.homeAmount.minorUnits), share.amount.currency));
+        });
+    });
+
+    const expenseRepository = getRepositories().expenses;
+    let updatedCount = 0;
+
+    for (const expense of expenses) {
+      const paid = [...payments.entries()].filter(([share]) => share.expenseId === expense.id);
+      if (paid.length === 0) continue;
+
+      const people = expense.people.map(person => {
+        const entry = paid.find(([share]) => share.personId === person.id);
+        if (!entry) return person;
+        const [share, amount] = entry;
+        if (MoneyService.equals(amount, share.amount)) {
+          return PaymentService.payInFull(person, new Date(), 'other', 'Settled up');
+        }
+        return PaymentService.withPayment(person, {
+          id: PaymentService.createPaymentId(),
+          amount,
+          paidAt: new Date(),
+          method: 'other',
+          note: 'Settled up',
+        });
+      });
+      await expenseRepository.update(expense.id, {
+        ...PaymentService.settlement(people, expense),
+        updatedAt: new Date(),
+      }, expense);
+      updatedCount++;
+    }
+
+    console.log(`🤝 Recorded a settlement of ${MoneyService.format(settlement.amount)} across ${updatedCount} expenses`);
+    return updatedCount;
+  }
+}
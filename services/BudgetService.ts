@@ -0,0 +1,106 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Category, CurrencyCode, Expense, Money } from '../types';
+import { CategoryService } from './CategoryService';
+import { MoneyService } from './MoneyService';
+import { NotificationService } from './NotificationService';
+
+// Percent of a budget at which the user is warned, lowest first
+export const BUDGET_ALERT_THRESHOLDS = [80, 100];
+
+export interface BudgetProgress {
+  category: Category;
+  spent: Money; // This month, in the home currency
+  budget: Money; // In the home currency
+  percent: number; // Spent as a percentage of the budget; can go past 100
+}
+
+// A budget that just passed one of the alert thresholds
+export interface BudgetAlert {
+  progress: BudgetProgress;
+  threshold: number;
+}
+
+// Highest threshold already alerted per category, for the month it was alerted in
+type AlertedThresholds = { [categoryId: string]: { month: string; threshold: number } };
+
+export class BudgetService {
+  // Alert checks run one at a time so the same threshold isn't reported twice
+  private static alertQueue: Promise<unknown> = Promise.resolve();
+
+  // How far each budgeted category is through its budget for the month containing `month`
+  static progress(
+    categories: Category[],
+    expenses: Expense[],
+    homeCurrency: CurrencyCode,
+    toHome: (amount: Money, date: Date) => Money | null,
+    month: Date = new Date()
+  ): BudgetProgress[] {
+    const spending = CategoryService.spendingByCategory(expenses, categories, homeCurrency, toHome, month);
+    const { start } = CategoryService.monthRange(month);
+    const progress: BudgetProgress[] = [];
+
+    CategoryService.sortByName(categories).forEach(category => {
+      if (!category.monthlyBudget || category.monthlyBudget.minorUnits <= 0) return;
+      // Budgets entered before the home currency changed are converted at the month's rate
+      const budget = toHome(category.monthlyBudget, start);
+      if (!budget || budget.minorUnits <= 0) return;
+
+      const spent = spending.get(category.id) ?? MoneyService.zero(homeCurrency);
+      progress.push({ category, spent, budget, percent: Math.round((spent.minorUnits / budget.minorUnits) * 100) });
+    });
+
+    return progress;
+  }
+
+  // Budgets that passed a threshold since the last check this month. Each threshold is only
+  // reported once per category per month.
+  static checkAlerts(userId: string, progress: BudgetProgress[], month: Date = new Date()): Promise<BudgetAlert[]> {
+    const check = this.alertQueue.then(async () => {
+      const storageKey = `@budget_alerts_${userId}`;
+      const monthKey = `${month.getFullYear()}-${month.getMonth() + 1}`;
+      let alerted: AlertedThresholds = {};
+      try {
+        const stored = await AsyncStorage.getItem(storageKey);
+        if (stored) alerted = JSON.parse(stored);
+      } catch (error) {
+        console.error('Error loading budget alerts:', error);
+      }
+
+      const alerts: BudgetAlert[] = [];
+      progress.forEach(entry => {
+        const previous = alerted[entry.category.id]?.month === monthKey ? alerted[entry.category.id].threshold : 0;
+        const reached = BUDGET_ALERT_THRESHOLDS.filter(threshold => entry.percent >= threshold);
+        const threshold = reached[reached.length - 1];
+        if (threshold && threshold > previous) {
+          alerts.push({ progress: entry, threshold });
+          alerted[entry.category.id] = { month: monthKey, threshold };
+        }
+      });
+
+      if (alerts.length > 0) {
+        await AsyncStorage.setItem(storageKey, JSON.stringify(alerted));
+      }
+      return alerts;
+    });
+
+    this.alertQueue = check.catch(() => undefined);
+    return check;
+  }
+
+  static describeAlert({ progress, threshold }: BudgetAlert): { title: string; message: string } {
+    const { category, spent, budget } = progress;
+    const amounts = `${MoneyService.format(spent)} of ${MoneyService.format(budget)}`;
+    return threshold >= 100
+      ? { title: `${category.icon} ${category.name} Over Budget`, message: `You've spent ${amounts} this month` }
+      : { title: `${category.icon} ${category.name} Budget at ${threshold}%`, message: `You've spent ${amounts} this month` };
+  }
+
+  // Send a local notification for each alert
+  static async notify(alerts: BudgetAlert[]): Promise<void> {
+    if (alerts.length === 0 || !(await NotificationService.areNotificationsEnabled())) return;
+    for (const alert of alerts) {
+      const { title, message } = this.describeAlert(alert);
+      await NotificationService.sendImmediateNotification(title, message);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getRepositories } from '../repositories';
+import { Category, CurrencyCode, Expense, Money } from '../types';
+import { MoneyService } from './MoneyService';
+
+export const DEFAULT_CATEGORY_ICON = '🏷️';
+
+// Offered to new users; they can be renamed or removed like any other category
+const DEFAULT_CATEGORIES: { key: string; name: string; icon: string }[] = [
+  { key: 'food', name: 'Food', icon: '🍔' },
+  { key: 'rent', name: 'Rent', icon: '🏠' },
+  { key: 'travel', name: 'Travel', icon: '✈️' },
+  { key: 'utilities', name: 'Utilities', icon: '💡' },
+  { key: 'entertainment', name: 'Entertainment', icon: '🎬' },
+  { key: 'shopping', name: 'Shopping', icon: '🛍️' },
+  { key: 'other', name: 'Other', icon: '📦' },
+];
+
+export class CategoryService {
+  // Create the default categories for a user who has none. Ids are fixed per user so devices
+  // that both do this end up with one set.
+  static async addDefaults(userId: string): Promise<number> {
+    const seededKey = `@categories_seeded_${userId}`;
+    if (await AsyncStorage.getItem(seededKey)) return 0;
+
+    const categoryRepository = getRepositories().categories;
+    const existing = await categoryRepository.list(userId);
+    if (existing.length === 0) {
+      const now = new Date();
+      for (const category of DEFAULT_CATEGORIES) {
+        await categoryRepository.add(
+          { name: category.name, icon: category.icon, createdAt: now, updatedAt: now, userId },
+          `${userId}-${category.key}`
+        );
+      }
+      console.log(`🏷️ Added ${DEFAULT_CATEGORIES.length} default categories`);
+    }
+
+    await AsyncStorage.setItem(seededKey, 'true');
+    return existing.length === 0 ? DEFAULT_CATEGORIES.length : 0;
+  }
+
+  static sortByName(categories: Category[]): Category[] {
+    return [...categories].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Expenses pointing at a removed category show as uncategorized
+  static find(categories: Category[], categoryId?: string): Category | undefined {
+    return categoryId ? categories.find(category => category.id === categoryId) : undefined;
+  }
+
+  // Start of the calendar month containing `date`, and of the month after
+  static monthRange(date: Date): { start: Date; end: Date } {
+    return {
+      start: new Date(date.getFullYear(), date.getMonth(), 1),
+      end: new Date(date.getFullYear(), date.getMonth() + 1, 1),
+    };
+  }
+
+  // Spending per category id in the home currency for the month containing `month`, with
+  // uncategorized expenses under ''. Expenses with no exchange rate are left out.
+  static spendingByCategory(
+    expenses: Expense[],
+    categories: Category[],
+    homeCurrency: CurrencyCode,
+    toHome: (amount: Money, date: Date) => Money | null,
+    month: Date = new Date()
+  ): Map<string, Money> {
+    const { start, end } = this.monthRange(month);
+    const totals = new Map<string, Money>();
+
+    expenses
+      .filter(expense => expense.spentOn >= start && expense.spentOn < end)
+      .forEach(expense => {
+        const converted = toHome(expense.totalAmount, expense.spentOn);
+        if (!converted) return;
+        const key = this.find(categories, expense.categoryId)?.id ?? '';
+        totals.set(key, MoneyService.add(totals.get(key) ?? MoneyService.zero(homeCurrency), converted));
+      });
+
+    return totals;
+  }
+
+  // Remove a category and clear it from the expenses that used it
+  static async removeCategory(category: Category, expenses: Expense[]): Promise<number> {
+    const { expenses: expenseRepository, categories: categoryRepository } = getRepositories();
+    let updatedCount = 0;
+
+    for (const expense of expenses.filter(e => e.categoryId === category.id)) {
+      await expenseRepository.update(expense.id, { categoryId: null, updatedAt: new Date() }, expense);
+      updatedCount++;
+    }
+
+    await categoryRepository.remove(category.id);
+    console.log(`🗑️ Removed category ${category.name} (${updatedCount} expenses)`);
+    return updatedCount;
+  }
+}
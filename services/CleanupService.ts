@@ -1,5 +1,4 @@
-import { collection, query, where, getDocs, deleteDoc, doc, Timestamp } from 'firebase/firestore';
-import { db } from '../firebaseConfig';
+import { getRepositories } from '../repositories';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 export interface CleanupSettings {
@@ -47,26 +46,20 @@ export class CleanupService {
       const cutoffTime = new Date();
       cutoffTime.setHours(cutoffTime.getHours() - retentionHours);
 
-      const q = query(
-        collection(db, 'todos'),
-        where('userId', '==', userId),
-        where('completed', '==', true)
-      );
-
-      const snapshot = await getDocs(q);
+      const todoRepository = getRepositories().todos;
+      const todos = await todoRepository.list(userId);
       let deletedCount = 0;
 
-      for (const docSnapshot of snapshot.docs) {
-        const data = docSnapshot.data();
+      for (const todo of todos) {
+        // Never delete a recurring series - it advances instead of staying completed
+        if (!todo.completed || todo.recurrence) {
+          continue;
+        }
         
         // Check if completedAt exists and is older than retention period
-        if (data.completedAt) {
-          const completedAt = data.completedAt.toDate();
-          
-          if (completedAt <= cutoffTime) {
-            await deleteDoc(doc(db, 'todos', docSnapshot.id));
-            deletedCount++;
-          }
+        if (todo.completedAt && todo.completedAt <= cutoffTime) {
+          await todoRepository.remove(todo.id);
+          deletedCount++;
         }
       }
 
@@ -84,25 +77,20 @@ export class CleanupService {
       const cutoffTime = new Date();
       cutoffTime.setDate(cutoffTime.getDate() - retentionDays);
 
-      const q = query(
-        collection(db, 'expenses'),
-        where('userId', '==', userId)
-      );
-
-      const snapshot = await getDocs(q);
+      const expenseRepository = getRepositories().expenses;
+      const expenses = await expenseRepository.list(userId);
       let deletedCount = 0;
 
-      for (const docSnapshot of snapshot.docs) {
-        const data = docSnapshot.data();
+      for (const expense of expenses) {
+        // Never delete a recurring bill series - it generates the future bills
+        if (expense.recurrence) {
+          continue;
+        }
         
-        // Check if createdAt exists and is older than retention period
-        if (data.createdAt) {
-          const createdAt = data.createdAt.toDate();
-          
-          if (createdAt <= cutoffTime) {
-            await deleteDoc(doc(db, 'expenses', docSnapshot.id));
-            deletedCount++;
-          }
+        // Check if the expense was spent before the retention period
+        if (expense.spentOn <= cutoffTime) {
+          await expenseRepository.remove(expense.id);
+          deletedCount++;
         }
       }
 
@@ -152,17 +140,16 @@ export class CleanupService {
   // Bulk delete all completed tasks (regardless of age)
   static async bulkDeleteAllCompletedTasks(userId: string): Promise<number> {
     try {
-      const q = query(
-        collection(db, 'todos'),
-        where('userId', '==', userId),
-        where('completed', '==', true)
-      );
-
-      const snapshot = await getDocs(q);
+      const todoRepository = getRepositories().todos;
+      const todos = await todoRepository.list(userId);
       let deletedCount = 0;
 
-      for (const docSnapshot of snapshot.docs) {
-        await deleteDoc(doc(db, 'todos', docSnapshot.id));
+      for (const todo of todos) {
+        // Never delete a recurring series
+        if (!todo.completed || todo.recurrence) {
+          continue;
+        }
+        await todoRepository.remove(todo.id);
         deletedCount++;
       }
 
@@ -180,24 +167,19 @@ export class CleanupService {
       const cutoffTime = new Date();
       cutoffTime.setDate(cutoffTime.getDate() - olderThanDays);
 
-      const q = query(
-        collection(db, 'expenses'),
-        where('userId', '==', userId)
-      );
-
-      const snapshot = await getDocs(q);
+      const expenseRepository = getRepositories().expenses;
+      const expenses = await expenseRepository.list(userId);
       let deletedCount = 0;
 
-      for (const docSnapshot of snapshot.docs) {
-        const data = docSnapshot.data();
+      for (const expense of expenses) {
+        // Never delete a recurring bill series
+        if (expense.recurrence) {
+          continue;
+        }
         
-        if (data.createdAt) {
-          const createdAt = data.createdAt.toDate();
-          
-          if (createdAt <= cutoffTime) {
-            await deleteDoc(doc(db, 'expenses', docSnapshot.id));
-            deletedCount++;
-          }
+        if (expense.spentOn <= cutoffTime) {
+          await expenseRepository.remove(expense.id);
+          deletedCount++;
         }
       }
 
@@ -224,45 +206,32 @@ export class CleanupService {
         oldestExpense: undefined as Date | undefined,
       };
 
-      // Get completed tasks
-      const tasksQuery = query(
-        collection(db, 'todos'),
-        where('userId', '==', userId),
-        where('completed', '==', true)
-      );
-      const tasksSnapshot = await getDocs(tasksQuery);
-      stats.completedTasks = tasksSnapshot.size;
+      const { todos: todoRepository, expenses: expenseRepository } = getRepositories();
 
-      // Find oldest completed task
-      tasksSnapshot.forEach((doc) => {
-        const data = doc.data();
-        if (data.completedAt) {
-          const completedAt = data.completedAt.toDate();
-          if (!stats.oldestCompletedTask || completedAt < stats.oldestCompletedTask) {
-            stats.oldestCompletedTask = completedAt;
+      // Find oldest completed task (recurring series are never cleaned up, so skip them)
+      const todos = await todoRepository.list(userId);
+      todos.forEach((todo) => {
+        if (!todo.completed || todo.recurrence) return;
+        stats.completedTasks++;
+        if (todo.completedAt) {
+          if (!stats.oldestCompletedTask || todo.completedAt < stats.oldestCompletedTask) {
+            stats.oldestCompletedTask = todo.completedAt;
           }
         }
       });
 
       // Get old expenses (older than 30 days)
-      const expensesQuery = query(
-        collection(db, 'expenses'),
-        where('userId', '==', userId)
-      );
-      const expensesSnapshot = await getDocs(expensesQuery);
+      const expenses = await expenseRepository.list(userId);
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-      expensesSnapshot.forEach((doc) => {
-        const data = doc.data();
-        if (data.createdAt) {
-          const createdAt = data.createdAt.toDate();
-          if (createdAt <= thirtyDaysAgo) {
-            stats.oldExpenses++;
-          }
-          if (!stats.oldestExpense || createdAt < stats.oldestExpense) {
-            stats.oldestExpense = createdAt;
-          }
+      expenses.forEach((expense) => {
+        if (expense.recurrence) return;
+        if (expense.spentOn <= thirtyDaysAgo) {
+          stats.oldExpenses++;
+        }
+        if (!stats.oldestExpense || expense.spentOn < stats.oldestExpense) {
+          stats.oldestExpense = expense.spentOn;
         }
       });
 
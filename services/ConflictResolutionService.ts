@@ -0,0 +1,152 @@
+import { Subtask, FieldTimestamps } from '../types';
+import { OrderService } from './OrderService';
+
+type DocData = { [field: string]: any };
+
+export interface MergeResult {
+  data: DocData; // Fields to write
+  fieldModifiedAt: FieldTimestamps; // Timestamps for the fields written
+  discarded: string[]; // Fields where a concurrent change lost out
+}
+
+// Bookkeeping fields that are never merged or reported as conflicts
+const UNTRACKED_FIELDS = ['createdAt', 'updatedAt', 'userId', 'fieldModifiedAt', 'schemaVersion'];
+
+export class ConflictResolutionService {
+  // Keep only the fields that actually differ from the item being edited, plus bookkeeping fields
+  static diff(data: DocData, current?: object): DocData {
+    if (!current) return data;
+
+    const changes: DocData = {};
+    Object.keys(data).forEach(field => {
+      if (UNTRACKED_FIELDS.includes(field) || !this.isEqual(data[field], (current as DocData)[field])) {
+        changes[field] = data[field];
+      }
+    });
+    return changes;
+  }
+
+  // Timestamp every tracked field in a write
+  static stampFields(data: DocData, now: number): FieldTimestamps {
+    const stamps: FieldTimestamps = {};
+    Object.keys(data).forEach(field => {
+      if (!UNTRACKED_FIELDS.includes(field)) {
+        stamps[field] = now;
+      }
+    });
+    return stamps;
+  }
+
+  // Timestamp subtasks that are new or changed since `previous`
+  static stampSubtasks(subtasks: Subtask[], previous: Subtask[] = [], now: number): Subtask[] {
+    return subtasks.map(subtask => {
+      const before = previous.find(st => st.id === subtask.id);
+      if (before && before.text === subtask.text && before.completed === subtask.completed && before.order === subtask.order) {
+        return before.modifiedAt ? { ...subtask, modifiedAt: before.modifiedAt } : subtask;
+      }
+      return { ...subtask, modifiedAt: now };
+    });
+  }
+
+  // Merge a local update into the current remote document, keeping the newest value per field.
+  // `baseStamps` are the field timestamps the local edit was made against; a remote field stamped
+  // later than that was changed concurrently.
+  static merge(remote: DocData, local: DocData, localStamps: FieldTimestamps, baseStamps: FieldTimestamps): MergeResult {
+    const remoteStamps: FieldTimestamps = remote.fieldModifiedAt || {};
+    const result: MergeResult = { data: {}, fieldModifiedAt: {}, discarded: [] };
+
+    Object.keys(local).forEach(field => {
+      if (UNTRACKED_FIELDS.includes(field)) {
+        result.data[field] = local[field];
+        return;
+      }
+
+      const remoteStamp = remoteStamps[field] ?? 0;
+      const baseStamp = baseStamps[field] ?? 0;
+      const localStamp = localStamps[field] ?? Date.now();
+
+      // Nobody else touched this field, or they made the same change
+      if (remoteStamp <= baseStamp || this.isEqual(remote[field], local[field])) {
+        result.data[field] = local[field];
+        result.fieldModifiedAt[field] = localStamp;
+        return;
+      }
+
+      if (field === 'subtasks') {
+        const merged = this.mergeSubtasks(remote.subtasks || [], local.subtasks || [], baseStamp);
+        result.data.subtasks = merged.subtasks;
+        result.fieldModifiedAt.subtasks = Math.max(localStamp, remoteStamp);
+        if (merged.conflict) result.discarded.push(field);
+        return;
+      }
+
+      // Both sides changed the field: newest wins
+      if (localStamp >= remoteStamp) {
+        result.data[field] = local[field];
+        result.fieldModifiedAt[field] = localStamp;
+      }
+      result.discarded.push(field);
+    });
+
+    return result;
+  }
+
+  // Merge two checklists by subtask id. Subtasks missing on one side count as deleted there
+  // if they existed before `since`, otherwise as newly added on the other side.
+  private static mergeSubtasks(remote: Subtask[], local: Subtask[], since: number): { subtasks: Subtask[]; conflict: boolean } {
+    const subtasks: Subtask[] = [];
+    let conflict = false;
+
+    local.forEach(localSubtask => {
+      const remoteSubtask = remote.find(st => st.id === localSubtask.id);
+      const localStamp = localSubtask.modifiedAt ?? 0;
+
+      if (!remoteSubtask) {
+        // Deleted remotely unless we added or changed it ourselves
+        if (localStamp > since) subtasks.push(localSubtask);
+        return;
+      }
+
+      const remoteStamp = remoteSubtask.modifiedAt ?? 0;
+      const differs = remoteSubtask.text !== localSubtask.text || remoteSubtask.completed !== localSubtask.completed;
+      if (differs && localStamp > since && remoteStamp > since) {
+        conflict = true;
+      }
+      subtasks.push(localStamp >= remoteStamp ? localSubtask : remoteSubtask);
+    });
+
+    remote.forEach(remoteSubtask => {
+      if (local.some(st => st.id === remoteSubtask.id)) return;
+      // Added remotely unless it existed before and we deleted it
+      if ((remoteSubtask.modifiedAt ?? 0) > since) subtasks.push(remoteSubtask);
+    });
+
+    // Each side's moves are kept per subtask, so the merged list follows the newest positions
+    return { subtasks: OrderService.sortSubtasks(subtasks), conflict };
+  }
+
+  // Deep equality that treats Dates and Firestore Timestamps by time, and null like undefined
+  static isEqual(a: any, b: any): boolean {
+    const timeA = this.toMillis(a);
+    const timeB = this.toMillis(b);
+    if (timeA !== null || timeB !== null) return timeA === timeB;
+
+    if (a === undefined || a === null || b === undefined || b === null) {
+      return (a ?? null) === (b ?? null);
+    }
+    if (Array.isArray(a) || Array.isArray(b)) {
+      return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => this.isEqual(item, b[i]));
+    }
+    if (typeof a === 'object' && typeof b === 'object') {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      return [...keys].every(key => this.isEqual(a[key], b[key]));
+    }
+    return a === b;
+  }
+
+  private static toMillis(value: any): number | null {
+    if (value instanceof Date) return value.getTime();
+    if (value && typeof value.toMillis === 'function') return value.toMillis();
+    return null;
+  }
+}
@@ -0,0 +1,181 @@
+import { getRepositories } from '../repositories';
+import { Contact, Expense, ExpenseSplit, Person } from '../types';
+import { MoneyService } from './MoneyService';
+import { PaymentService } from './PaymentService';
+
+const MAX_SUGGESTIONS = 5;
+
+export class ContactService {
+  // Names are compared ignoring case and extra spaces, so "Sam" and "sam " are the same person
+  static normalizeName(name: string): string {
+    return name.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  static findByName(contacts: Contact[], name: string): Contact | undefined {
+    const key = this.normalizeName(name);
+    return contacts.find(contact => this.normalizeName(contact.name) === key);
+  }
+
+  // Contacts matching what's been typed: name prefixes first, then other matches
+  static suggest(contacts: Contact[], query: string, excludeIds: string[] = []): Contact[] {
+    const key = this.normalizeName(query);
+    if (!key) return [];
+
+    const candidates = contacts.filter(contact => !excludeIds.includes(contact.id));
+    const prefix = candidates.filter(contact => this.normalizeName(contact.name).startsWith(key));
+    const other = candidates.filter(contact =>
+      !prefix.includes(contact) && this.normalizeName(contact.name).includes(key)
+    );
+    return [...prefix, ...other]
+      // Nothing to suggest once the name is typed out in full
+      .filter(contact => contact.name !== query.trim())
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  // Contacts that share a name and are probably the same person
+  static findDuplicates(contacts: Contact[]): Contact[][] {
+    const groups = new Map<string, Contact[]>();
+    contacts.forEach(contact => {
+      const key = this.normalizeName(contact.name);
+      groups.set(key, [...(groups.get(key) || []), contact]);
+    });
+    return [...groups.values()].filter(group => group.length > 1);
+  }
+
+  // Link each named person to a contact, matching by name and creating contacts that don't exist yet
+  static async linkPeople(userId: string, people: Person[], contacts: Contact[]): Promise<Person[]> {
+    const contactRepository = getRepositories().contacts;
+    const known = [...contacts];
+    const linked: Person[] = [];
+
+    for (const person of people) {
+      if (!person.name.trim() || person.isSelf || (person.contactId && known.some(contact => contact.id === person.contactId))) {
+        linked.push(person);
+        continue;
+      }
+
+      let contact = this.findByName(known, person.name);
+      if (!contact) {
+        const now = new Date();
+        const newContact = { name: person.name.trim(), createdAt: now, updatedAt: now, userId };
+        const id = await contactRepository.add(newContact);
+        contact = { id, ...newContact };
+        known.push(contact);
+        console.log(`👤 Added contact: ${contact.name}`);
+      }
+      linked.push({ ...person, contactId: contact.id });
+    }
+
+    return linked;
+  }
+
+  // Create contacts for participants saved before the directory existed. Safe to re-run.
+  static async importFromExpenses(userId: string): Promise<number> {
+    const { expenses: expenseRepository, contacts: contactRepository } = getRepositories();
+    const [expenses, contacts] = await Promise.all([
+      expenseRepository.list(userId),
+      contactRepository.list(userId),
+    ]);
+    let updatedCount = 0;
+
+    for (const expense of expenses) {
+      const known = (contactId?: string) => !!contactId && contacts.some(contact => contact.id === contactId);
+      if (expense.people.every(person => !person.name.trim() || person.isSelf || known(person.contactId))) continue;
+
+      const people = await this.linkPeople(userId, expense.people, contacts);
+      // Pick up contacts created for earlier expenses in this run
+      people.forEach(person => {
+        if (person.contactId && !known(person.contactId)) {
+          contacts.push({ id: person.contactId, name: person.name.trim(), createdAt: new Date(), updatedAt: new Date(), userId });
+        }
+      });
+      await expenseRepository.update(expense.id, { people, updatedAt: new Date() }, expense);
+      updatedCount++;
+    }
+
+    return updatedCount;
+  }
+
+  // Fold `sources` into `target`: every share moves to the target and the source contacts are removed
+  static async mergeContacts(sources: Contact[], target: Contact, expenses: Expense[]): Promise<number> {
+    const { expenses: expenseRepository, contacts: contactRepository } = getRepositories();
+    const sourceIds = sources.map(source => source.id);
+    let updatedCount = 0;
+
+    for (const expense of expenses) {
+      if (!expense.people.some(person => person.contactId && sourceIds.includes(person.contactId))) continue;
+
+      const people = expense.people.map(person =>
+        person.contactId && sourceIds.includes(person.contactId)
+          ? { ...person, contactId: target.id, name: target.name }
+          : person
+      );
+      await expenseRepository.update(expense.id, {
+        ...this.combineShares(expense, people, target.id),
+        updatedAt: new Date(),
+      }, expense);
+      updatedCount++;
+    }
+
+    for (const source of sources) {
+      await contactRepository.remove(source.id);
+    }
+    console.log(`🔗 Merged ${sources.length} contacts into ${target.name} (${updatedCount} expenses)`);
+    return updatedCount;
+  }
+
+  // After a merge an expense can list the same contact twice: fold their rows into one, adding up
+  // the amounts and keeping every payment, and point the payer and split at the row that's kept
+  private static combineShares(
+    expense: Expense,
+    people: Person[],
+    contactId: string
+  ): { people: Person[]; paidBy?: string | null; split?: ExpenseSplit | null; settled?: boolean; settledAt?: Date | null } {
+    const rows = people.filter(person => person.contactId === contactId);
+    if (rows.length < 2) return { people };
+
+    const [kept, ...others] = rows;
+    const otherIds = others.map(person => person.id);
+    const combined = PaymentService.refresh({
+      ...kept,
+      amount: MoneyService.sum(rows.map(person => person.amount), kept.amount.currency),
+      payments: rows.flatMap(person => person.payments).sort((a, b) => a.paidAt.getTime() - b.paidAt.getTime()),
+    });
+    const merged = people
+      .filter(person => !otherIds.includes(person.id))
+      .map(person => person.id === kept.id ? combined : person);
+    const paidBy = expense.paidBy && otherIds.includes(expense.paidBy) ? kept.id : expense.paidBy ?? null;
+
+    let split = expense.split ?? null;
+    if (split?.mode === 'equal') {
+      // One person now carries two shares, so the amounts no longer split evenly
+      split = { mode: 'exact' };
+    } else if (split?.weights) {
+      const weights = { ...split.weights };
+      otherIds.forEach(id => {
+        weights[kept.id] = (weights[kept.id] ?? 0) + (weights[id] ?? 0);
+        delete weights[id];
+      });
+      split = { ...split, weights };
+    }
+    if (split?.items) {
+      split = {
+        ...split,
+        items: split.items.map(item => ({
+          ...item,
+          personIds: [...new Set(item.personIds.map(id => otherIds.includes(id) ? kept.id : id))],
+        })),
+      };
+    }
+
+    return { ...PaymentService.settlement(merged, expense, paidBy), paidBy, split };
+  }
+
+  // Every expense the contact takes part in, newest first
+  static expensesFor(contactId: string, expenses: Expense[]): { expense: Expense; share: Person }[] {
+    return expenses
+      .map(expense => ({ expense, share: expense.people.find(person => person.contactId === contactId) }))
+      .filter((entry): entry is { expense: Expense; share: Person } => !!entry.share)
+      .sort((a, b) => b.expense.spentOn.getTime() - a.expense.spentOn.getTime());
+  }
+}
@@ -0,0 +1,52 @@
+import { Todo } from '../types';
+
+export class DependencyService {
+  // Blockers that are still open; links to deleted tasks are ignored
+  static openBlockers(todo: Todo, todos: Todo[]): Todo[] {
+    return (todo.blockedBy || [])
+      .map(id => todos.find(t => t.id === id))
+      .filter((blocker): blocker is Todo => !!blocker && !blocker.completed);
+  }
+
+  static isBlocked(todo: Todo, todos: Todo[]): boolean {
+    return this.openBlockers(todo, todos).length > 0;
+  }
+
+  // True if `todoId` already blocks `blockerId`, directly or through other tasks, so linking
+  // them the other way round would mean neither could be done first
+  static wouldCreateCycle(todoId: string, blockerId: string, todos: Todo[]): boolean {
+    const seen = new Set<string>();
+    const visit = (id: string): boolean => {
+      if (id === todoId) return true;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      const todo = todos.find(t => t.id === id);
+      return (todo?.blockedBy || []).some(visit);
+    };
+    return visit(blockerId);
+  }
+
+  // Open tasks that could block `todoId` (undefined for a task that hasn't been saved yet).
+  // Recurring tasks are left out since they're never finished for good.
+  static candidates(todoId: string | undefined, todos: Todo[]): Todo[] {
+    return todos.filter(todo =>
+      !todo.completed &&
+      !todo.recurrence &&
+      todo.id !== todoId &&
+      (!todoId || !this.wouldCreateCycle(todoId, todo.id, todos))
+    );
+  }
+
+  // Open tasks that were blocked in `previous` and aren't any more because their blockers were
+  // finished or deleted (not because the links were removed by hand)
+  static newlyUnblocked(previous: Todo[], current: Todo[]): Todo[] {
+    return current.filter(todo => {
+      if (todo.completed) return false;
+      const before = previous.find(t => t.id === todo.id);
+      return !!before &&
+        (before.blockedBy || []).join() === (todo.blockedBy || []).join() &&
+        this.isBlocked(before, previous) &&
+        !this.isBlocked(todo, current);
+    });
+  }
+}
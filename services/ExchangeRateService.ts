@@ -0,0 +1,96 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CurrencyCode, ExchangeRate, Money } from '../types';
+import { MoneyService } from './MoneyService';
+
+// An amount to convert and the date whose rate applies
+export interface DatedAmount {
+  amount: Money;
+  date: Date;
+}
+
+export interface ConvertedTotal {
+  total: Money;
+  missingCurrencies: CurrencyCode[]; // Currencies left out because there's no rate for them
+}
+
+export class ExchangeRateService {
+  // Rates are kept on the device so conversions work offline
+  static async getRates(userId: string): Promise<ExchangeRate[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey(userId));
+      if (!stored) return [];
+      return JSON.parse(stored).map((rate: any) => ({ ...rate, effectiveFrom: new Date(rate.effectiveFrom) }));
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+      return [];
+    }
+  }
+
+  // Add or replace a rate (matched by id); returns the updated table
+  static async saveRate(userId: string, rate: ExchangeRate): Promise<ExchangeRate[]> {
+    const rates = (await this.getRates(userId)).filter(r => r.id !== rate.id);
+    rates.push(rate);
+    await this.storeRates(userId, rates);
+    console.log(`💱 Saved rate 1 ${rate.from} = ${rate.rate} ${rate.to}`);
+    return rates;
+  }
+
+  static async removeRate(userId: string, id: string): Promise<ExchangeRate[]> {
+    const rates = (await this.getRates(userId)).filter(r => r.id !== id);
+    await this.storeRates(userId, rates);
+    return rates;
+  }
+
+  static createRateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  // Rate for converting `from` into `to` on a date: the latest one in effect then, or the
+  // earliest known rate for dates before the table starts. Rates entered the other way round are inverted.
+  static findRate(rates: ExchangeRate[], from: CurrencyCode, to: CurrencyCode, on: Date): number | null {
+    if (from === to) return 1;
+
+    const candidates = rates
+      .filter(r => (r.from === from && r.to === to) || (r.from === to && r.to === from))
+      .filter(r => r.rate > 0)
+      .sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime());
+    if (candidates.length === 0) return null;
+
+    const inEffect = candidates.filter(r => r.effectiveFrom <= on);
+    const rate = inEffect.length > 0 ? inEffect[inEffect.length - 1] : candidates[0];
+    return rate.from === from ? rate.rate : 1 / rate.rate;
+  }
+
+  static convert(rates: ExchangeRate[], amount: Money, to: CurrencyCode, on: Date): Money | null {
+    const rate = this.findRate(rates, amount.currency, to, on);
+    return rate === null ? null : MoneyService.convert(amount, rate, to);
+  }
+
+  // Sum amounts in one currency, converting each at the rate for its own date
+  static total(rates: ExchangeRate[], amounts: DatedAmount[], to: CurrencyCode): ConvertedTotal {
+    const missingCurrencies: CurrencyCode[] = [];
+    let total = MoneyService.zero(to);
+
+    amounts.forEach(({ amount, date }) => {
+      const converted = this.convert(rates, amount, to, date);
+      if (converted) {
+        total = MoneyService.add(total, converted);
+      } else if (!missingCurrencies.includes(amount.currency)) {
+        missingCurrencies.push(amount.currency);
+      }
+    });
+
+    return { total, missingCurrencies };
+  }
+
+  private static async storeRates(userId: string, rates: ExchangeRate[]) {
+    const sorted = [...rates].sort((a, b) =>
+      a.from.localeCompare(b.from) || b.effectiveFrom.getTime() - a.effectiveFrom.getTime()
+    );
+    await AsyncStorage.setItem(this.storageKey(userId), JSON.stringify(sorted));
+  }
+
+  private static storageKey(userId: string): string {
+    return `@exchange_rates_${userId}`;
+  }
+}
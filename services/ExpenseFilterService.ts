@@ -0,0 +1,164 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Expense, Money, Priority } from '../types';
+import { ContactService } from './ContactService';
+import { PaymentService } from './PaymentService';
+import { PriorityService } from './PriorityService';
+
+export type ExpenseStatusFilter = 'all' | 'unsettled' | 'settled' | 'overdue';
+
+export type ExpenseSort = 'priority' | 'newest' | 'dueDate' | 'amount' | 'outstanding';
+
+// What the expense list is narrowed to. Amounts are in the home currency; dates are spent-on dates.
+export interface ExpenseFilter {
+  query: string; // Matches title, description and participant names
+  status: ExpenseStatusFilter;
+  priority?: Priority;
+  contactId?: string;
+  categoryId?: string;
+  minAmount?: Money;
+  maxAmount?: Money;
+  from?: Date;
+  to?: Date;
+  sort: ExpenseSort;
+}
+
+export const DEFAULT_EXPENSE_FILTER: ExpenseFilter = { query: '', status: 'all', sort: 'priority' };
+
+export const EXPENSE_STATUS_LABELS: { [status in ExpenseStatusFilter]: string } = {
+  all: 'All',
+  unsettled: 'Unsettled',
+  settled: 'Settled',
+  overdue: 'Overdue',
+};
+
+export const EXPENSE_SORT_LABELS: { [sort in ExpenseSort]: string } = {
+  priority: 'Priority',
+  newest: 'Newest',
+  dueDate: 'Due Date',
+  amount: 'Amount',
+  outstanding: 'Outstanding',
+};
+
+type ToHome = (amount: Money, date: Date) => Money | null;
+
+export class ExpenseFilterService {
+  static async load(userId: string): Promise<ExpenseFilter> {
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey(userId));
+      if (!stored) return DEFAULT_EXPENSE_FILTER;
+      const data = JSON.parse(stored);
+      return {
+        ...DEFAULT_EXPENSE_FILTER,
+        ...data,
+        from: data.from ? new Date(data.from) : undefined,
+        to: data.to ? new Date(data.to) : undefined,
+      };
+    } catch (error) {
+      console.error('Error loading expense filter:', error);
+      return DEFAULT_EXPENSE_FILTER;
+    }
+  }
+
+  static async save(userId: string, filter: ExpenseFilter): Promise<void> {
+    await AsyncStorage.setItem(this.storageKey(userId), JSON.stringify(filter));
+  }
+
+  // Filters in use besides the search text and sort order
+  static activeCount(filter: ExpenseFilter): number {
+    return [
+      filter.status !== 'all',
+      !!filter.priority,
+      !!filter.contactId,
+      !!filter.categoryId,
+      !!filter.minAmount || !!filter.maxAmount,
+      !!filter.from || !!filter.to,
+    ].filter(Boolean).length;
+  }
+
+  static isOverdue(expense: Expense, now: Date = new Date()): boolean {
+    return !expense.settled && !!expense.dueDate && expense.dueDate < now;
+  }
+
+  // What's still owed to the payer on an expense, in the home currency
+  static outstanding(expense: Expense, toHome: ToHome): number {
+    if (expense.settled) return 0;
+    return PaymentService.debtorsOf(expense.people, expense.paidBy).reduce((total, person) => {
+      const converted = toHome(PaymentService.remaining(person), expense.spentOn);
+      return total + (converted ? converted.minorUnits : 0);
+    }, 0);
+  }
+
+  static matches(expense: Expense, filter: ExpenseFilter, toHome: ToHome): boolean {
+    const query = ContactService.normalizeName(filter.query);
+    if (query) {
+      const text = [expense.title, expense.description, ...expense.people.map(person => person.name)]
+        .map(value => ContactService.normalizeName(value || ''));
+      if (!text.some(value => value.includes(query))) return false;
+    }
+
+    if (filter.status === 'unsettled' && expense.settled) return false;
+    if (filter.status === 'settled' && !expense.settled) return false;
+    if (filter.status === 'overdue' && !this.isOverdue(expense)) return false;
+
+    if (filter.priority && expense.priority !== filter.priority) return false;
+    if (filter.contactId && !expense.people.some(person => person.contactId === filter.contactId)) return false;
+    if (filter.categoryId && expense.categoryId !== filter.categoryId) return false;
+
+    if (filter.minAmount || filter.maxAmount) {
+      // Expenses that can't be converted can't be compared, so they're left out. Bounds entered
+      // before the home currency changed are converted too.
+      const amount = toHome(expense.totalAmount, expense.spentOn);
+      const min = filter.minAmount && toHome(filter.minAmount, new Date());
+      const max = filter.maxAmount && toHome(filter.maxAmount, new Date());
+      if (!amount) return false;
+      if (min && amount.minorUnits < min.minorUnits) return false;
+      if (max && amount.minorUnits > max.minorUnits) return false;
+    }
+
+    // The range covers whole days
+    if (filter.from) {
+      const start = new Date(filter.from);
+      start.setHours(0, 0, 0, 0);
+      if (expense.spentOn < start) return false;
+    }
+    if (filter.to) {
+      const end = new Date(filter.to);
+      end.setHours(23, 59, 59, 999);
+      if (expense.spentOn > end) return false;
+    }
+
+    return true;
+  }
+
+  // The chosen order; ties go to the most recently spent
+  static apply(expenses: Expense[], filter: ExpenseFilter, toHome: ToHome): Expense[] {
+    const newest = (a: Expense, b: Expense) =>
+      b.spentOn.getTime() - a.spentOn.getTime() || b.createdAt.getTime() - a.createdAt.getTime();
+    const amountOf = (expense: Expense) => toHome(expense.totalAmount, expense.spentOn)?.minorUnits ?? 0;
+
+    const compare = (a: Expense, b: Expense): number => {
+      switch (filter.sort) {
+        case 'priority':
+          return PriorityService.compare(a.priority, b.priority);
+        case 'dueDate':
+          // Soonest due first; expenses without a due date go last
+          if (!a.dueDate || !b.dueDate) return a.dueDate ? -1 : b.dueDate ? 1 : 0;
+          return a.dueDate.getTime() - b.dueDate.getTime();
+        case 'amount':
+          return amountOf(b) - amountOf(a);
+        case 'outstanding':
+          return this.outstanding(b, toHome) - this.outstanding(a, toHome);
+        default:
+          return 0;
+      }
+    };
+
+    return expenses
+      .filter(expense => this.matches(expense, filter, toHome))
+      .sort((a, b) => compare(a, b) || newest(a, b));
+  }
+
+  private static storageKey(userId: string): string {
+    return `@expense_filter_${userId}`;
+  }
+}
@@ -0,0 +1,281 @@
+import { collection, query, where, getDocs, getDoc, doc, writeBatch, deleteField } from 'firebase/firestore';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { db } from '../firebaseConfig';
+import { MoneyService, DEFAULT_CURRENCY } from './MoneyService';
+import { PriorityService } from './PriorityService';
+
+export type MigratedCollection = 'todos' | 'expenses' | 'users' | 'contacts' | 'categories' | 'taskLists';
+
+// Current document shape for each collection; bump and add a migration when a shape changes
+export const SCHEMA_VERSIONS: { [key in MigratedCollection]: number } = {
+  todos: 2,
+  expenses: 5,
+  users: 1,
+  contacts: 1,
+  categories: 1,
+  taskLists: 1,
+};
+
+type DocData = { [field: string]: any };
+
+interface Migration {
+  collection: MigratedCollection;
+  version: number; // Version the document is at after this migration
+  description: string;
+  migrate: (data: DocData) => DocData; // Returns the fields to update
+}
+
+export interface MigrationProgress {
+  collection: MigratedCollection;
+  migrated: number;
+  total: number;
+}
+
+export interface MigrationRecord {
+  version: number;
+  migrated: number;
+  total: number;
+  updatedAt: string;
+  completed: boolean;
+}
+
+// Firestore allows at most 500 writes per batch
+const BATCH_SIZE = 200;
+
+// Legacy decimal amount (number or text) to whole minor units
+const toMoney = (value: any) => {
+  if (value && typeof value === 'object') return value;
+  if (typeof value === 'number' && Number.isFinite(value)) return MoneyService.fromDecimal(value, DEFAULT_CURRENCY);
+  return MoneyService.parse(String(value ?? ''), DEFAULT_CURRENCY) ?? MoneyService.zero(DEFAULT_CURRENCY);
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    collection: 'todos',
+    version: 1,
+    description: 'Fill in fields added after launch',
+    migrate: (data) => {
+      const changes: DocData = {};
+      if (typeof data.completed !== 'boolean') changes.completed = !!data.completed;
+      // Only fill in a missing flag; a level written by a newer edit is left for v2 to skip
+      if (data.priority === undefined || data.priority === null) changes.priority = false;
+      if (!Array.isArray(data.subtasks)) changes.subtasks = [];
+      if (typeof data.description !== 'string') changes.description = '';
+      if (!data.updatedAt && data.createdAt) changes.updatedAt = data.createdAt;
+      // Completed before completedAt existed - use the last update so cleanup can age it out
+      if (data.completed && !data.completedAt && (data.updatedAt || data.createdAt)) {
+        changes.completedAt = data.updatedAt || data.createdAt;
+      }
+      // Single reminder id from before multiple reminders
+      if (!Array.isArray(data.reminderNotificationIds)) {
+        changes.reminderNotificationIds = data.reminderNotificationId ? [data.reminderNotificationId] : [];
+      }
+      if (data.reminderNotificationId !== undefined) changes.reminderNotificationId = deleteField();
+      return changes;
+    },
+  },
+  {
+    collection: 'todos',
+    version: 2,
+    description: 'Replace the priority flag with priority levels',
+    migrate: (data) => (typeof data.priority === 'boolean' ? { priority: PriorityService.fromLegacy(data.priority) } : {}),
+  },
+  {
+    collection: 'expenses',
+    version: 1,
+    description: 'Fill in fields added after launch and normalise amounts',
+    migrate: (data) => {
+      const changes: DocData = {};
+      // Only fill in a missing flag; a level written by a newer edit is left for v2 to skip
+      if (data.priority === undefined || data.priority === null) changes.priority = false;
+      if (typeof data.settled !== 'boolean') changes.settled = !!data.settled;
+      if (typeof data.description !== 'string') changes.description = '';
+      if (!data.updatedAt && data.createdAt) changes.updatedAt = data.createdAt;
+      if (typeof data.totalAmount === 'string' && !isNaN(parseFloat(data.totalAmount))) {
+        changes.totalAmount = parseFloat(data.totalAmount);
+      }
+      if (!Array.isArray(data.people)) {
+        changes.people = [];
+      } else if (data.people.some((person: any) => typeof person.paid !== 'boolean' || typeof person.amount !== 'string')) {
+        changes.people = data.people.map((person: any) => ({
+          ...person,
+          amount: person.amount === undefined || person.amount === null ? '' : String(person.amount),
+          paid: !!person.paid,
+        }));
+      }
+      return changes;
+    },
+  },
+  {
+    collection: 'expenses',
+    version: 2,
+    description: 'Store amounts as whole minor units with a currency code',
+    migrate: (data) => ({
+      totalAmount: toMoney(data.totalAmount),
+      people: (data.people || []).map((person: any) => ({ ...person, amount: toMoney(person.amount) })),
+    }),
+  },
+  {
+    collection: 'expenses',
+    version: 3,
+    description: 'Record paid shares as payments and stamp settled expenses',
+    migrate: (data) => {
+      // The old paid checkbox becomes one payment of the whole share, dated at the last update
+      const paidAt = data.updatedAt || data.createdAt;
+      const changes: DocData = {
+        people: (data.people || []).map((person: any) => ({
+          ...person,
+          payments: Array.isArray(person.payments) ? person.payments : person.paid && paidAt
+            ? [{ id: `legacy-${person.id}`, amount: person.amount, paidAt, method: 'other' }]
+            : [],
+        })),
+      };
+      if (data.settled && !data.settledAt && paidAt) changes.settledAt = paidAt;
+      return changes;
+    },
+  },
+  {
+    collection: 'expenses',
+    version: 4,
+    description: 'Date expenses by when they were spent',
+    migrate: (data) => (!data.spentOn && data.createdAt ? { spentOn: data.createdAt } : {}),
+  },
+  {
+    collection: 'expenses',
+    version: 5,
+    description: 'Replace the priority flag with priority levels',
+    migrate: (data) => (typeof data.priority === 'boolean' ? { priority: PriorityService.fromLegacy(data.priority) } : {}),
+  },
+  {
+    collection: 'users',
+    version: 1,
+    description: 'Fill in default goals and notification settings',
+    migrate: (data) => {
+      const changes: DocData = {};
+      if (typeof data.weeklyGoal !== 'number') changes.weeklyGoal = 80;
+      if (typeof data.monthlyGoal !== 'number') changes.monthlyGoal = 75;
+      if (!data.notificationFrequency) changes.notificationFrequency = 'none';
+      if (typeof data.notificationsEnabled !== 'boolean') changes.notificationsEnabled = false;
+      return changes;
+    },
+  },
+];
+
+export class MigrationService {
+  // Upgrade all of a user's documents to the current schema versions. Safe to re-run: only
+  // documents below the current version are touched, so an interrupted run picks up where it stopped.
+  static async runMigrations(
+    userId: string,
+    onProgress?: (progress: MigrationProgress) => void
+  ): Promise<number> {
+    let migratedCount = 0;
+
+    for (const collectionName of ['users', 'todos', 'expenses'] as MigratedCollection[]) {
+      try {
+        migratedCount += await this.migrateCollection(userId, collectionName, onProgress);
+      } catch (error) {
+        // Leave the rest for next time (e.g. when offline)
+        console.error(`Error migrating ${collectionName}:`, error);
+      }
+    }
+
+    if (migratedCount > 0) {
+      console.log(`🛠️ Migrated ${migratedCount} documents to the current schema`);
+    }
+    return migratedCount;
+  }
+
+  // Progress recorded by the last run, per collection
+  static async getMigrationRecords(userId: string): Promise<{ [key in MigratedCollection]?: MigrationRecord }> {
+    try {
+      const records = await AsyncStorage.getItem(this.recordKey(userId));
+      return records ? JSON.parse(records) : {};
+    } catch (error) {
+      console.error('Error loading migration progress:', error);
+      return {};
+    }
+  }
+
+  // Fields to update to bring one stored document up to date
+  private static migrateDocument(collectionName: MigratedCollection, data: DocData): DocData {
+    const changes: DocData = {};
+    let current = { ...data };
+    for (const migration of this.pendingMigrations(collectionName, data.schemaVersion ?? 0)) {
+      const step = migration.migrate(current);
+      Object.assign(changes, step);
+      current = { ...current, ...step };
+    }
+    changes.schemaVersion = SCHEMA_VERSIONS[collectionName];
+    return changes;
+  }
+
+  private static async migrateCollection(
+    userId: string,
+    collectionName: MigratedCollection,
+    onProgress?: (progress: MigrationProgress) => void
+  ): Promise<number> {
+    const targetVersion = SCHEMA_VERSIONS[collectionName];
+    const outdated = (await this.loadDocs(userId, collectionName))
+      .filter(({ data }) => (data.schemaVersion ?? 0) < targetVersion);
+
+    if (outdated.length === 0) {
+      await this.recordProgress(userId, collectionName, { version: targetVersion, migrated: 0, total: 0, completed: true });
+      return 0;
+    }
+
+    console.log(`🛠️ Migrating ${outdated.length} ${collectionName} to schema v${targetVersion}`);
+    let migrated = 0;
+
+    for (let start = 0; start < outdated.length; start += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      outdated.slice(start, start + BATCH_SIZE).forEach(({ id, data }) => {
+        batch.update(doc(db, collectionName, id), this.migrateDocument(collectionName, data));
+      });
+      await batch.commit();
+
+      migrated = Math.min(start + BATCH_SIZE, outdated.length);
+      await this.recordProgress(userId, collectionName, {
+        version: targetVersion,
+        migrated,
+        total: outdated.length,
+        completed: migrated === outdated.length,
+      });
+      onProgress?.({ collection: collectionName, migrated, total: outdated.length });
+    }
+
+    return migrated;
+  }
+
+  private static async loadDocs(userId: string, collectionName: MigratedCollection): Promise<{ id: string; data: DocData }[]> {
+    if (collectionName === 'users') {
+      const userDoc = await getDoc(doc(db, 'users', userId));
+      return userDoc.exists() ? [{ id: userDoc.id, data: userDoc.data() }] : [];
+    }
+    const snapshot = await getDocs(query(collection(db, collectionName), where('userId', '==', userId)));
+    return snapshot.docs.map(docSnapshot => ({ id: docSnapshot.id, data: docSnapshot.data() }));
+  }
+
+  private static pendingMigrations(collectionName: MigratedCollection, fromVersion: number): Migration[] {
+    return MIGRATIONS
+      .filter(migration => migration.collection === collectionName && migration.version > fromVersion)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  private static async recordProgress(
+    userId: string,
+    collectionName: MigratedCollection,
+    record: Omit<MigrationRecord, 'updatedAt'>
+  ): Promise<void> {
+    try {
+      const records = await this.getMigrationRecords(userId);
+      records[collectionName] = { ...record, updatedAt: new Date().toISOString() };
+      await AsyncStorage.setItem(this.recordKey(userId), JSON.stringify(records));
+    } catch (error) {
+      console.error('Error saving migration progress:', error);
+    }
+  }
+
+  private static recordKey(userId: string): string {
+    return `@migration_progress_${userId}`;
+  }
+}
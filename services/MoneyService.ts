@@ -0,0 +1,168 @@
+import { Money, CurrencyCode } from '../types';
+
+// Currency used for amounts saved before currencies were recorded
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+// Offered in currency pickers; any ISO code can still be entered
+export const COMMON_CURRENCIES: CurrencyCode[] = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY', 'INR', 'MXN'];
+
+export class MoneyService {
+  // Number of minor units digits for a currency, e.g. 2 for USD, 0 for JPY
+  static fractionDigits(currency: CurrencyCode): number {
+    try {
+      return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch (error) {
+      return 2;
+    }
+  }
+
+  static fromMinor(minorUnits: number, currency: CurrencyCode): Money {
+    if (!Number.isInteger(minorUnits)) {
+      throw new Error(`Money amounts must be whole minor units, got ${minorUnits}`);
+    }
+    return { minorUnits, currency };
+  }
+
+  static zero(currency: CurrencyCode): Money {
+    return { minorUnits: 0, currency };
+  }
+
+  // Convert a decimal amount (e.g. a legacy float like 12.5) to the nearest minor unit
+  static fromDecimal(value: number, currency: CurrencyCode): Money {
+    return this.parse(value.toFixed(this.fractionDigits(currency) + 1), currency) ?? this.zero(currency);
+  }
+
+  // Parse user input like "12", "12.5" or "1,234.56"; returns null if it isn't an amount.
+  // Extra decimal places are rounded half away from zero without going through floats.
+  static parse(input: string, currency: CurrencyCode): Money | null {
+    let text = input.trim().replace(/\s/g, '');
+    // A lone comma followed by 1-2 digits is a decimal separator ("12,50"), otherwise a thousands separator
+    if (!text.includes('.') && /^-?\d+,\d{1,2}$/.test(text)) {
+      text = text.replace(',', '.');
+    }
+    text = text.replace(/,/g, '');
+
+    const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(text);
+    if (!match || (match[2] === '' && !match[3])) {
+      return null;
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    const digits = this.fractionDigits(currency);
+    const kept = fraction.slice(0, digits).padEnd(digits, '0');
+    let minorUnits = parseInt(`${whole || '0'}${kept}`, 10);
+    if (fraction.length > digits && parseInt(fraction[digits], 10) >= 5) {
+      minorUnits += 1;
+    }
+    return this.fromMinor(sign === '-' && minorUnits !== 0 ? -minorUnits : minorUnits, currency);
+  }
+
+  // Plain decimal string for editing in a text input, e.g. "12.50"
+  static toInput(money: Money): string {
+    const digits = this.fractionDigits(money.currency);
+    const sign = money.minorUnits < 0 ? '-' : '';
+    const padded = String(Math.abs(money.minorUnits)).padStart(digits + 1, '0');
+    if (digits === 0) return `${sign}${padded}`;
+    return `${sign}${padded.slice(0, -digits)}.${padded.slice(-digits)}`;
+  }
+
+  static toDecimal(money: Money): number {
+    return money.minorUnits / Math.pow(10, this.fractionDigits(money.currency));
+  }
+
+  static add(a: Money, b: Money): Money {
+    this.assertSameCurrency(a, b);
+    return this.fromMinor(a.minorUnits + b.minorUnits, a.currency);
+  }
+
+  static subtract(a: Money, b: Money): Money {
+    this.assertSameCurrency(a, b);
+    return this.fromMinor(a.minorUnits - b.minorUnits, a.currency);
+  }
+
+  static abs(money: Money): Money {
+    return this.fromMinor(Math.abs(money.minorUnits), money.currency);
+  }
+
+  static sum(amounts: Money[], currency: CurrencyCode): Money {
+    return amounts.reduce((total, amount) => this.add(total, amount), this.zero(currency));
+  }
+
+  // Convert at `rate` units of `currency` per unit of the amount's currency, rounding to the nearest minor unit
+  static convert(money: Money, rate: number, currency: CurrencyCode): Money {
+    const scale = Math.pow(10, this.fractionDigits(currency) - this.fractionDigits(money.currency));
+    return this.fromMinor(Math.round(money.minorUnits * rate * scale), currency);
+  }
+
+  static isValidCurrency(currency: string): boolean {
+    if (!/^[A-Z]{3}$/.test(currency)) return false;
+    try {
+      new Intl.NumberFormat('en', { style: 'currency', currency });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  static isZero(money: Money): boolean {
+    return money.minorUnits === 0;
+  }
+
+  static equals(a: Money, b: Money): boolean {
+    return a.currency === b.currency && a.minorUnits === b.minorUnits;
+  }
+
+  // Split into `parts` amounts that add back up to the total exactly; leftover minor units go
+  // one each to the first parts, so 10.00 / 3 is 3.34, 3.33, 3.33
+  static split(total: Money, parts: number): Money[] {
+    if (parts <= 0) return [];
+    return this.allocate(total, new Array(parts).fill(1));
+  }
+
+  // Split in proportion to `weights` (largest remainder method). The result always adds up to
+  // the total; ties for leftover minor units go to the earliest entries.
+  static allocate(total: Money, weights: number[]): Money[] {
+    const weightSum = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+    if (weights.length === 0 || weightSum <= 0) {
+      return weights.map(() => this.zero(total.currency));
+    }
+
+    const sign = total.minorUnits < 0 ? -1 : 1;
+    const absolute = Math.abs(total.minorUnits);
+    const exact = weights.map(weight => (absolute * Math.max(0, weight)) / weightSum);
+    const shares = exact.map(Math.floor);
+    let leftover = absolute - shares.reduce((sum, share) => sum + share, 0);
+
+    const byRemainder = exact
+      .map((value, index) => ({ index, remainder: value - shares[index] }))
+      .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+    for (let i = 0; leftover > 0; i = (i + 1) % byRemainder.length, leftover--) {
+      shares[byRemainder[i].index] += 1;
+    }
+
+    return shares.map(share => this.fromMinor(sign * share, total.currency));
+  }
+
+  // Locale-aware display, e.g. "$1,234.50" or "1.234,50 €". `wholeUnits` drops the minor units.
+  static format(money: Money, options: { locale?: string; wholeUnits?: boolean } = {}): string {
+    const digits = this.fractionDigits(money.currency);
+    const value = options.wholeUnits ? Math.round(this.toDecimal(money)) : this.toDecimal(money);
+    try {
+      return new Intl.NumberFormat(options.locale, {
+        style: 'currency',
+        currency: money.currency,
+        minimumFractionDigits: options.wholeUnits ? 0 : digits,
+        maximumFractionDigits: options.wholeUnits ? 0 : digits,
+      }).format(value);
+    } catch (error) {
+      // Unknown currency code or no Intl support
+      return `${money.currency} ${options.wholeUnits ? value : this.toInput(money)}`;
+    }
+  }
+
+  private static assertSameCurrency(a: Money, b: Money) {
+    if (a.currency !== b.currency) {
+      throw new Error(`Can't combine ${a.currency} and ${b.currency} amounts`);
+    }
+  }
+}
@@ -1,6 +1,18 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TaskReminder } from '../types';
+
+// Reminder offsets (minutes before the due date) offered in the UI
+export const REMINDER_OFFSET_PRESETS = [
+  { label: 'At due time', minutes: 0 },
+  { label: '10 min before', minutes: 10 },
+  { label: '1 hour before', minutes: 60 },
+  { label: '1 day before', minutes: 24 * 60 },
+];
+
+// Used when the user hasn't picked their own default
+export const DEFAULT_REMINDER_OFFSETS = [60];
 
 // Configure how notifications are displayed
 Notifications.setNotificationHandler({
@@ -204,16 +216,76 @@ export class NotificationService {
     }
   }
 
-  // Schedule a notification for a specific todo due date
+  // Format a duration in minutes as "1 day", "2 hours" or "10 minutes"
+  static formatReminderDuration(minutes: number): string {
+    const pluralize = (value: number, unit: string) => `${value} ${unit}${value === 1 ? '' : 's'}`;
+    if (minutes >= 24 * 60 && minutes % (24 * 60) === 0) {
+      return pluralize(minutes / (24 * 60), 'day');
+    }
+    if (minutes >= 60 && minutes % 60 === 0) {
+      return pluralize(minutes / 60, 'hour');
+    }
+    return pluralize(minutes, 'minute');
+  }
+
+  // Stored reminders (Firestore Timestamps or draft JSON strings) back to TaskReminders
+  static parseTaskReminders(reminders: any[]): TaskReminder[] {
+    return reminders.map((reminder) =>
+      reminder.type === 'at'
+        ? { type: 'at', date: reminder.date?.toDate ? reminder.date.toDate() : new Date(reminder.date) }
+        : { type: 'before', minutes: reminder.minutes }
+    );
+  }
+
+  // Short label for a reminder, e.g. "1 hour before" or "Mar 3, 9:00 AM"
+  static formatTaskReminder(reminder: TaskReminder): string {
+    if (reminder.type === 'at') {
+      return reminder.date.toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+        hour12: true,
+      });
+    }
+    if (reminder.minutes === 0) {
+      return 'At due time';
+    }
+    return `${this.formatReminderDuration(reminder.minutes)} before`;
+  }
+
+  // When a reminder goes off; relative reminders need a due date to count back from
+  static taskReminderTime(dueDate: Date | null | undefined, reminder: TaskReminder): Date | null {
+    if (reminder.type === 'at') {
+      return reminder.date;
+    }
+    return dueDate ? new Date(dueDate.getTime() - reminder.minutes * 60 * 1000) : null;
+  }
+
+  // Schedule a notification for a specific todo reminder (defaults to 1 hour before the due date)
   static async scheduleTaskReminder(
     taskId: string,
     taskTitle: string,
-    dueDate: Date
+    dueDate: Date | null | undefined,
+    reminder: TaskReminder = { type: 'before', minutes: 60 }
   ): Promise<string | null> {
     try {
-      // Schedule notification 1 hour before due time
-      const reminderTime = new Date(dueDate.getTime() - 60 * 60 * 1000);
-      
+      const reminderTime = this.taskReminderTime(dueDate, reminder);
+      if (!reminderTime) {
+        return null;
+      }
+
+      let body: string;
+      if (reminder.type === 'at') {
+        body = dueDate
+          ? `"${taskTitle}" is due ${dueDate.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', hour12: true })}`
+          : `Don't forget "${taskTitle}"`;
+      } else {
+        body = reminder.minutes === 0
+          ? `"${taskTitle}" is due now`
+          : `"${taskTitle}" is due in ${this.formatReminderDuration(reminder.minutes)}`;
+      }
+
       // Don't schedule if the time has already passed
       if (reminderTime <= new Date()) {
         return null;
@@ -222,7 +294,7 @@ export class NotificationService {
       const notificationId = await Notifications.scheduleNotificationAsync({
         content: {
           title: '⏰ Task reminder',
-          body: `"${taskTitle}" is due in 1 hour`,
+          body,
           data: { taskId },
           sound: true,
         },
@@ -239,6 +311,73 @@ export class NotificationService {
     }
   }
 
+  // Replace a task's reminders: cancels the previous ones and schedules one notification per reminder.
+  // Reminders that would go off before a deferred task's start date fire once when it starts instead.
+  static async rescheduleTaskReminders(
+    taskId: string,
+    taskTitle: string,
+    dueDate: Date | null | undefined,
+    reminders: TaskReminder[],
+    previousNotificationIds: string[] = [],
+    startDate?: Date | null
+  ): Promise<string[]> {
+    await this.cancelTaskReminders(previousNotificationIds);
+
+    if (reminders.length === 0) {
+      return [];
+    }
+
+    const granted = await this.requestPermissions();
+    if (!granted) {
+      return [];
+    }
+
+    const notificationIds: string[] = [];
+    let startReminderScheduled = false;
+    for (const reminder of reminders) {
+      const reminderTime = this.taskReminderTime(dueDate, reminder);
+      const deferred = !!startDate && !!reminderTime && reminderTime < startDate;
+      if (deferred && startReminderScheduled) {
+        continue;
+      }
+      startReminderScheduled = startReminderScheduled || deferred;
+
+      const notificationId = await this.scheduleTaskReminder(
+        taskId,
+        taskTitle,
+        dueDate,
+        deferred ? { type: 'at', date: startDate! } : reminder
+      );
+      if (notificationId) {
+        notificationIds.push(notificationId);
+      }
+    }
+    return notificationIds;
+  }
+
+  // Cancel every reminder scheduled for a task
+  static async cancelTaskReminders(notificationIds: string[] = []): Promise<void> {
+    for (const id of notificationIds) {
+      await this.cancelNotification(id);
+    }
+  }
+
+  // Get the user's default reminder offsets for new tasks (minutes before due)
+  static async getDefaultReminderOffsets(): Promise<number[]> {
+    try {
+      const cachedSettings = await AsyncStorage.getItem('@notification_settings');
+      if (cachedSettings) {
+        const settings = JSON.parse(cachedSettings);
+        if (Array.isArray(settings.defaultReminderOffsets)) {
+          return settings.defaultReminderOffsets;
+        }
+      }
+    } catch (error) {
+      console.error('Error loading default reminder offsets:', error);
+    }
+    return DEFAULT_REMINDER_OFFSETS;
+  }
+
   // Cancel a specific scheduled notification
   static async cancelNotification(notificationId: string): Promise<void> {
     try {
@@ -0,0 +1,69 @@
+import { Subtask, Todo } from '../types';
+
+// Gap left when moving an item past either end of the list
+const ORDER_STEP = 1000;
+
+// Neighbours closer than this many steps of floating point precision (relative to their size)
+// can't reliably fit another item between them. Orders start out as timestamps (~1.7e12), where
+// one step is already ~2.4e-4.
+const MIN_GAP_EPSILONS = 8;
+
+// Positions in a manual order are fractional, so moving an item only rewrites that item and
+// moves made on different devices merge without renumbering the whole list.
+export class OrderService {
+  // New todos go at the end; todos saved before manual ordering use their creation time the same way
+  static newTodoOrder(): number {
+    return Date.now();
+  }
+
+  // Manual order, then the order they were added in
+  static compareTodos(a: Todo, b: Todo): number {
+    return a.order - b.order || a.createdAt.getTime() - b.createdAt.getTime();
+  }
+
+  // Subtasks saved before ordering keep their place in the stored list
+  static sortSubtasks(subtasks: Subtask[]): Subtask[] {
+    return subtasks
+      .map((subtask, index) => ({ subtask, order: subtask.order ?? index }))
+      .sort((a, b) => a.order - b.order)
+      .map(entry => entry.subtask);
+  }
+
+  // Order for a subtask added after the others
+  static nextSubtaskOrder(subtasks: Subtask[]): number {
+    return subtasks.reduce((max, subtask, index) => Math.max(max, subtask.order ?? index), -1) + 1;
+  }
+
+  // A value between two neighbours; either may be missing at the ends of the list
+  static between(before?: number, after?: number): number {
+    if (before === undefined && after === undefined) return 0;
+    if (before === undefined) return after! - ORDER_STEP;
+    if (after === undefined) return before + ORDER_STEP;
+    return (before + after) / 2;
+  }
+
+  private static tooClose(before: number, after: number): boolean {
+    const middle = (before + after) / 2;
+    return middle <= before || middle >= after ||
+      after - before <= Math.max(Math.abs(before), Math.abs(after)) * Number.EPSILON * MIN_GAP_EPSILONS;
+  }
+
+  // New orders after moving the item at `from` to index `to` in a list sorted by `orders`.
+  // Usually only the moved item changes; if its new neighbours are too close together the
+  // whole list is respaced.
+  static move(orders: number[], from: number, to: number): { index: number; order: number }[] {
+    if (from === to) return [];
+
+    const others = orders.filter((_, index) => index !== from);
+    const before = others[to - 1];
+    const after = others[to];
+    if (before === undefined || after === undefined || !this.tooClose(before, after)) {
+      return [{ index: from, order: this.between(before, after) }];
+    }
+
+    const indexes = orders.map((_, index) => index).filter(index => index !== from);
+    indexes.splice(to, 0, from);
+    const start = orders[indexes[0]] ?? 0;
+    return indexes.map((index, position) => ({ index, order: start + position * ORDER_STEP }));
+  }
+}
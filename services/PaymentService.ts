@@ -0,0 +1,111 @@
+import { getRepositories } from '../repositories';
+import { Expense, Money, Payment, PaymentMethod, Person } from '../types';
+import { MoneyService } from './MoneyService';
+
+export const PAYMENT_METHOD_LABELS: { [method in PaymentMethod]: string } = {
+  cash: 'Cash',
+  card: 'Card',
+  transfer: 'Transfer',
+  other: 'Other',
+};
+
+export class PaymentService {
+  static createPaymentId(): string {
+    return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  // The person who paid the bill: the `paidBy` person, or your own row if you paid. Their share
+  // is theirs to cover, so it's never owed to anyone.
+  static payerOf(people: Person[], paidBy?: string | null): Person | undefined {
+    return paidBy ? people.find(person => person.id === paidBy) : people.find(person => person.isSelf);
+  }
+
+  // People who owe their share to the payer
+  static debtorsOf(people: Person[], paidBy?: string | null): Person[] {
+    const payer = this.payerOf(people, paidBy);
+    return people.filter(person => person !== payer);
+  }
+
+  static paidAmount(person: Person): Money {
+    return MoneyService.sum(person.payments.map(payment => payment.amount), person.amount.currency);
+  }
+
+  // What's still owed; never negative, even if someone paid too much
+  static remaining(person: Person): Money {
+    const remaining = MoneyService.subtract(person.amount, this.paidAmount(person));
+    return remaining.minorUnits > 0 ? remaining : MoneyService.zero(person.amount.currency);
+  }
+
+  // Recompute `paid` from the payments, e.g. after the person's amount changed
+  static refresh(person: Person): Person {
+    return { ...person, paid: MoneyService.isZero(this.remaining(person)) };
+  }
+
+  static withPayment(person: Person, payment: Payment): Person {
+    const payments = [...person.payments, payment].sort((a, b) => a.paidAt.getTime() - b.paidAt.getTime());
+    return this.refresh({ ...person, payments });
+  }
+
+  static withoutPayment(person: Person, paymentId: string): Person {
+    return this.refresh({ ...person, payments: person.payments.filter(payment => payment.id !== paymentId) });
+  }
+
+  // Record whatever is left as one payment
+  static payInFull(person: Person, paidAt: Date = new Date(), method: PaymentMethod = 'other', note?: string): Person {
+    const remaining = this.remaining(person);
+    if (MoneyService.isZero(remaining)) return this.refresh(person);
+    const payment: Payment = { id: this.createPaymentId(), amount: remaining, paidAt, method };
+    if (note) payment.note = note;
+    return this.withPayment(person, payment);
+  }
+
+  // Whatever is left, paid by ticking the expense as settled
+  static payBySettling(person: Person, paidAt: Date = new Date()): Person {
+    const remaining = this.remaining(person);
+    if (MoneyService.isZero(remaining)) return this.refresh(person);
+    return this.withPayment(person, { id: this.createPaymentId(), amount: remaining, paidAt, method: 'other', fromSettledToggle: true });
+  }
+
+  // Take back what ticking the expense as settled recorded, keeping payments entered by hand
+  static withoutSettlingPayments(person: Person): Person {
+    return this.refresh({ ...person, payments: person.payments.filter(payment => !payment.fromSettledToggle) });
+  }
+
+  static clearPayments(person: Person): Person {
+    return this.refresh({ ...person, payments: [] });
+  }
+
+  // Settled state for updated people: an expense settles once everyone but the payer has paid
+  // their share, keeping the original settledAt if it was already settled. Expenses nobody owes
+  // anything on are settled by hand.
+  static settlement(
+    people: Person[],
+    current?: Expense,
+    paidBy: string | null | undefined = current?.paidBy
+  ): { people: Person[]; settled: boolean; settledAt: Date | null } {
+    const debtors = this.debtorsOf(people, paidBy);
+    const settled = debtors.length > 0 ? debtors.every(person => person.paid) : !!current?.settled;
+    return {
+      people,
+      settled,
+      settledAt: settled ? (current?.settled && current.settledAt ? current.settledAt : new Date()) : null,
+    };
+  }
+
+  static async recordPayment(expense: Expense, personId: string, payment: Payment): Promise<void> {
+    const people = expense.people.map(person => person.id === personId ? this.withPayment(person, payment) : person);
+    await getRepositories().expenses.update(expense.id, {
+      ...this.settlement(people, expense),
+      updatedAt: new Date(),
+    }, expense);
+    console.log(`💵 Recorded ${MoneyService.format(payment.amount)} payment on ${expense.title}`);
+  }
+
+  static async removePayment(expense: Expense, personId: string, paymentId: string): Promise<void> {
+    const people = expense.people.map(person => person.id === personId ? this.withoutPayment(person, paymentId) : person);
+    await getRepositories().expenses.update(expense.id, {
+      ...this.settlement(people, expense),
+      updatedAt: new Date(),
+    }, expense);
+  }
+}
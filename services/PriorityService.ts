@@ -0,0 +1,54 @@
+import { Priority } from '../types';
+
+// Lowest to highest; tapping the priority button steps through them in this order
+export const PRIORITY_LEVELS: Priority[] = ['none', 'low', 'medium', 'high'];
+
+export const PRIORITY_LABELS: { [priority in Priority]: string } = {
+  none: 'None',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+const PRIORITY_SYMBOLS: { [priority in Priority]: string } = {
+  none: '☆',
+  low: '!',
+  medium: '!!',
+  high: '!!!',
+};
+
+const PRIORITY_COLORS: { [priority in Priority]: string } = {
+  none: '#8B7BA8',
+  low: '#3B82F6',
+  medium: '#F59E0B',
+  high: '#EF4444',
+};
+
+export class PriorityService {
+  static rank(priority: Priority): number {
+    return PRIORITY_LEVELS.indexOf(priority);
+  }
+
+  // Higher priority first
+  static compare(a: Priority, b: Priority): number {
+    return this.rank(b) - this.rank(a);
+  }
+
+  // The level after `priority`, wrapping from high back to none
+  static next(priority: Priority): Priority {
+    return PRIORITY_LEVELS[(this.rank(priority) + 1) % PRIORITY_LEVELS.length];
+  }
+
+  static symbol(priority: Priority): string {
+    return PRIORITY_SYMBOLS[priority];
+  }
+
+  static color(priority: Priority): string {
+    return PRIORITY_COLORS[priority];
+  }
+
+  // Documents written before priority levels stored true/false
+  static fromLegacy(value: boolean): Priority {
+    return value ? 'high' : 'none';
+  }
+}
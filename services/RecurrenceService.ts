@@ -0,0 +1,161 @@
+import { RecurrenceFrequency, RecurrenceRule } from '../types';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS = ['first', 'second', 'third', 'fourth'];
+
+export class RecurrenceService {
+  // Build a rule for the given frequency, anchored on the task's due date
+  static createRule(frequency: RecurrenceFrequency, anchor: Date): RecurrenceRule {
+    const rule: RecurrenceRule = { frequency, interval: 1 };
+    if (frequency === 'weekly') {
+      rule.daysOfWeek = [anchor.getDay()];
+    }
+    if (frequency === 'monthly') {
+      rule.monthlyMode = 'dayOfMonth';
+    }
+    return this.reanchor(rule, anchor);
+  }
+
+  // Update the date-derived parts of a rule (day of month, weekday) after the due date changes
+  static reanchor(rule: RecurrenceRule, anchor: Date): RecurrenceRule {
+    if (rule.frequency === 'monthly' || rule.frequency === 'yearly') {
+      const updated: RecurrenceRule = { ...rule, dayOfMonth: anchor.getDate() };
+      if (rule.frequency === 'monthly') {
+        updated.weekday = anchor.getDay();
+        // Keep "last <weekday>" if it still applies, otherwise use the anchor's position in the month
+        updated.weekOfMonth = rule.weekOfMonth === -1 && this.isLastWeekdayOfMonth(anchor)
+          ? -1
+          : this.weekOfMonth(anchor);
+      }
+      return updated;
+    }
+    return rule;
+  }
+
+  // The date's position among its weekday's occurrences in the month (1-4). Days after the 28th
+  // are always the last one, and a "fifth" weekday doesn't exist in every month.
+  static weekOfMonth(date: Date): number {
+    return date.getDate() > 28 ? -1 : Math.ceil(date.getDate() / 7);
+  }
+
+  // Whether the date is the last occurrence of its weekday in its month
+  static isLastWeekdayOfMonth(date: Date): boolean {
+    const nextWeek = new Date(date);
+    nextWeek.setDate(date.getDate() + 7);
+    return nextWeek.getMonth() !== date.getMonth();
+  }
+
+  // Get the first occurrence strictly after `from`, keeping the time of day
+  static getNextOccurrence(rule: RecurrenceRule, from: Date): Date {
+    const interval = Math.max(1, rule.interval || 1);
+    const next = new Date(from);
+
+    switch (rule.frequency) {
+      case 'daily':
+        next.setDate(next.getDate() + interval);
+        return next;
+
+      case 'weekdays':
+        do {
+          next.setDate(next.getDate() + 1);
+        } while (next.getDay() === 0 || next.getDay() === 6);
+        return next;
+
+      case 'weekly': {
+        const days = rule.daysOfWeek && rule.daysOfWeek.length > 0
+          ? [...rule.daysOfWeek].sort((a, b) => a - b)
+          : [from.getDay()];
+
+        // Later in the same week?
+        const laterThisWeek = days.find(day => day > from.getDay());
+        if (laterThisWeek !== undefined) {
+          next.setDate(next.getDate() + (laterThisWeek - from.getDay()));
+          return next;
+        }
+
+        // Otherwise the first selected day, `interval` weeks on from this week's Sunday
+        next.setDate(next.getDate() - from.getDay() + interval * 7 + days[0]);
+        return next;
+      }
+
+      case 'monthly': {
+        const targetMonth = new Date(from.getFullYear(), from.getMonth() + interval, 1);
+        if (rule.monthlyMode === 'weekdayOfMonth') {
+          const day = this.getWeekdayOfMonth(
+            targetMonth.getFullYear(),
+            targetMonth.getMonth(),
+            rule.weekday ?? from.getDay(),
+            rule.weekOfMonth ?? 1
+          );
+          next.setFullYear(targetMonth.getFullYear(), targetMonth.getMonth(), day);
+          return next;
+        }
+        return this.setClampedDate(next, targetMonth.getFullYear(), targetMonth.getMonth(), rule.dayOfMonth ?? from.getDate());
+      }
+
+      case 'yearly':
+        return this.setClampedDate(next, from.getFullYear() + interval, from.getMonth(), rule.dayOfMonth ?? from.getDate());
+    }
+  }
+
+  // Get the next occurrence that is after `now`, skipping any missed while a task was overdue
+  static getNextFutureOccurrence(rule: RecurrenceRule, from: Date, now: Date = new Date()): Date {
+    let next = this.getNextOccurrence(rule, from);
+    while (next <= now) {
+      next = this.getNextOccurrence(rule, next);
+    }
+    return next;
+  }
+
+  // Human readable summary, e.g. "Every 2 weeks on Mon, Thu" or "Monthly on the last Friday"
+  static describe(rule: RecurrenceRule): string {
+    const interval = Math.max(1, rule.interval || 1);
+    const every = (unit: string) => interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+    switch (rule.frequency) {
+      case 'daily':
+        return every('day');
+      case 'weekdays':
+        return 'Every weekday';
+      case 'weekly': {
+        const days = (rule.daysOfWeek || []).slice().sort((a, b) => a - b)
+          .map(day => WEEKDAY_NAMES[day].substring(0, 3));
+        return days.length > 0 ? `${every('week')} on ${days.join(', ')}` : every('week');
+      }
+      case 'monthly': {
+        const prefix = interval === 1 ? 'Monthly' : every('month');
+        if (rule.monthlyMode === 'weekdayOfMonth') {
+          const position = rule.weekOfMonth === -1 ? 'last' : ORDINALS[(rule.weekOfMonth ?? 1) - 1];
+          return `${prefix} on the ${position} ${WEEKDAY_NAMES[rule.weekday ?? 0]}`;
+        }
+        return `${prefix} on day ${rule.dayOfMonth}`;
+      }
+      case 'yearly':
+        return interval === 1 ? 'Every year' : every('year');
+    }
+  }
+
+  // Label for the "nth/last weekday" monthly option, e.g. "the last Friday"
+  static describeWeekdayOfMonth(rule: RecurrenceRule): string {
+    const position = rule.weekOfMonth === -1 ? 'last' : ORDINALS[(rule.weekOfMonth ?? 1) - 1];
+    return `the ${position} ${WEEKDAY_NAMES[rule.weekday ?? 0]}`;
+  }
+
+  // Day of the month for the nth (1-4) or last (-1) given weekday
+  private static getWeekdayOfMonth(year: number, month: number, weekday: number, weekOfMonth: number): number {
+    if (weekOfMonth === -1) {
+      const lastDay = new Date(year, month + 1, 0);
+      return lastDay.getDate() - ((lastDay.getDay() - weekday + 7) % 7);
+    }
+    const firstDay = new Date(year, month, 1);
+    const firstMatch = 1 + ((weekday - firstDay.getDay() + 7) % 7);
+    return firstMatch + (weekOfMonth - 1) * 7;
+  }
+
+  // Set year/month/day, using the last day of the month when it is shorter (e.g. the 31st in April)
+  private static setClampedDate(date: Date, year: number, month: number, day: number): Date {
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    date.setFullYear(year, month, Math.min(day, daysInMonth));
+    return date;
+  }
+}
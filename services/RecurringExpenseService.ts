@@ -0,0 +1,96 @@
+import { getRepositories } from '../repositories';
+import { RecurrenceService } from './RecurrenceService';
+import { ExpensePeriod, ExpenseRecurrence } from '../types';
+
+// Upper bound on bills generated for one series in a single run (e.g. after months offline)
+const MAX_INSTANCES_PER_RUN = 24;
+
+export class RecurringExpenseService {
+  // Build the recurrence for a new series; the first generated bill is one period after `base`
+  static createRecurrence(period: ExpensePeriod, base: Date, endDate: Date | null): ExpenseRecurrence {
+    const rule = RecurrenceService.createRule(period, base);
+    return {
+      rule,
+      endDate,
+      nextOccurrence: RecurrenceService.getNextOccurrence(rule, base),
+    };
+  }
+
+  // Whether the series will still generate bills
+  static isActive(recurrence: ExpenseRecurrence): boolean {
+    return !recurrence.endDate || recurrence.nextOccurrence <= recurrence.endDate;
+  }
+
+  // Id of the bill generated for a series' cycle due on `occurrence`
+  static billId(seriesId: string, occurrence: Date): string {
+    return `${seriesId}_${occurrence.toISOString().slice(0, 10)}`;
+  }
+
+  // Create a fresh unsettled bill for every cycle that has come due, then move each series forward
+  static async generateDueExpenses(userId: string): Promise<number> {
+    try {
+      const expenseRepository = getRepositories().expenses;
+      const expenses = await expenseRepository.list(userId);
+      const existingIds = new Set(expenses.map(expense => expense.id));
+      const now = new Date();
+      let createdCount = 0;
+
+      for (const expense of expenses) {
+        const recurrence = expense.recurrence;
+        if (!recurrence) continue;
+
+        let nextOccurrence = recurrence.nextOccurrence;
+        let generated = 0; // Cycles passed, including bills that already existed
+        let created = 0;
+
+        while (
+          nextOccurrence <= now &&
+          (!recurrence.endDate || nextOccurrence <= recurrence.endDate) &&
+          generated < MAX_INSTANCES_PER_RUN
+        ) {
+          // One id per series and cycle, so a bill created by another device or by a run that
+          // failed before moving the series forward isn't created a second time
+          const billId = this.billId(expense.id, nextOccurrence);
+          if (!existingIds.has(billId)) {
+            await expenseRepository.add({
+              title: expense.title,
+              totalAmount: expense.totalAmount,
+              // Same split, but nobody has paid this cycle yet
+              people: expense.people.map(person => ({ ...person, payments: [], paid: false })),
+              paidBy: expense.paidBy ?? null,
+              categoryId: expense.categoryId ?? null,
+              split: expense.split ?? null,
+              spentOn: nextOccurrence,
+              dueDate: nextOccurrence,
+              description: expense.description || '',
+              priority: 'none',
+              settled: false,
+              recurringSourceId: expense.id,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+              userId,
+            }, billId);
+            existingIds.add(billId);
+            created++;
+          }
+          generated++;
+          nextOccurrence = RecurrenceService.getNextOccurrence(recurrence.rule, nextOccurrence);
+        }
+
+        if (generated > 0) {
+          await expenseRepository.update(expense.id, {
+            recurrence: { ...recurrence, nextOccurrence },
+            updatedAt: new Date(),
+          }, expense);
+          createdCount += created;
+        }
+      }
+
+      console.log(`Generated ${createdCount} recurring expenses`);
+      return createdCount;
+    } catch (error) {
+      console.error('Error generating recurring expenses:', error);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { Todo } from '../types';
+
+export type SnoozeOption = 'laterToday' | 'tomorrow' | 'nextWeek';
+
+export const SNOOZE_OPTIONS: SnoozeOption[] = ['laterToday', 'tomorrow', 'nextWeek'];
+
+export const SNOOZE_LABELS: { [option in SnoozeOption]: string } = {
+  laterToday: '☀️ Later Today',
+  tomorrow: '🌅 Tomorrow',
+  nextWeek: '📅 Next Week',
+};
+
+// Snoozed tasks come back at the start of the working day
+const MORNING_HOUR = 9;
+
+// How long "later today" puts a task off for
+const LATER_TODAY_HOURS = 3;
+
+// A task with a start date in the future is deferred: it stays out of the list until then
+export class SnoozeService {
+  static until(option: SnoozeOption, now: Date = new Date()): Date {
+    const date = new Date(now);
+    switch (option) {
+      case 'laterToday':
+        // A few hours from now, on the hour
+        date.setHours(date.getHours() + LATER_TODAY_HOURS, 0, 0, 0);
+        return date;
+      case 'tomorrow':
+        date.setDate(date.getDate() + 1);
+        date.setHours(MORNING_HOUR, 0, 0, 0);
+        return date;
+      case 'nextWeek':
+        // The coming Monday, or the one after if today is Monday
+        date.setDate(date.getDate() + ((8 - date.getDay()) % 7 || 7));
+        date.setHours(MORNING_HOUR, 0, 0, 0);
+        return date;
+    }
+  }
+
+  // A day picked by the user, from the start of its working day
+  static untilDay(day: Date): Date {
+    const date = new Date(day);
+    date.setHours(MORNING_HOUR, 0, 0, 0);
+    return date;
+  }
+
+  static isDeferred(todo: Todo, now: Date = new Date()): boolean {
+    return !todo.completed && !!todo.startDate && todo.startDate > now;
+  }
+
+  // When the next deferred task comes back, so the list can refresh then
+  static nextStart(todos: Todo[], now: Date = new Date()): Date | null {
+    return todos
+      .filter(todo => this.isDeferred(todo, now))
+      .reduce<Date | null>((soonest, todo) => !soonest || todo.startDate! < soonest ? todo.startDate! : soonest, null);
+  }
+
+  // e.g. "Tomorrow at 9:00 AM" or "10/27/2026"; the time is left out for dates picked without one
+  static formatStart(date: Date, now: Date = new Date()): string {
+    const tomorrow = new Date(now);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+
+    const hasTime = date.getHours() !== 0 || date.getMinutes() !== 0;
+    const timeStr = hasTime ? ` at ${date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })}` : '';
+
+    if (date.toDateString() === now.toDateString()) return `Today${timeStr}`;
+    if (date.toDateString() === tomorrow.toDateString()) return `Tomorrow${timeStr}`;
+    return `${date.toLocaleDateString()}${timeStr}`;
+  }
+}
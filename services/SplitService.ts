@@ -0,0 +1,119 @@
+import { ExpenseSplit, LineItem, Money } from '../types';
+import { MoneyService } from './MoneyService';
+
+export interface SplitResult {
+  amounts: { [personId: string]: Money };
+  remaining: Money; // Part of the total not assigned to anyone (negative if over-assigned)
+  error?: string; // Why the split can't be saved
+}
+
+export const SPLIT_MODE_LABELS: { [mode in ExpenseSplit['mode']]: string } = {
+  equal: 'Equal',
+  exact: 'Exact',
+  percentage: '%',
+  shares: 'Shares',
+  itemized: 'Itemized',
+};
+
+export class SplitService {
+  // Work out what each person owes. `exactAmounts` are the typed amounts, used by the exact mode.
+  static compute(
+    total: Money,
+    personIds: string[],
+    split: ExpenseSplit,
+    exactAmounts: { [personId: string]: Money } = {}
+  ): SplitResult {
+    const zero = MoneyService.zero(total.currency);
+    if (personIds.length === 0) {
+      return { amounts: {}, remaining: total };
+    }
+
+    switch (split.mode) {
+      case 'equal':
+        return this.result(total, personIds, MoneyService.split(total, personIds.length));
+
+      case 'exact': {
+        const result = this.result(total, personIds, personIds.map(id => exactAmounts[id] ?? zero));
+        if (!MoneyService.isZero(result.remaining)) {
+          const assigned = MoneyService.subtract(total, result.remaining);
+          result.error = `People's amounts add up to ${MoneyService.format(assigned)}, but the total is ${MoneyService.format(total)}`;
+        }
+        return result;
+      }
+
+      case 'percentage': {
+        const percentages = personIds.map(id => split.weights?.[id] ?? 0);
+        const percentTotal = Math.round(percentages.reduce((sum, pct) => sum + pct, 0) * 100) / 100;
+        if (percentages.some(pct => pct < 0)) {
+          return { ...this.result(total, personIds, personIds.map(() => zero)), error: 'Percentages can\'t be negative' };
+        }
+        if (percentTotal === 100) {
+          return this.result(total, personIds, MoneyService.allocate(total, percentages));
+        }
+        // Show what each percentage comes to so far
+        const result = this.result(total, personIds, percentages.map(pct => MoneyService.convert(total, pct / 100, total.currency)));
+        result.error = `Percentages add up to ${percentTotal}%, not 100%`;
+        return result;
+      }
+
+      case 'shares': {
+        const shares = personIds.map(id => split.weights?.[id] ?? 0);
+        if (shares.some(share => share < 0)) {
+          return { ...this.result(total, personIds, personIds.map(() => zero)), error: 'Shares can\'t be negative' };
+        }
+        if (!shares.some(share => share > 0)) {
+          return { ...this.result(total, personIds, personIds.map(() => zero)), error: 'Give at least one person a share' };
+        }
+        return this.result(total, personIds, MoneyService.allocate(total, shares));
+      }
+
+      case 'itemized':
+        return this.computeItemized(total, personIds, split);
+    }
+  }
+
+  // Each item is split evenly between its people; tax and tip follow each person's share of the items
+  private static computeItemized(total: Money, personIds: string[], split: ExpenseSplit): SplitResult {
+    const zero = MoneyService.zero(total.currency);
+    const items = split.items || [];
+    const itemTotals: { [personId: string]: Money } = {};
+    personIds.forEach(id => { itemTotals[id] = zero; });
+
+    let error: string | undefined;
+    items.forEach((item: LineItem) => {
+      const assigned = item.personIds.filter(id => personIds.includes(id));
+      if (assigned.length === 0) {
+        error = error || `Assign "${item.description || 'Untitled item'}" to at least one person`;
+        return;
+      }
+      MoneyService.split(item.amount, assigned.length).forEach((share, index) => {
+        itemTotals[assigned[index]] = MoneyService.add(itemTotals[assigned[index]], share);
+      });
+    });
+
+    const subtotals = personIds.map(id => itemTotals[id]);
+    const itemsTotal = MoneyService.sum(subtotals, total.currency);
+    const extras = MoneyService.add(split.tax ?? zero, split.tip ?? zero);
+    const weights = MoneyService.isZero(itemsTotal)
+      ? personIds.map(() => 1)
+      : subtotals.map(subtotal => subtotal.minorUnits);
+    const extraShares = MoneyService.allocate(extras, weights);
+
+    const result = this.result(total, personIds, subtotals.map((subtotal, index) => MoneyService.add(subtotal, extraShares[index])));
+    if (items.length === 0) {
+      result.error = 'Add at least one item';
+    } else if (error) {
+      result.error = error;
+    } else if (!MoneyService.isZero(result.remaining)) {
+      const billTotal = MoneyService.add(itemsTotal, extras);
+      result.error = `Items, tax and tip add up to ${MoneyService.format(billTotal)}, but the total is ${MoneyService.format(total)}`;
+    }
+    return result;
+  }
+
+  private static result(total: Money, personIds: string[], shares: Money[]): SplitResult {
+    const amounts: { [personId: string]: Money } = {};
+    personIds.forEach((id, index) => { amounts[id] = shares[index]; });
+    return { amounts, remaining: MoneyService.subtract(total, MoneyService.sum(shares, total.currency)) };
+  }
+}
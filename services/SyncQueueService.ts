@@ -0,0 +1,298 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { collection, doc, setDoc, deleteDoc, runTransaction, Timestamp } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { ConflictResolutionService } from './ConflictResolutionService';
+import { FieldTimestamps, Subtask } from '../types';
+
+export type SyncCollection = 'todos' | 'expenses' | 'contacts' | 'categories' | 'taskLists';
+export type PendingWriteType = 'set' | 'update' | 'delete';
+
+// A Firestore write waiting in the local queue
+export interface PendingWrite {
+  id: string;
+  userId: string;
+  collection: SyncCollection;
+  docId: string;
+  type: PendingWriteType;
+  data?: { [field: string]: any }; // Dates are stored as { __date: ISO string }
+  stamps?: FieldTimestamps; // update: when each field was changed locally
+  baseStamps?: FieldTimestamps; // update: field timestamps of the document the edit was made against
+  queuedAt: number;
+}
+
+// Raw document data as returned by a snapshot, before it is mapped to a Todo/Expense
+export interface RawDoc {
+  id: string;
+  data: any;
+}
+
+// A queued update that lost out to, or overwrote, a concurrent change from another device
+export interface SyncConflict {
+  collection: SyncCollection;
+  docId: string;
+  title: string;
+  fields: string[];
+}
+
+export interface FlushResult {
+  synced: number;
+  failed: number;
+  conflicts: SyncConflict[];
+}
+
+// The item as the user saw it when editing; used to work out what changed and to detect conflicts
+export interface EditedItem {
+  fieldModifiedAt?: FieldTimestamps;
+  subtasks?: Subtask[];
+}
+
+type QueueListener = (queue: PendingWrite[]) => void;
+
+const QUEUE_KEY = '@sync_queue';
+
+// Firestore errors that mean "this write will never succeed". Anything else (offline, an expired
+// sign-in, errors without a code) is retried on the next flush.
+const REJECTED_ERROR_CODES = ['permission-denied', 'invalid-argument', 'not-found', 'failed-precondition'];
+
+export class SyncQueueService {
+  private static listeners: QueueListener[] = [];
+  private static lock: Promise<unknown> = Promise.resolve();
+  private static flushing: Promise<FlushResult> | null = null;
+
+  // Generate a document id locally so new documents can be referenced before they sync
+  static createDocId(collectionName: SyncCollection): string {
+    return doc(collection(db, collectionName)).id;
+  }
+
+  // Get every queued write (all users), oldest first
+  static async getQueue(): Promise<PendingWrite[]> {
+    try {
+      const queueJson = await AsyncStorage.getItem(QUEUE_KEY);
+      return queueJson ? JSON.parse(queueJson) : [];
+    } catch (error) {
+      console.error('Error loading sync queue:', error);
+      return [];
+    }
+  }
+
+  // Add a write to the end of the queue
+  static async enqueue(write: Omit<PendingWrite, 'id' | 'queuedAt'>): Promise<PendingWrite> {
+    const pendingWrite: PendingWrite = {
+      ...write,
+      data: write.data ? this.serialize(write.data) : undefined,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      queuedAt: Date.now(),
+    };
+    await this.mutateQueue(queue => [...queue, pendingWrite]);
+    return pendingWrite;
+  }
+
+  // Queue creating (or replacing) a document, stamping every field
+  static async queueSet(userId: string, collectionName: SyncCollection, docId: string, data: { [field: string]: any }): Promise<void> {
+    const now = Date.now();
+    const fields = data.subtasks ? { ...data, subtasks: ConflictResolutionService.stampSubtasks(data.subtasks, [], now) } : data;
+    await this.enqueue({
+      userId,
+      collection: collectionName,
+      docId,
+      type: 'set',
+      data: { ...fields, fieldModifiedAt: ConflictResolutionService.stampFields(fields, now) },
+    });
+  }
+
+  // Queue an update. Only the fields that differ from `current` are sent, so unchanged fields
+  // never overwrite other devices' edits
+  static async queueUpdate(
+    userId: string,
+    collectionName: SyncCollection,
+    docId: string,
+    data: { [field: string]: any },
+    current?: EditedItem
+  ): Promise<void> {
+    const now = Date.now();
+    const fields = data.subtasks
+      ? { ...data, subtasks: ConflictResolutionService.stampSubtasks(data.subtasks, current?.subtasks, now) }
+      : data;
+    const changes = ConflictResolutionService.diff(fields, current);
+    await this.enqueue({
+      userId,
+      collection: collectionName,
+      docId,
+      type: 'update',
+      data: changes,
+      stamps: ConflictResolutionService.stampFields(changes, now),
+      baseStamps: current?.fieldModifiedAt || {},
+    });
+  }
+
+  static async queueDelete(userId: string, collectionName: SyncCollection, docId: string): Promise<void> {
+    await this.enqueue({ userId, collection: collectionName, docId, type: 'delete' });
+  }
+
+  // Drop a user's queued writes for a collection, e.g. when all of its documents are deleted
+  static async discard(userId: string, collectionName: SyncCollection): Promise<void> {
+    await this.mutateQueue(queue =>
+      queue.filter(write => write.userId !== userId || write.collection !== collectionName)
+    );
+  }
+
+  // Listen for queue changes; returns an unsubscribe function
+  static subscribe(listener: QueueListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // Replay a user's queued writes to Firestore in order. Stops at the first retryable error
+  // so later writes never overtake earlier ones; writes Firestore rejects outright are dropped.
+  static async flush(userId: string): Promise<FlushResult> {
+    if (this.flushing) {
+      // Wait for the running flush, then pick up anything queued since
+      return this.flushing.then(() => this.flush(userId));
+    }
+    this.flushing = this.runFlush(userId).finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  // Apply queued writes on top of snapshot data so the UI shows changes before they sync
+  static applyPendingWrites(writes: PendingWrite[], collectionName: SyncCollection, docs: RawDoc[]): RawDoc[] {
+    const result = [...docs];
+
+    for (const write of writes) {
+      if (write.collection !== collectionName) continue;
+
+      const index = result.findIndex(d => d.id === write.docId);
+      const data = write.data ? this.deserialize(write.data) : {};
+
+      if (write.type === 'delete') {
+        if (index >= 0) result.splice(index, 1);
+      } else if (write.type === 'set') {
+        if (index >= 0) {
+          result[index] = { id: write.docId, data };
+        } else {
+          result.push({ id: write.docId, data });
+        }
+      } else if (index >= 0) {
+        const current = result[index].data;
+        result[index] = {
+          id: write.docId,
+          data: { ...current, ...data, fieldModifiedAt: { ...current.fieldModifiedAt, ...write.stamps } },
+        };
+      }
+    }
+
+    return result;
+  }
+
+  private static async runFlush(userId: string): Promise<FlushResult> {
+    const result: FlushResult = { synced: 0, failed: 0, conflicts: [] };
+
+    while (true) {
+      const queue = await this.getQueue();
+      const next = queue.find(write => write.userId === userId);
+      if (!next) break;
+
+      try {
+        const conflict = await this.applyWrite(next);
+        if (conflict) result.conflicts.push(conflict);
+        result.synced++;
+      } catch (error: any) {
+        if (!REJECTED_ERROR_CODES.includes(error?.code)) {
+          console.log('⏳ Sync paused, will retry when online:', error?.code ?? error);
+          break;
+        }
+        console.error('❌ Dropping write Firestore rejected:', next, error);
+        result.failed++;
+      }
+
+      await this.mutateQueue(current => current.filter(write => write.id !== next.id));
+    }
+
+    if (result.synced > 0) {
+      console.log(`✅ Synced ${result.synced} queued change${result.synced === 1 ? '' : 's'}`);
+    }
+    return result;
+  }
+
+  private static async applyWrite(write: PendingWrite): Promise<SyncConflict | null> {
+    const ref = doc(db, write.collection, write.docId);
+    const data = write.data ? this.deserialize(write.data) : {};
+
+    switch (write.type) {
+      case 'set':
+        await setDoc(ref, data);
+        return null;
+      case 'delete':
+        await deleteDoc(ref);
+        return null;
+      case 'update':
+        // Merge against the latest server copy field by field instead of overwriting it
+        return runTransaction(db, async (transaction) => {
+          const snapshot = await transaction.get(ref);
+          if (!snapshot.exists()) {
+            // Let Firestore reject the write as not-found
+            transaction.update(ref, data);
+            return null;
+          }
+
+          const remote = snapshot.data();
+          const merged = ConflictResolutionService.merge(remote, data, write.stamps || {}, write.baseStamps || {});
+          transaction.update(ref, {
+            ...merged.data,
+            fieldModifiedAt: { ...remote.fieldModifiedAt, ...merged.fieldModifiedAt },
+          });
+
+          if (merged.discarded.length === 0) return null;
+          console.log('⚔️ Merged conflicting edits:', write.docId, merged.discarded);
+          return {
+            collection: write.collection,
+            docId: write.docId,
+            title: remote.title || remote.name || '',
+            fields: merged.discarded,
+          };
+        });
+    }
+  }
+
+  // Read-modify-write the stored queue one caller at a time so concurrent writes aren't lost
+  private static mutateQueue(mutate: (queue: PendingWrite[]) => PendingWrite[]): Promise<void> {
+    const run = this.lock.then(async () => {
+      const queue = mutate(await this.getQueue());
+      await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+      this.listeners.forEach(listener => listener(queue));
+    });
+    this.lock = run.catch((error) => console.error('Error saving sync queue:', error));
+    return run;
+  }
+
+  // JSON can't hold Dates, so tag them and restore them as Firestore Timestamps
+  private static serialize(value: any): any {
+    if (value instanceof Date) return { __date: value.toISOString() };
+    if (value instanceof Timestamp) return { __date: value.toDate().toISOString() };
+    if (Array.isArray(value)) return value.map(item => this.serialize(item));
+    if (value && typeof value === 'object') {
+      const result: any = {};
+      Object.keys(value).forEach(key => {
+        result[key] = this.serialize(value[key]);
+      });
+      return result;
+    }
+    return value;
+  }
+
+  private static deserialize(value: any): any {
+    if (Array.isArray(value)) return value.map(item => this.deserialize(item));
+    if (value && typeof value === 'object') {
+      if (typeof value.__date === 'string') return Timestamp.fromDate(new Date(value.__date));
+      const result: any = {};
+      Object.keys(value).forEach(key => {
+        result[key] = this.deserialize(value[key]);
+      });
+      return result;
+    }
+    return value;
+  }
+}
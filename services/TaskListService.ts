@@ -0,0 +1,97 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getRepositories } from '../repositories';
+import { TaskList, Todo } from '../types';
+
+export const DEFAULT_TASK_LIST_ICON = '📋';
+
+export const TASK_LIST_COLORS = ['#6C55BE', '#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#EC4899', '#6B7280'];
+
+// Completion counts for one list; listId '' is tasks that aren't in a list
+export interface TaskListStats {
+  listId: string;
+  total: number;
+  completed: number;
+  percent: number;
+}
+
+export class TaskListService {
+  static sortByName(lists: TaskList[]): TaskList[] {
+    return [...lists].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Tasks pointing at a removed list show under "All Tasks" only
+  static find(lists: TaskList[], listId?: string): TaskList | undefined {
+    return listId ? lists.find(list => list.id === listId) : undefined;
+  }
+
+  static todosIn(todos: Todo[], listId: string | null): Todo[] {
+    return listId ? todos.filter(todo => todo.listId === listId) : todos;
+  }
+
+  // Completion counts per list, in list order, with unlisted tasks last if there are any
+  static stats(todos: Todo[], lists: TaskList[]): TaskListStats[] {
+    const count = (listTodos: Todo[], listId: string): TaskListStats => {
+      const completed = listTodos.filter(todo => todo.completed).length;
+      return {
+        listId,
+        total: listTodos.length,
+        completed,
+        percent: listTodos.length > 0 ? Math.round((completed / listTodos.length) * 100) : 0,
+      };
+    };
+
+    const stats = lists.map(list => count(todos.filter(todo => todo.listId === list.id), list.id));
+    const unlisted = todos.filter(todo => !this.find(lists, todo.listId));
+    if (unlisted.length > 0) stats.push(count(unlisted, ''));
+    return stats;
+  }
+
+  // "#Work, errands  home" -> ['work', 'errands', 'home']
+  static parseTags(input: string): string[] {
+    const tags = input
+      .split(/[\s,]+/)
+      .map(tag => tag.replace(/^#+/, '').trim().toLowerCase())
+      .filter(Boolean);
+    return Array.from(new Set(tags));
+  }
+
+  // Every tag in use, most used first
+  static allTags(todos: Todo[]): string[] {
+    const counts = new Map<string, number>();
+    todos.forEach(todo => (todo.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+    return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+  }
+
+  // The list switcher's selection is remembered per device; null is "All Tasks"
+  static async loadSelectedList(userId: string): Promise<string | null> {
+    try {
+      return await AsyncStorage.getItem(`@selected_task_list_${userId}`);
+    } catch (error) {
+      console.error('Error loading selected task list:', error);
+      return null;
+    }
+  }
+
+  static async saveSelectedList(userId: string, listId: string | null): Promise<void> {
+    if (listId) {
+      await AsyncStorage.setItem(`@selected_task_list_${userId}`, listId);
+    } else {
+      await AsyncStorage.removeItem(`@selected_task_list_${userId}`);
+    }
+  }
+
+  // Remove a list and take its tasks out of it; the tasks themselves are kept
+  static async removeList(list: TaskList, todos: Todo[]): Promise<number> {
+    const { todos: todoRepository, taskLists: taskListRepository } = getRepositories();
+    let updatedCount = 0;
+
+    for (const todo of todos.filter(t => t.listId === list.id)) {
+      await todoRepository.update(todo.id, { listId: null, updatedAt: new Date() }, todo);
+      updatedCount++;
+    }
+
+    await taskListRepository.remove(list.id);
+    console.log(`🗑️ Removed task list ${list.name} (${updatedCount} tasks)`);
+    return updatedCount;
+  }
+}
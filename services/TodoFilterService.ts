@@ -0,0 +1,179 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Priority, Todo } from '../types';
+import { PriorityService } from './PriorityService';
+import { OrderService } from './OrderService';
+import { SnoozeService } from './SnoozeService';
+
+export type TodoDueFilter = 'any' | 'overdue' | 'today' | 'upcoming' | 'noDate';
+
+// Snoozed tasks only show up under 'snoozed' until their start date
+export type TodoStatusFilter = 'all' | 'active' | 'snoozed' | 'completed';
+
+export type TodoSort = 'priority' | 'dueDate' | 'updated' | 'manual';
+
+// What the task list is narrowed to
+export interface TodoFilter {
+  query: string; // Matches title, description, checklist items and tags
+  tag?: string;
+  due: TodoDueFilter;
+  status: TodoStatusFilter;
+  priority: Priority | 'any';
+  sort: TodoSort;
+}
+
+// A filter saved under a name and shown as a chip above the list
+export interface SmartList {
+  id: string;
+  name: string;
+  filter: TodoFilter;
+}
+
+export const DEFAULT_TODO_FILTER: TodoFilter = { query: '', due: 'any', status: 'all', priority: 'any', sort: 'priority' };
+
+export const TODO_DUE_LABELS: { [due in TodoDueFilter]: string } = {
+  any: 'Any Time',
+  overdue: 'Overdue',
+  today: 'Today',
+  upcoming: 'Upcoming',
+  noDate: 'No Date',
+};
+
+export const TODO_STATUS_LABELS: { [status in TodoStatusFilter]: string } = {
+  all: 'All',
+  active: 'Active',
+  snoozed: 'Snoozed',
+  completed: 'Completed',
+};
+
+export const TODO_SORT_LABELS: { [sort in TodoSort]: string } = {
+  priority: 'Priority',
+  dueDate: 'Due Date',
+  updated: 'Last Updated',
+  manual: 'Manual',
+};
+
+export class TodoFilterService {
+  static async loadFilter(userId: string): Promise<TodoFilter> {
+    try {
+      const stored = await AsyncStorage.getItem(`@todo_filter_${userId}`);
+      return stored ? this.normalize(JSON.parse(stored)) : DEFAULT_TODO_FILTER;
+    } catch (error) {
+      console.error('Error loading todo filter:', error);
+      return DEFAULT_TODO_FILTER;
+    }
+  }
+
+  static async saveFilter(userId: string, filter: TodoFilter): Promise<void> {
+    await AsyncStorage.setItem(`@todo_filter_${userId}`, JSON.stringify(filter));
+  }
+
+  static async getSmartLists(userId: string): Promise<SmartList[]> {
+    try {
+      const stored = await AsyncStorage.getItem(`@todo_smart_lists_${userId}`);
+      if (!stored) return [];
+      return JSON.parse(stored).map((list: SmartList) => ({ ...list, filter: this.normalize(list.filter) }));
+    } catch (error) {
+      console.error('Error loading smart lists:', error);
+      return [];
+    }
+  }
+
+  // Add or replace a smart list (matched by id); returns the updated lists
+  static async saveSmartList(userId: string, list: SmartList): Promise<SmartList[]> {
+    const lists = (await this.getSmartLists(userId)).filter(l => l.id !== list.id);
+    lists.push(list);
+    await AsyncStorage.setItem(`@todo_smart_lists_${userId}`, JSON.stringify(lists));
+    console.log(`📋 Saved smart list: ${list.name}`);
+    return lists;
+  }
+
+  static async removeSmartList(userId: string, id: string): Promise<SmartList[]> {
+    const lists = (await this.getSmartLists(userId)).filter(l => l.id !== id);
+    await AsyncStorage.setItem(`@todo_smart_lists_${userId}`, JSON.stringify(lists));
+    return lists;
+  }
+
+  static createSmartListId(): string {
+    return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  static isSameFilter(a: TodoFilter, b: TodoFilter): boolean {
+    return a.query.trim().toLowerCase() === b.query.trim().toLowerCase() &&
+      (a.tag ?? '') === (b.tag ?? '') &&
+      a.due === b.due &&
+      a.status === b.status &&
+      a.priority === b.priority &&
+      a.sort === b.sort;
+  }
+
+  // Filters in use besides the search text and sort order
+  static activeCount(filter: TodoFilter): number {
+    return [!!filter.tag, filter.due !== 'any', filter.status !== 'all', filter.priority !== 'any'].filter(Boolean).length;
+  }
+
+  static matches(todo: Todo, filter: TodoFilter, now: Date = new Date()): boolean {
+    // "#errands" searches tags the same way "errands" does
+    const query = filter.query.trim().toLowerCase().replace(/^#/, '');
+    if (query) {
+      const text = [
+        todo.title,
+        todo.description || '',
+        ...(todo.subtasks || []).map(subtask => subtask.text),
+        ...(todo.tags || []),
+      ];
+      if (!text.some(value => value.toLowerCase().includes(query))) return false;
+    }
+
+    if (filter.tag && !(todo.tags || []).includes(filter.tag)) return false;
+
+    if ((filter.status === 'snoozed') !== SnoozeService.isDeferred(todo, now)) return false;
+    if (filter.status === 'active' && todo.completed) return false;
+    if (filter.status === 'completed' && !todo.completed) return false;
+    if (filter.priority !== 'any' && todo.priority !== filter.priority) return false;
+
+    const endOfToday = new Date(now);
+    endOfToday.setHours(23, 59, 59, 999);
+    switch (filter.due) {
+      case 'overdue':
+        return !todo.completed && !!todo.dueDate && todo.dueDate < now;
+      case 'today':
+        return !!todo.dueDate && todo.dueDate.toDateString() === now.toDateString();
+      case 'upcoming':
+        return !!todo.dueDate && todo.dueDate > endOfToday;
+      case 'noDate':
+        return !todo.dueDate;
+      default:
+        return true;
+    }
+  }
+
+  // Fill in fields added since the filter was saved; "priority only" filters become high priority
+  private static normalize(stored: any): TodoFilter {
+    const { priorityOnly, ...rest } = stored || {};
+    return { ...DEFAULT_TODO_FILTER, ...(priorityOnly ? { priority: 'high' } : {}), ...rest };
+  }
+
+  static apply(todos: Todo[], filter: TodoFilter): Todo[] {
+    const byPriority = (a: Todo, b: Todo) => PriorityService.compare(a.priority, b.priority);
+    // Ties keep the user's own arrangement
+    const manualOrder = (a: Todo, b: Todo) => OrderService.compareTodos(a, b);
+
+    const compare = (a: Todo, b: Todo): number => {
+      switch (filter.sort) {
+        case 'dueDate':
+          // Soonest due first; tasks without a due date go last
+          if (!a.dueDate || !b.dueDate) return a.dueDate ? -1 : b.dueDate ? 1 : manualOrder(a, b);
+          return a.dueDate.getTime() - b.dueDate.getTime() || manualOrder(a, b);
+        case 'updated':
+          return b.updatedAt.getTime() - a.updatedAt.getTime();
+        case 'manual':
+          // The user's own arrangement, ignoring priority
+          return manualOrder(a, b);
+        default:
+          return byPriority(a, b) || manualOrder(a, b);
+      }
+    };
+
+    return todos.filter(todo => this.matches(todo, filter)).sort(compare);
+  }
+}
@@ -0,0 +1,161 @@
+import { createInMemoryRepositories, getRepositories, setRepositories } from '../../repositories';
+import { BalanceService, SELF_KEY } from '../BalanceService';
+import { MoneyService } from '../MoneyService';
+import { PaymentService } from '../PaymentService';
+import { Expense, Person } from '../../types';
+
+const USER_ID = 'user-1';
+const usd = (minorUnits: number) => MoneyService.fromMinor(minorUnits, 'USD');
+const sameCurrency = (amount: { minorUnits: number; currency: string }) => usd(amount.minorUnits);
+
+const person = (id: string, name: string, amount: number, extra: Partial<Person> = {}): Person =>
+  ({ id, name, contactId: name === 'You' ? undefined : `contact-${name}`, amount: usd(amount), payments: [], paid: false, ...extra });
+
+const expense = (id: string, people: Person[], spentOn: Date, paidBy?: string): Expense => ({
+  id,
+  title: `Expense ${id}`,
+  totalAmount: usd(people.reduce((sum, p) => sum + p.amount.minorUnits, 0)),
+  people,
+  paidBy,
+  spentOn,
+  description: '',
+  priority: 'none',
+  settled: false,
+  createdAt: spentOn,
+  updatedAt: spentOn,
+  userId: USER_ID,
+});
+
+const debts = (entries: [string, string, number][]) =>
+  new Map(entries.map(([from, to, amount]) => [`${from}|${to}`, amount]));
+
+const summary = (settlements: ReturnType<typeof BalanceService.simplifyDebts>) =>
+  settlements.map(({ from, to, amount }) => `${from}->${to} ${amount.minorUnits}`);
+
+describe('BalanceService.simplifyDebts', () => {
+  it('nets out debts between the same two people', () => {
+    expect(summary(BalanceService.simplifyDebts(debts([['a', 'b', 1000], ['b', 'a', 400]]), 'USD'))).toEqual(['a->b 600']);
+    expect(BalanceService.simplifyDebts(debts([['a', 'b', 500], ['b', 'a', 500]]), 'USD')).toEqual([]);
+  });
+
+  it('replaces a chain of debts with one payment and records the debts it clears', () => {
+    const [settlement, ...rest] = BalanceService.simplifyDebts(debts([['a', 'b', 1000], ['b', 'c', 1000]]), 'USD');
+    expect(rest).toEqual([]);
+    expect(summary([settlement])).toEqual(['a->c 1000']);
+    expect(settlement.legs).toEqual([
+      { from: 'a', to: 'b', amount: usd(1000) },
+      { from: 'b', to: 'c', amount: usd(1000) },
+    ]);
+  });
+
+  it('brings everyone to zero in at most one fewer payment than people', () => {
+    const owed = debts([['a', 'b', 700], ['b', 'c', 300], ['c', 'a', 200], ['d', 'a', 900], ['b', 'd', 100]]);
+    const settlements = BalanceService.simplifyDebts(owed, 'USD');
+
+    const net = new Map<string, number>();
+    owed.forEach((amount, pair) => {
+      const [from, to] = pair.split('|');
+      net.set(from, (net.get(from) || 0) + amount);
+      net.set(to, (net.get(to) || 0) - amount);
+    });
+    settlements.forEach(({ from, to, amount }) => {
+      net.set(from, net.get(from)! - amount.minorUnits);
+      net.set(to, net.get(to)! + amount.minorUnits);
+    });
+    expect([...net.values()].every(amount => amount === 0)).toBe(true);
+    expect(settlements.length).toBeLessThanOrEqual(3);
+  });
+
+  it('only pays people the debtor is connected to through shared debts', () => {
+    // a only owes b, so a can't pay d even though d is owed the most
+    const settlements = BalanceService.simplifyDebts(debts([['a', 'b', 500], ['c', 'd', 800]]), 'USD');
+    expect(summary(settlements)).toEqual(['c->d 800', 'a->b 500']);
+  });
+});
+
+describe('BalanceService.recordSettlement', () => {
+  beforeEach(() => {
+    setRepositories(createInMemoryRepositories());
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const save = async (expenses: Expense[]) => {
+    for (const item of expenses) {
+      const { id, ...fields } = item;
+      await getRepositories().expenses.add(fields, id);
+    }
+  };
+
+  const settle = async (expenses: Expense[], from: string, to: string) => {
+    await save(expenses);
+    const result = BalanceService.computeBalances(expenses, 'USD', sameCurrency);
+    const settlement = result.settlements.find(s => s.from === from && s.to === to)!;
+    const count = await BalanceService.recordSettlement(settlement, result.shares, expenses);
+    const saved = await getRepositories().expenses.list(USER_ID);
+    return { count, saved: new Map(saved.map(item => [item.id, item])) };
+  };
+
+  it('pays the shares behind the payment and settles their expenses', async () => {
+    const dinner = expense('dinner', [person('p1', 'You', 1500, { isSelf: true }), person('p2', 'Sam', 1500)], new Date(2026, 9, 1));
+    const taxi = expense('taxi', [person('p3', 'You', 500, { isSelf: true }), person('p4', 'Sam', 500)], new Date(2026, 9, 2));
+
+    const { count, saved } = await settle([dinner, taxi], 'contact-Sam', SELF_KEY);
+
+    expect(count).toBe(2);
+    expect(saved.get('dinner')!.settled).toBe(true);
+    expect(saved.get('taxi')!.settled).toBe(true);
+    const sam = saved.get('dinner')!.people.find(p => p.id === 'p2')!;
+    expect(sam.paid).toBe(true);
+    expect(sam.payments).toHaveLength(1);
+    expect(sam.payments[0]).toMatchObject({ amount: usd(1500), method: 'other', note: 'Settled up' });
+  });
+
+  it('clears both debts in a chain with one payment', async () => {
+    // Sam owes you, you owe Alex: Sam pays Alex
+    const lunch = expense('lunch', [person('p1', 'You', 1000, { isSelf: true }), person('p2', 'Sam', 1000)], new Date(2026, 9, 1));
+    const tickets = expense('tickets', [person('p3', 'You', 1000, { isSelf: true }), person('p4', 'Alex', 1000)], new Date(2026, 9, 2), 'p4');
+
+    const { saved } = await settle([lunch, tickets], 'contact-Sam', 'contact-Alex');
+
+    expect(saved.get('lunch')!.people.find(p => p.id === 'p2')!.paid).toBe(true);
+    expect(saved.get('tickets')!.people.find(p => p.id === 'p3')!.paid).toBe(true);
+    expect(saved.get('lunch')!.settled).toBe(true);
+    expect(saved.get('tickets')!.settled).toBe(true);
+  });
+
+  it('pays the oldest shares first when the payment covers only part of them', async () => {
+    const older = expense('older', [person('p1', 'You', 1000, { isSelf: true }), person('p2', 'Sam', 1000)], new Date(2026, 8, 1));
+    const newer = expense('newer', [person('p3', 'You', 1000, { isSelf: true }), person('p4', 'Sam', 1000)], new Date(2026, 9, 1));
+    // Sam already paid part of the newer one, leaving 1500 owed in total
+    newer.people[1] = PaymentService.withPayment(newer.people[1], {
+      id: 'earlier', amount: usd(500), paidAt: new Date(2026, 9, 2), method: 'cash',
+    });
+    await save([older, newer]);
+
+    const { shares } = BalanceService.computeBalances([newer, older], 'USD', sameCurrency);
+    const partial = { from: 'contact-Sam', to: SELF_KEY, amount: usd(1200), legs: [{ from: 'contact-Sam', to: SELF_KEY, amount: usd(1200) }] };
+    await BalanceService.recordSettlement(partial, shares, [newer, older]);
+
+    const saved = new Map((await getRepositories().expenses.list(USER_ID)).map(item => [item.id, item]));
+    expect(saved.get('older')!.people[1].paid).toBe(true);
+    expect(saved.get('older')!.settled).toBe(true);
+    const samNewer = saved.get('newer')!.people[1];
+    expect(PaymentService.remaining(samNewer)).toEqual(usd(300));
+    expect(saved.get('newer')!.settled).toBe(false);
+  });
+
+  it('nets out what is owed back the other way', async () => {
+    // You owe Sam 400 and Sam owes you 1000: paying the 600 difference clears both
+    const groceries = expense('groceries', [person('p1', 'You', 1000, { isSelf: true }), person('p2', 'Sam', 1000)], new Date(2026, 9, 1));
+    const coffee = expense('coffee', [person('p3', 'You', 400, { isSelf: true }), person('p4', 'Sam', 400)], new Date(2026, 9, 2), 'p4');
+
+    const { saved } = await settle([groceries, coffee], 'contact-Sam', SELF_KEY);
+
+    expect(saved.get('groceries')!.settled).toBe(true);
+    expect(saved.get('coffee')!.settled).toBe(true);
+  });
+});
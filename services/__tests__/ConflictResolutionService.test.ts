@@ -0,0 +1,100 @@
+import { ConflictResolutionService } from '../ConflictResolutionService';
+import { Subtask } from '../../types';
+
+// The local edit was made against the document as of BASE
+const BASE = 1000;
+const REMOTE = 2000; // A concurrent change from another device
+const LOCAL = 3000;
+
+const subtask = (id: string, text: string, modifiedAt?: number, completed = false): Subtask =>
+  ({ id, text, completed, order: Number(id), modifiedAt });
+
+describe('ConflictResolutionService.merge', () => {
+  it('writes local changes to fields nobody else touched', () => {
+    const remote = { title: 'Old', notes: 'Notes', fieldModifiedAt: { title: BASE, notes: BASE } };
+    const result = ConflictResolutionService.merge(remote, { title: 'New' }, { title: LOCAL }, { title: BASE, notes: BASE });
+    expect(result).toEqual({ data: { title: 'New' }, fieldModifiedAt: { title: LOCAL }, discarded: [] });
+  });
+
+  it('keeps the newer value when both sides changed a field', () => {
+    const remote = { title: 'Remote', fieldModifiedAt: { title: REMOTE } };
+    const result = ConflictResolutionService.merge(remote, { title: 'Local' }, { title: LOCAL }, { title: BASE });
+    expect(result.data).toEqual({ title: 'Local' });
+    expect(result.fieldModifiedAt).toEqual({ title: LOCAL });
+    expect(result.discarded).toEqual(['title']);
+  });
+
+  it('leaves a newer remote value in place', () => {
+    const remote = { title: 'Remote', fieldModifiedAt: { title: LOCAL + 1 } };
+    const result = ConflictResolutionService.merge(remote, { title: 'Local' }, { title: LOCAL }, { title: BASE });
+    expect(result.data).toEqual({});
+    expect(result.discarded).toEqual(['title']);
+  });
+
+  it('does not report a conflict when both sides made the same change', () => {
+    const remote = { dueDate: new Date(5000), fieldModifiedAt: { dueDate: REMOTE } };
+    const result = ConflictResolutionService.merge(remote, { dueDate: new Date(5000) }, { dueDate: LOCAL }, { dueDate: BASE });
+    expect(result.discarded).toEqual([]);
+    expect(result.fieldModifiedAt).toEqual({ dueDate: LOCAL });
+  });
+
+  it('passes bookkeeping fields through without stamps', () => {
+    const updatedAt = new Date(LOCAL);
+    const result = ConflictResolutionService.merge({ fieldModifiedAt: {} }, { updatedAt }, {}, {});
+    expect(result).toEqual({ data: { updatedAt }, fieldModifiedAt: {}, discarded: [] });
+  });
+
+  describe('subtasks', () => {
+    const merge = (remote: Subtask[], local: Subtask[]) => ConflictResolutionService.merge(
+      { subtasks: remote, fieldModifiedAt: { subtasks: REMOTE } },
+      { subtasks: local },
+      { subtasks: LOCAL },
+      { subtasks: BASE }
+    );
+
+    it('keeps subtasks added on either side', () => {
+      const result = merge(
+        [subtask('1', 'Shared', BASE), subtask('2', 'Added remotely', REMOTE)],
+        [subtask('1', 'Shared', BASE), subtask('3', 'Added locally', LOCAL)]
+      );
+      expect(result.data.subtasks.map((st: Subtask) => st.id)).toEqual(['1', '2', '3']);
+      expect(result.fieldModifiedAt.subtasks).toBe(LOCAL);
+      expect(result.discarded).toEqual([]);
+    });
+
+    it('drops subtasks deleted on either side', () => {
+      const result = merge(
+        [subtask('1', 'Kept', BASE), subtask('2', 'Deleted locally', BASE)],
+        [subtask('1', 'Kept', BASE), subtask('3', 'Deleted remotely', BASE)]
+      );
+      expect(result.data.subtasks.map((st: Subtask) => st.id)).toEqual(['1']);
+    });
+
+    it('merges different subtasks changed on each side', () => {
+      const result = merge(
+        [subtask('1', 'Edited remotely', REMOTE), subtask('2', 'Two', BASE)],
+        [subtask('1', 'One', BASE), subtask('2', 'Two', LOCAL, true)]
+      );
+      expect(result.data.subtasks).toEqual([subtask('1', 'Edited remotely', REMOTE), subtask('2', 'Two', LOCAL, true)]);
+      expect(result.discarded).toEqual([]);
+    });
+
+    it('reports a subtask changed on both sides', () => {
+      const result = merge([subtask('1', 'Remote', REMOTE)], [subtask('1', 'Local', LOCAL)]);
+      expect(result.data.subtasks).toEqual([subtask('1', 'Local', LOCAL)]);
+      expect(result.discarded).toEqual(['subtasks']);
+    });
+  });
+});
+
+describe('ConflictResolutionService.diff', () => {
+  it('keeps changed fields and bookkeeping fields', () => {
+    const current = { title: 'Same', dueDate: new Date(1), notes: 'Old' };
+    const changes = ConflictResolutionService.diff({ title: 'Same', dueDate: new Date(1), notes: 'New', updatedAt: 5 }, current);
+    expect(changes).toEqual({ notes: 'New', updatedAt: 5 });
+  });
+
+  it('treats null like a missing value', () => {
+    expect(ConflictResolutionService.diff({ notes: null }, { notes: undefined })).toEqual({});
+  });
+});
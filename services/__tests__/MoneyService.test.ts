@@ -0,0 +1,80 @@
+import { MoneyService } from '../MoneyService';
+
+const usd = (minorUnits: number) => MoneyService.fromMinor(minorUnits, 'USD');
+const minor = (amounts: { minorUnits: number }[]) => amounts.map(amount => amount.minorUnits);
+
+describe('MoneyService.allocate', () => {
+  it('splits in proportion to the weights', () => {
+    expect(minor(MoneyService.allocate(usd(1000), [1, 3]))).toEqual([250, 750]);
+  });
+
+  it('gives leftover minor units to the largest remainders, earliest first on ties', () => {
+    expect(minor(MoneyService.allocate(usd(1000), [1, 1, 1]))).toEqual([334, 333, 333]);
+    expect(minor(MoneyService.allocate(usd(100), [1, 2, 2]))).toEqual([20, 40, 40]);
+    expect(minor(MoneyService.allocate(usd(101), [1, 2, 2]))).toEqual([20, 41, 40]);
+  });
+
+  it('always adds back up to the total', () => {
+    const weights = [33.3, 33.3, 33.4, 0.001, 7];
+    [1, 99, 1000, 12345, 999999].forEach(total => {
+      const shares = MoneyService.allocate(usd(total), weights);
+      expect(shares.reduce((sum, share) => sum + share.minorUnits, 0)).toBe(total);
+    });
+  });
+
+  it('keeps the sign of a negative total', () => {
+    expect(minor(MoneyService.allocate(usd(-1000), [1, 1, 1]))).toEqual([-334, -333, -333]);
+  });
+
+  it('gives nothing to zero or negative weights', () => {
+    expect(minor(MoneyService.allocate(usd(1000), [0, -5, 1]))).toEqual([0, 0, 1000]);
+  });
+
+  it('returns zeros when no weight is positive', () => {
+    expect(minor(MoneyService.allocate(usd(1000), [0, 0]))).toEqual([0, 0]);
+    expect(MoneyService.allocate(usd(1000), [])).toEqual([]);
+  });
+
+  it('keeps the currency', () => {
+    MoneyService.allocate(MoneyService.fromMinor(1000, 'JPY'), [1, 2]).forEach(share => {
+      expect(share.currency).toBe('JPY');
+    });
+  });
+});
+
+describe('MoneyService.split', () => {
+  it('splits evenly with the remainder on the first parts', () => {
+    expect(minor(MoneyService.split(usd(1000), 3))).toEqual([334, 333, 333]);
+  });
+
+  it('returns nothing for no parts', () => {
+    expect(MoneyService.split(usd(1000), 0)).toEqual([]);
+  });
+});
+
+describe('MoneyService.parse', () => {
+  it('reads amounts in minor units', () => {
+    expect(MoneyService.parse('12', 'USD')).toEqual(usd(1200));
+    expect(MoneyService.parse('12.5', 'USD')).toEqual(usd(1250));
+    expect(MoneyService.parse('1,234.56', 'USD')).toEqual(usd(123456));
+    expect(MoneyService.parse('12,50', 'USD')).toEqual(usd(1250));
+  });
+
+  it('rounds extra decimal places half away from zero', () => {
+    expect(MoneyService.parse('0.125', 'USD')).toEqual(usd(13));
+    expect(MoneyService.parse('-0.125', 'USD')).toEqual(usd(-13));
+    expect(MoneyService.parse('1.5', 'JPY')).toEqual(MoneyService.fromMinor(2, 'JPY'));
+  });
+
+  it('rejects text that is not an amount', () => {
+    expect(MoneyService.parse('', 'USD')).toBeNull();
+    expect(MoneyService.parse('abc', 'USD')).toBeNull();
+    expect(MoneyService.parse('1.2.3', 'USD')).toBeNull();
+  });
+});
+
+describe('MoneyService.fromMinor', () => {
+  it('rejects fractional minor units', () => {
+    expect(() => MoneyService.fromMinor(1.5, 'USD')).toThrow();
+  });
+});
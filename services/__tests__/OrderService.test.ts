@@ -0,0 +1,75 @@
+import { OrderService } from '../OrderService';
+
+// Apply the changes from OrderService.move and return the items in their new order
+const moved = (orders: number[], from: number, to: number): number[] => {
+  const next = [...orders];
+  OrderService.move(orders, from, to).forEach(({ index, order }) => { next[index] = order; });
+  return next.map((order, index) => ({ order, index })).sort((a, b) => a.order - b.order).map(entry => entry.index);
+};
+
+describe('OrderService.move', () => {
+  it('does nothing when the item stays in place', () => {
+    expect(OrderService.move([0, 1000, 2000], 1, 1)).toEqual([]);
+  });
+
+  it('only moves the dragged item when there is room', () => {
+    expect(OrderService.move([0, 1000, 2000], 2, 0)).toEqual([{ index: 2, order: -1000 }]);
+    expect(OrderService.move([0, 1000, 2000], 0, 2)).toEqual([{ index: 0, order: 3000 }]);
+    expect(OrderService.move([0, 1000, 2000], 0, 1)).toEqual([{ index: 0, order: 1500 }]);
+  });
+
+  it('puts the item at the requested position', () => {
+    const orders = [0, 1000, 2000, 3000];
+    expect(moved(orders, 3, 1)).toEqual([0, 3, 1, 2]);
+    expect(moved(orders, 0, 2)).toEqual([1, 2, 0, 3]);
+  });
+
+  it('respaces the list when the neighbours are too close to fit between', () => {
+    const start = 1.7e12;
+    const orders = [start, start + 0.0001, start + 0.0002];
+    const changes = OrderService.move(orders, 2, 1);
+    expect(changes).toHaveLength(3);
+    expect(changes).toEqual([
+      { index: 0, order: start },
+      { index: 2, order: start + 1000 },
+      { index: 1, order: start + 2000 },
+    ]);
+  });
+
+  it('keeps every order distinct over many moves into the same gap', () => {
+    let orders = [Date.now(), Date.now() + 1000, Date.now() + 2000, Date.now() + 3000];
+    for (let i = 0; i < 200; i++) {
+      // Keep dragging the last item to second place
+      const sorted = orders.map((order, index) => ({ order, index })).sort((a, b) => a.order - b.order);
+      const last = sorted[sorted.length - 1].index;
+      const next = [...orders];
+      OrderService.move(sorted.map(entry => entry.order), sorted.length - 1, 1).forEach(({ index, order }) => {
+        next[sorted[index].index] = order;
+      });
+      orders = next;
+      expect(new Set(orders).size).toBe(orders.length);
+      expect([...orders].sort((a, b) => a - b)[1]).toBe(orders[last]);
+    }
+  });
+});
+
+describe('OrderService.between', () => {
+  it('leaves a step of room past either end', () => {
+    expect(OrderService.between(undefined, 500)).toBe(-500);
+    expect(OrderService.between(500, undefined)).toBe(1500);
+    expect(OrderService.between(undefined, undefined)).toBe(0);
+    expect(OrderService.between(0, 1)).toBe(0.5);
+  });
+});
+
+describe('OrderService.sortSubtasks', () => {
+  it('keeps unordered subtasks at their stored position', () => {
+    const subtasks = [
+      { id: 'a', text: 'A', completed: false },
+      { id: 'b', text: 'B', completed: false, order: 0.5 },
+      { id: 'c', text: 'C', completed: false },
+    ];
+    expect(OrderService.sortSubtasks(subtasks).map(subtask => subtask.id)).toEqual(['a', 'b', 'c']);
+    expect(OrderService.nextSubtaskOrder(subtasks)).toBe(3);
+  });
+});
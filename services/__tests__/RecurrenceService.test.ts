@@ -0,0 +1,97 @@
+import { RecurrenceService } from '../RecurrenceService';
+import { RecurrenceRule } from '../../types';
+
+// Dates are local times, as the service works in the device's time zone
+const day = (year: number, month: number, date: number, hours = 9) => new Date(year, month - 1, date, hours, 0, 0, 0);
+
+describe('RecurrenceService.getNextOccurrence', () => {
+  it('repeats daily at the same time', () => {
+    expect(RecurrenceService.getNextOccurrence({ frequency: 'daily', interval: 1 }, day(2026, 3, 31))).toEqual(day(2026, 4, 1));
+    expect(RecurrenceService.getNextOccurrence({ frequency: 'daily', interval: 3 }, day(2026, 3, 31))).toEqual(day(2026, 4, 3));
+  });
+
+  it('skips weekends for weekdays', () => {
+    // Friday 2026-10-16 -> Monday 2026-10-19
+    expect(RecurrenceService.getNextOccurrence({ frequency: 'weekdays', interval: 1 }, day(2026, 10, 16))).toEqual(day(2026, 10, 19));
+    expect(RecurrenceService.getNextOccurrence({ frequency: 'weekdays', interval: 1 }, day(2026, 10, 19))).toEqual(day(2026, 10, 20));
+  });
+
+  it('moves to the next selected day of the week', () => {
+    const rule: RecurrenceRule = { frequency: 'weekly', interval: 1, daysOfWeek: [4, 1] };
+    // Monday -> Thursday, Thursday -> next Monday
+    expect(RecurrenceService.getNextOccurrence(rule, day(2026, 10, 19))).toEqual(day(2026, 10, 22));
+    expect(RecurrenceService.getNextOccurrence(rule, day(2026, 10, 22))).toEqual(day(2026, 10, 26));
+  });
+
+  it('skips weeks for a weekly interval', () => {
+    const rule: RecurrenceRule = { frequency: 'weekly', interval: 2, daysOfWeek: [1, 4] };
+    expect(RecurrenceService.getNextOccurrence(rule, day(2026, 10, 19))).toEqual(day(2026, 10, 22));
+    expect(RecurrenceService.getNextOccurrence(rule, day(2026, 10, 22))).toEqual(day(2026, 11, 2));
+  });
+
+  it('clamps a monthly day to the end of shorter months', () => {
+    const rule = RecurrenceService.createRule('monthly', day(2026, 1, 31));
+    const february = RecurrenceService.getNextOccurrence(rule, day(2026, 1, 31));
+    expect(february).toEqual(day(2026, 2, 28));
+    // Still the 31st once the month is long enough again
+    expect(RecurrenceService.getNextOccurrence(rule, february)).toEqual(day(2026, 3, 31));
+  });
+
+  it('finds the nth weekday of the month', () => {
+    // Second Tuesday: 2026-10-13 -> 2026-11-10
+    const rule = { ...RecurrenceService.createRule('monthly', day(2026, 10, 13)), monthlyMode: 'weekdayOfMonth' as const };
+    expect(rule.weekday).toBe(2);
+    expect(rule.weekOfMonth).toBe(2);
+    expect(RecurrenceService.getNextOccurrence(rule, day(2026, 10, 13))).toEqual(day(2026, 11, 10));
+  });
+
+  it('finds the last weekday of the month', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', interval: 1, monthlyMode: 'weekdayOfMonth', weekday: 5, weekOfMonth: -1 };
+    // Last Friday of October 2026 -> last Friday of November 2026
+    expect(RecurrenceService.getNextOccurrence(rule, day(2026, 10, 30))).toEqual(day(2026, 11, 27));
+  });
+
+  it('keeps 29 February on the last day of February in other years', () => {
+    const rule = RecurrenceService.createRule('yearly', day(2028, 2, 29));
+    expect(RecurrenceService.getNextOccurrence(rule, day(2028, 2, 29))).toEqual(day(2029, 2, 28));
+  });
+});
+
+describe('RecurrenceService.getNextFutureOccurrence', () => {
+  it('skips occurrences missed while overdue', () => {
+    const rule: RecurrenceRule = { frequency: 'daily', interval: 1 };
+    expect(RecurrenceService.getNextFutureOccurrence(rule, day(2026, 10, 1), day(2026, 10, 5, 12))).toEqual(day(2026, 10, 6));
+  });
+});
+
+describe('RecurrenceService.weekOfMonth', () => {
+  it('counts occurrences of the weekday in the month', () => {
+    expect(RecurrenceService.weekOfMonth(day(2026, 10, 1))).toBe(1);
+    expect(RecurrenceService.weekOfMonth(day(2026, 10, 7))).toBe(1);
+    expect(RecurrenceService.weekOfMonth(day(2026, 10, 8))).toBe(2);
+    expect(RecurrenceService.weekOfMonth(day(2026, 10, 28))).toBe(4);
+  });
+
+  it('treats days after the 28th as the last occurrence', () => {
+    expect(RecurrenceService.weekOfMonth(day(2026, 10, 29))).toBe(-1);
+  });
+});
+
+describe('RecurrenceService.reanchor', () => {
+  it('keeps "last weekday" when the new date is still the last one', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', interval: 1, monthlyMode: 'weekdayOfMonth', weekday: 5, weekOfMonth: -1 };
+    // Friday 2026-11-27 is both the fourth and the last Friday
+    expect(RecurrenceService.reanchor(rule, day(2026, 11, 27)).weekOfMonth).toBe(-1);
+    expect(RecurrenceService.reanchor(rule, day(2026, 11, 20)).weekOfMonth).toBe(3);
+    expect(RecurrenceService.reanchor({ ...rule, weekOfMonth: 4 }, day(2026, 11, 27)).weekOfMonth).toBe(4);
+  });
+});
+
+describe('RecurrenceService.describe', () => {
+  it('summarises the rule', () => {
+    expect(RecurrenceService.describe({ frequency: 'weekly', interval: 2, daysOfWeek: [4, 1] })).toBe('Every 2 weeks on Mon, Thu');
+    expect(RecurrenceService.describe({ frequency: 'monthly', interval: 1, monthlyMode: 'weekdayOfMonth', weekday: 5, weekOfMonth: -1 }))
+      .toBe('Monthly on the last Friday');
+    expect(RecurrenceService.describe({ frequency: 'monthly', interval: 1, monthlyMode: 'dayOfMonth', dayOfMonth: 15 })).toBe('Monthly on day 15');
+  });
+});
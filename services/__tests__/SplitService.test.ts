@@ -0,0 +1,127 @@
+import { SplitService } from '../SplitService';
+import { MoneyService } from '../MoneyService';
+import { Money } from '../../types';
+
+const usd = (minorUnits: number) => MoneyService.fromMinor(minorUnits, 'USD');
+const minorById = (amounts: { [personId: string]: Money }) =>
+  Object.fromEntries(Object.entries(amounts).map(([id, amount]) => [id, amount.minorUnits]));
+
+const PEOPLE = ['a', 'b', 'c'];
+
+describe('SplitService.compute', () => {
+  it('leaves the whole total unassigned with nobody to split between', () => {
+    expect(SplitService.compute(usd(1000), [], { mode: 'equal' })).toEqual({ amounts: {}, remaining: usd(1000) });
+  });
+
+  describe('equal', () => {
+    it('splits evenly, with the extra cent on the first person', () => {
+      const result = SplitService.compute(usd(1000), PEOPLE, { mode: 'equal' });
+      expect(minorById(result.amounts)).toEqual({ a: 334, b: 333, c: 333 });
+      expect(result.remaining).toEqual(usd(0));
+      expect(result.error).toBeUndefined();
+    });
+  });
+
+  describe('exact', () => {
+    it('uses the typed amounts', () => {
+      const result = SplitService.compute(usd(1000), PEOPLE, { mode: 'exact' }, { a: usd(500), b: usd(300), c: usd(200) });
+      expect(minorById(result.amounts)).toEqual({ a: 500, b: 300, c: 200 });
+      expect(result.error).toBeUndefined();
+    });
+
+    it('reports amounts that do not add up to the total', () => {
+      const result = SplitService.compute(usd(1000), PEOPLE, { mode: 'exact' }, { a: usd(500), b: usd(300) });
+      expect(minorById(result.amounts)).toEqual({ a: 500, b: 300, c: 0 });
+      expect(result.remaining).toEqual(usd(200));
+      expect(result.error).toBeDefined();
+    });
+  });
+
+  describe('percentage', () => {
+    it('splits by percentage without losing cents', () => {
+      const result = SplitService.compute(usd(1000), PEOPLE, { mode: 'percentage', weights: { a: 33.3, b: 33.3, c: 33.4 } });
+      expect(minorById(result.amounts)).toEqual({ a: 333, b: 333, c: 334 });
+      expect(result.remaining).toEqual(usd(0));
+      expect(result.error).toBeUndefined();
+    });
+
+    it('shows the amounts so far when the percentages are not 100', () => {
+      const result = SplitService.compute(usd(1000), PEOPLE, { mode: 'percentage', weights: { a: 50, b: 25 } });
+      expect(minorById(result.amounts)).toEqual({ a: 500, b: 250, c: 0 });
+      expect(result.remaining).toEqual(usd(250));
+      expect(result.error).toBe('Percentages add up to 75%, not 100%');
+    });
+
+    it('rejects negative percentages', () => {
+      const result = SplitService.compute(usd(1000), PEOPLE, { mode: 'percentage', weights: { a: 150, b: -50 } });
+      expect(result.error).toBe('Percentages can\'t be negative');
+    });
+  });
+
+  describe('shares', () => {
+    it('splits in proportion to the share counts', () => {
+      const result = SplitService.compute(usd(1000), PEOPLE, { mode: 'shares', weights: { a: 2, b: 1, c: 1 } });
+      expect(minorById(result.amounts)).toEqual({ a: 500, b: 250, c: 250 });
+      expect(result.error).toBeUndefined();
+    });
+
+    it('needs at least one share', () => {
+      const result = SplitService.compute(usd(1000), PEOPLE, { mode: 'shares', weights: {} });
+      expect(result.error).toBe('Give at least one person a share');
+      expect(result.remaining).toEqual(usd(1000));
+    });
+
+    it('rejects negative shares', () => {
+      const result = SplitService.compute(usd(1000), PEOPLE, { mode: 'shares', weights: { a: 2, b: -1 } });
+      expect(result.error).toBe('Shares can\'t be negative');
+    });
+  });
+
+  describe('itemized', () => {
+    it('splits each item between its people and shares tax and tip by their items', () => {
+      const result = SplitService.compute(usd(1650), PEOPLE, {
+        mode: 'itemized',
+        items: [
+          { id: '1', description: 'Pizza', amount: usd(900), personIds: ['a', 'b', 'c'] },
+          { id: '2', description: 'Wine', amount: usd(600), personIds: ['a'] },
+        ],
+        tax: usd(100),
+        tip: usd(50),
+      });
+      // Items: a 900, b 300, c 300; extras 150 split 6:2:2
+      expect(minorById(result.amounts)).toEqual({ a: 990, b: 330, c: 330 });
+      expect(result.remaining).toEqual(usd(0));
+      expect(result.error).toBeUndefined();
+    });
+
+    it('ignores people who are no longer on the expense', () => {
+      const result = SplitService.compute(usd(900), ['a', 'b'], {
+        mode: 'itemized',
+        items: [{ id: '1', description: 'Pizza', amount: usd(900), personIds: ['a', 'b', 'gone'] }],
+      });
+      expect(minorById(result.amounts)).toEqual({ a: 450, b: 450 });
+    });
+
+    it('reports an item nobody is assigned to', () => {
+      const result = SplitService.compute(usd(900), PEOPLE, {
+        mode: 'itemized',
+        items: [{ id: '1', description: 'Pizza', amount: usd(900), personIds: [] }],
+      });
+      expect(result.error).toBe('Assign "Pizza" to at least one person');
+    });
+
+    it('reports items that do not add up to the total', () => {
+      const result = SplitService.compute(usd(1000), PEOPLE, {
+        mode: 'itemized',
+        items: [{ id: '1', description: 'Pizza', amount: usd(900), personIds: PEOPLE }],
+      });
+      expect(result.remaining).toEqual(usd(100));
+      expect(result.error).toBeDefined();
+    });
+
+    it('needs at least one item', () => {
+      const result = SplitService.compute(usd(1000), PEOPLE, { mode: 'itemized', items: [] });
+      expect(result.error).toBe('Add at least one item');
+    });
+  });
+});
@@ -2,21 +2,201 @@ export interface Subtask {
   id: string;
   text: string;
   completed: boolean;
+  order?: number; // Position in the checklist; fractional so items can be moved between others
+  modifiedAt?: number; // Last change (ms), used to merge concurrent checklist edits
 }
 
+// Last modification time (ms) of each field on a synced document
+export type FieldTimestamps = { [field: string]: number };
+
+// When a task reminder fires: a number of minutes before the due date, or at a fixed time
+export type TaskReminder =
+  | { type: 'before'; minutes: number }
+  | { type: 'at'; date: Date };
+
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months/years
+  daysOfWeek?: number[]; // weekly: 0=Sunday ... 6=Saturday
+  monthlyMode?: 'dayOfMonth' | 'weekdayOfMonth'; // monthly: "on the 15th" or "on the last Friday"
+  dayOfMonth?: number; // monthly (dayOfMonth) and yearly
+  weekday?: number; // monthly (weekdayOfMonth): 0=Sunday ... 6=Saturday
+  weekOfMonth?: number; // monthly (weekdayOfMonth): 1-4, or -1 for the last
+}
+
+// How urgent a task or expense is; shown and sorted from high down to none
+export type Priority = 'none' | 'low' | 'medium' | 'high';
+
 export interface Todo {
   id: string;
   title: string;
   description?: string;
   completed: boolean;
-  priority: boolean;
+  priority: Priority;
   dueDate?: Date;
+  startDate?: Date; // Deferred until then: hidden from the list and reminders held back
   subtasks?: Subtask[];
+  reminders?: TaskReminder[];
+  reminderNotificationIds?: string[]; // Local notifications scheduled for the reminders above
+  recurrence?: RecurrenceRule; // Completing a recurring todo advances it to the next occurrence
+  order: number; // Position in the manual order; fractional so a task can be moved between two others
+  listId?: string; // The task list it's filed under; none means it's only in "All Tasks"
+  tags?: string[]; // Lowercase, without the leading #
+  blockedBy?: string[]; // Ids of tasks that have to be done before this one can be
+  completedAt?: Date;
+  lastCompletedAt?: Date;
+  fieldModifiedAt?: FieldTimestamps;
   createdAt: Date;
   updatedAt: Date;
   userId: string;
 }
 
+export type ExpensePeriod = 'weekly' | 'monthly' | 'yearly';
+
+// Schedule for a recurring bill; the expense carrying it is the series
+export interface ExpenseRecurrence {
+  rule: RecurrenceRule; // rule.frequency is the ExpensePeriod
+  endDate?: Date | null; // No bills are generated after this date
+  nextOccurrence: Date; // Due date of the next bill to generate
+}
+
+export type CurrencyCode = string; // ISO 4217, e.g. 'USD'
+
+// Amounts are stored as whole minor units (cents) so they add up exactly
+export interface Money {
+  minorUnits: number;
+  currency: CurrencyCode;
+}
+
+// 1 unit of `from` is worth `rate` units of `to` from `effectiveFrom` until a newer rate takes over
+export interface ExchangeRate {
+  id: string;
+  from: CurrencyCode;
+  to: CurrencyCode;
+  rate: number;
+  effectiveFrom: Date;
+}
+
+// Someone in the user's people directory; expense participants link to one by contactId
+export interface Contact {
+  id: string;
+  name: string;
+  email?: string;
+  fieldModifiedAt?: FieldTimestamps;
+  createdAt: Date;
+  updatedAt: Date;
+  userId: string;
+}
+
+// A spending category; expenses link to one by categoryId
+export interface Category {
+  id: string;
+  name: string;
+  icon: string; // Emoji shown next to the name
+  monthlyBudget?: Money; // Spending limit per calendar month
+  fieldModifiedAt?: FieldTimestamps;
+  createdAt: Date;
+  updatedAt: Date;
+  userId: string;
+}
+
+// A named task list such as Work or Groceries; todos link to one by listId
+export interface TaskList {
+  id: string;
+  name: string;
+  icon: string; // Emoji shown next to the name
+  color: string; // Hex color for the list's chip and task accents
+  fieldModifiedAt?: FieldTimestamps;
+  createdAt: Date;
+  updatedAt: Date;
+  userId: string;
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'transfer' | 'other';
+
+// Money a participant paid towards their share, in the expense's currency
+export interface Payment {
+  id: string;
+  amount: Money;
+  paidAt: Date;
+  method: PaymentMethod;
+  note?: string;
+  fromSettledToggle?: boolean; // Recorded by ticking the expense as settled; unticking removes it again
+}
+
+export interface Person {
+  id: string;
+  name: string;
+  isSelf?: boolean; // The current user's own share
+  contactId?: string;
+  amount: Money;
+  payments: Payment[];
+  paid: boolean; // Payments cover the amount (kept in sync by PaymentService)
+}
+
+export type SplitMode = 'equal' | 'exact' | 'percentage' | 'shares' | 'itemized';
+
+// A line on an itemized bill, split evenly between the people it's assigned to
+export interface LineItem {
+  id: string;
+  description: string;
+  amount: Money;
+  personIds: string[];
+}
+
+// How the total was divided between people, kept so the split can be edited later
+export interface ExpenseSplit {
+  mode: SplitMode;
+  weights?: { [personId: string]: number }; // Percentages or share counts
+  items?: LineItem[];
+  tax?: Money; // Itemized only; shared in proportion to each person's items
+  tip?: Money;
+}
+
+export interface Expense {
+  id: string;
+  title: string;
+  totalAmount: Money;
+  people: Person[];
+  paidBy?: string; // Id of the person who paid the bill; missing means you did
+  categoryId?: string;
+  split?: ExpenseSplit;
+  spentOn: Date; // When the money was spent; analytics and cleanup go by this rather than createdAt
+  dueDate?: Date;
+  description: string;
+  priority: Priority;
+  settled: boolean;
+  settledAt?: Date; // When the last share was paid
+  recurrence?: ExpenseRecurrence; // Set on the series that generates recurring bills
+  recurringSourceId?: string; // Set on bills generated from a series
+  fieldModifiedAt?: FieldTimestamps;
+  createdAt: Date;
+  updatedAt: Date;
+  userId: string;
+}
+
+export type NotificationFrequency = 'none' | 'daily' | 'weekly' | 'once';
+
+// Profile and preferences stored in the user's document
+export interface UserProfile {
+  name?: string;
+  email?: string | null;
+  weeklyGoal?: number;
+  monthlyGoal?: number;
+  fontSize?: string;
+  notificationsEnabled?: boolean;
+  dailyRemindersEnabled?: boolean;
+  notificationFrequency?: NotificationFrequency;
+  reminderHour?: number;
+  reminderMinute?: number;
+  selectedDays?: number[];
+  oneTimeDate?: string;
+  defaultReminderOffsets?: number[];
+  homeCurrency?: CurrencyCode;
+}
+
 export interface User {
   uid: string;
   email: string;